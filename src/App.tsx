@@ -2,9 +2,24 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
-import Index from "./pages/Index";
+import { BrowserRouter, Navigate, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/components/auth/AuthProvider";
+import { RequireAuth } from "@/components/auth/RequireAuth";
+import { AppLayout } from "@/components/layout/AppLayout";
 import Auth from "./pages/Auth";
+import Calendar from "./pages/Calendar";
+import Conversations from "./pages/Conversations";
+import CreateAd from "./pages/CreateAd";
+import Dashboard from "./pages/Dashboard";
+import Jobs from "./pages/Jobs";
+import Knowledge from "./pages/Knowledge";
+import Orders from "./pages/Orders";
+import Post from "./pages/Post";
+import Products from "./pages/Products";
+import Settings from "./pages/Settings";
+import Tickets from "./pages/Tickets";
+import UpdatePassword from "./pages/UpdatePassword";
+import Workspace from "./pages/Workspace";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -15,12 +30,30 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <AuthProvider>
+          <Routes>
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/update-password" element={<UpdatePassword />} />
+            {/* Everything below needs a signed-in user and shares the app header */}
+            <Route element={<RequireAuth><AppLayout /></RequireAuth>}>
+              <Route path="/" element={<Navigate to="/dashboard" replace />} />
+              <Route path="/dashboard" element={<Dashboard />} />
+              <Route path="/create/:type?" element={<CreateAd />} />
+              <Route path="/posts/:id" element={<Post />} />
+              <Route path="/calendar" element={<Calendar />} />
+              <Route path="/jobs" element={<Jobs />} />
+              <Route path="/settings" element={<Settings />} />
+              <Route path="/workspace" element={<Workspace />} />
+              <Route path="/conversations" element={<Conversations />} />
+              <Route path="/knowledge" element={<Knowledge />} />
+              <Route path="/orders" element={<Orders />} />
+              <Route path="/products" element={<Products />} />
+              <Route path="/tickets" element={<Tickets />} />
+            </Route>
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
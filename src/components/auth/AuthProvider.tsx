@@ -0,0 +1,94 @@
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { AuthContext, AuthContextValue } from '@/hooks/use-auth';
+import { forgetBrandSessions } from '@/lib/data-source';
+import { fetchMfaRequired } from '@/lib/mfa';
+import { forgetWebhookHistory } from '@/lib/webhooks';
+
+/**
+ * Owns the Supabase session for the whole app. Every auth event lands here,
+ * including SIGNED_OUT after a failed token refresh or a sign-out in another
+ * tab, so route guards re-render and send the user to /auth instead of leaving
+ * a page that can no longer talk to the database.
+ *
+ * It also works out whether the session still needs an authenticator code, so
+ * guards can hold users with MFA at the code prompt until they verify.
+ */
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Kept per user so token refreshes reuse the last answer instead of flashing the loader
+  const [mfaCheck, setMfaCheck] = useState<{ userId: string; required: boolean } | null>(null);
+  // Set while the user signs out on purpose, so only unexpected sign-outs are announced
+  const signingOut = useRef(false);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      // Also on load without a session, in case the last user's session lapsed while the tab was closed
+      if (!session) {
+        forgetWebhookHistory();
+        forgetBrandSessions();
+      }
+      if (event === 'SIGNED_OUT') {
+        if (!signingOut.current) {
+          toast.error('Your session has ended. Sign in again to pick up where you left off.');
+        }
+        signingOut.current = false;
+      }
+      setSession(session);
+      setLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!session) {
+      setMfaCheck(null);
+      return;
+    }
+
+    // Runs outside onAuthStateChange: calling auth methods inside that callback can deadlock
+    let cancelled = false;
+    const userId = session.user.id;
+    fetchMfaRequired()
+      .then(required => {
+        if (!cancelled) setMfaCheck({ userId, required });
+      })
+      .catch(err => {
+        // Let the user in rather than strand them; posting re-checks with the server anyway
+        console.error('Assurance level error:', err);
+        if (!cancelled) setMfaCheck({ userId, required: false });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  const signOut = useCallback(async () => {
+    signingOut.current = true;
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      signingOut.current = false;
+      throw error;
+    }
+  }, []);
+
+  const mfaKnown = !session || mfaCheck?.userId === session.user.id;
+  const mfaRequired = !!session && !!mfaCheck?.required;
+
+  const value = useMemo<AuthContextValue>(
+    () => ({ session, loading: loading || !mfaKnown, mfaRequired, signOut }),
+    [session, loading, mfaKnown, mfaRequired, signOut]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
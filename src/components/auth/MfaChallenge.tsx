@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import type { Factor } from '@supabase/supabase-js';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { TotpCodeInput } from '@/components/auth/TotpCodeInput';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/use-auth';
+import { authErrorMessage } from '@/lib/auth-errors';
+import { listTotpFactors, TOTP_CODE_LENGTH, verifyTotp } from '@/lib/mfa';
+
+/**
+ * Second login step for users with an authenticator app. Verifying upgrades the
+ * session in place; the page showing this re-renders once AuthProvider sees it.
+ */
+export const MfaChallenge = () => {
+  const { session, signOut } = useAuth();
+  const [factors, setFactors] = useState<Factor[] | null>(null);
+  const [factorId, setFactorId] = useState('');
+  const [code, setCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+
+  useEffect(() => {
+    listTotpFactors()
+      .then(result => {
+        setFactors(result);
+        setFactorId(result[0]?.id ?? '');
+      })
+      .catch(err => {
+        toast.error(`Could not load your authenticators: ${authErrorMessage(err)}`);
+        setFactors([]);
+      });
+  }, []);
+
+  const verify = async (value: string) => {
+    if (!factorId || value.length !== TOTP_CODE_LENGTH) return;
+    setVerifying(true);
+    try {
+      await verifyTotp(factorId, value);
+    } catch (err) {
+      toast.error(authErrorMessage(err));
+      setCode('');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (err) {
+      toast.error(`Could not log out: ${authErrorMessage(err)}`);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Two-factor authentication
+        </CardTitle>
+        <CardDescription>
+          Enter the {TOTP_CODE_LENGTH}-digit code from your authenticator app to finish logging in as {session?.user.email}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {factors === null ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              verify(code);
+            }}
+            className="space-y-4"
+          >
+            {factors.length > 1 && (
+              <div className="space-y-2">
+                <Label>Authenticator</Label>
+                <Select value={factorId} onValueChange={setFactorId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {factors.map(factor => (
+                      <SelectItem key={factor.id} value={factor.id}>
+                        {factor.friendly_name || 'Authenticator app'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <TotpCodeInput value={code} onChange={setCode} onComplete={verify} disabled={verifying || !factorId} />
+            <Button type="submit" className="w-full" disabled={verifying || code.length !== TOTP_CODE_LENGTH || !factorId}>
+              {verifying ? 'Verifying...' : 'Verify'}
+            </Button>
+          </form>
+        )}
+
+        <Collapsible>
+          <CollapsibleTrigger className="text-sm text-primary hover:underline">Lost access to your authenticator?</CollapsibleTrigger>
+          <CollapsibleContent className="mt-2 space-y-2 text-sm text-muted-foreground">
+            {factors && factors.length > 1 && <p>Pick your backup authenticator above and enter its code instead.</p>}
+            <p>
+              Otherwise, ask an administrator to remove two-factor authentication from your account in the Supabase
+              dashboard (Authentication → Users). You can then log in with your password and set up a new authenticator
+              in Settings.
+            </p>
+          </CollapsibleContent>
+        </Collapsible>
+
+        <Button type="button" variant="ghost" className="w-full" onClick={handleSignOut}>
+          Log out
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
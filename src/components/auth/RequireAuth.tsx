@@ -0,0 +1,21 @@
+import { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { FullPageLoader } from '@/components/layout/FullPageLoader';
+import { useAuth } from '@/hooks/use-auth';
+
+// Sends signed-out visitors to /auth, remembering where they were headed so they come back after logging in.
+// Users who still owe an authenticator code go there too; Auth shows them the code prompt.
+export const RequireAuth = ({ children }: { children: ReactNode }) => {
+  const { session, loading, mfaRequired } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <FullPageLoader />;
+  }
+
+  if (!session || mfaRequired) {
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  return <>{children}</>;
+};
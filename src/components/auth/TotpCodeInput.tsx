@@ -0,0 +1,37 @@
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp';
+import { TOTP_CODE_LENGTH } from '@/lib/mfa';
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Fires once all digits are in, so callers can verify without a button press
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+export const TotpCodeInput = ({ value, onChange, onComplete, disabled }: TotpCodeInputProps) => {
+  const half = TOTP_CODE_LENGTH / 2;
+
+  return (
+    <InputOTP
+      maxLength={TOTP_CODE_LENGTH}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus
+      autoComplete="one-time-code"
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: half }, (_, i) => <InputOTPSlot key={i} index={i} />)}
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        {Array.from({ length: half }, (_, i) => <InputOTPSlot key={i} index={half + i} />)}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+};
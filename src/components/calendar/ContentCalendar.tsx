@@ -0,0 +1,283 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { addDays, addWeeks, format, isSameDay, isSameMonth, isToday, startOfWeek } from 'date-fns';
+import { ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react';
+import type { DayProps } from 'react-day-picker';
+import { toast } from 'sonner';
+import { Calendar } from '@/components/ui/calendar';
+import { cn, getErrorMessage } from '@/lib/utils';
+import { PLATFORMS, PlatformPostStatus, scheduledColumn, statusColumn } from '@/lib/platforms';
+import { buildCalendarEntries, CalendarEntry, moveToDay } from '@/lib/schedule';
+import type { VideoSource } from '@/lib/data-source';
+import type { VideoPost } from '@/lib/videos';
+
+interface ContentCalendarProps {
+  source: VideoSource;
+  workspaceId: string;
+  // Hides drag-to-reschedule for members who can't edit posts
+  readOnly?: boolean;
+  onOpenPost: (videoId: number) => void;
+}
+
+type CalendarMode = 'month' | 'week';
+
+const ENTRY_STYLES: Record<PlatformPostStatus, string> = {
+  pending: 'bg-muted text-muted-foreground',
+  scheduled: 'bg-purple-100 text-purple-800 cursor-grab active:cursor-grabbing',
+  posting: 'bg-blue-100 text-blue-800',
+  posted: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const SCHEDULE_FILTER = PLATFORMS
+  .flatMap(({ id }) => [`${id}_scheduled_at.not.is.null`, `${id}_posted_at.not.is.null`])
+  .join(',');
+
+interface MonthDayContextValue {
+  entriesOn: (day: Date) => CalendarEntry[];
+  renderEntry: (entry: CalendarEntry) => React.ReactNode;
+  dropTargetProps: (day: Date) => React.HTMLAttributes<HTMLDivElement>;
+}
+
+// The day picker only passes the date to Day, so the calendar's state reaches the cells this way
+const MonthDayContext = createContext<MonthDayContextValue | null>(null);
+
+// Declared out here so it keeps its identity between renders; one made inside ContentCalendar
+// would be a new component every render and remount each cell, dropping focus and drags.
+// Replaces the picker's whole day button, since the entries are buttons themselves
+// and days aren't selectable here.
+const MonthDay = ({ date, displayMonth }: DayProps) => {
+  const { entriesOn, renderEntry, dropTargetProps } = useContext(MonthDayContext)!;
+  return (
+    <div
+      {...dropTargetProps(date)}
+      className={cn(
+        'flex h-full min-h-28 w-full flex-col gap-1 p-1',
+        isToday(date) && 'bg-accent/40',
+        !isSameMonth(date, displayMonth) && 'opacity-50'
+      )}
+    >
+      <span className="text-xs font-semibold text-muted-foreground">{format(date, 'd')}</span>
+      {entriesOn(date).map(renderEntry)}
+    </div>
+  );
+};
+
+export const ContentCalendar = ({ source, workspaceId, readOnly = false, onOpenPost }: ContentCalendarProps) => {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [cursor, setCursor] = useState(new Date());
+  const [videos, setVideos] = useState<VideoPost[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Kept out of state: nothing needs to re-render while a post is dragged
+  const draggingKey = useRef<string | null>(null);
+
+  const entries = useMemo(() => buildCalendarEntries(videos), [videos]);
+
+  const fetchScheduled = useCallback(async () => {
+    setLoading(true);
+    try {
+      let request = source.client
+        .from(source.table)
+        .select('*')
+        .or(SCHEDULE_FILTER);
+
+      // Brand projects don't have this app's workspaces
+      if (!source.isCustomProject) request = request.eq('workspace_id', workspaceId);
+
+      const { data, error } = await request;
+
+      if (error) throw error;
+      setVideos((data || []) as VideoPost[]);
+    } catch (err) {
+      console.error('Fetch calendar error:', err);
+      toast.error(getErrorMessage(err, 'Failed to load calendar'));
+    } finally {
+      setLoading(false);
+    }
+  }, [source, workspaceId]);
+
+  useEffect(() => {
+    fetchScheduled();
+  }, [fetchScheduled]);
+
+  const reschedule = async (entry: CalendarEntry, day: Date) => {
+    const at = moveToDay(entry.at, day);
+    if (at.getTime() <= Date.now()) {
+      toast.error('Posts can only be moved to a future time');
+      return;
+    }
+
+    const column = scheduledColumn(entry.platform);
+    const previous = videos;
+    setVideos(prev => prev.map(v => v.id === entry.video.id ? { ...v, [column]: at.toISOString() } : v));
+
+    const { data, error } = await source.client
+      .from(source.table)
+      .update({ [column]: at.toISOString() })
+      .eq('id', entry.video.id)
+      .eq(statusColumn(entry.platform), 'scheduled')
+      .select('id');
+
+    if (error || !data?.length) {
+      setVideos(previous);
+      toast.error(error?.message ?? 'This post is no longer scheduled');
+      return;
+    }
+
+    const label = PLATFORMS.find(p => p.id === entry.platform)?.label;
+    toast.success(`${label} post moved to ${format(at, 'PPp')}`);
+  };
+
+  const handleDrop = (day: Date) => {
+    const entry = entries.find(e => e.key === draggingKey.current);
+    draggingKey.current = null;
+    if (entry && !isSameDay(entry.at, day)) {
+      reschedule(entry, day);
+    }
+  };
+
+  const dropTargetProps = (day: Date) => ({
+    onDragOver: (e: React.DragEvent<HTMLDivElement>) => {
+      if (!draggingKey.current) return;
+      e.preventDefault();
+      e.currentTarget.classList.add('bg-primary/10');
+    },
+    onDragLeave: (e: React.DragEvent<HTMLDivElement>) => {
+      e.currentTarget.classList.remove('bg-primary/10');
+    },
+    onDrop: (e: React.DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      e.currentTarget.classList.remove('bg-primary/10');
+      handleDrop(day);
+    },
+  });
+
+  const renderEntry = (entry: CalendarEntry) => {
+    const platform = PLATFORMS.find(p => p.id === entry.platform)?.label;
+    const draggable = !readOnly && entry.status === 'scheduled';
+
+    return (
+      <button
+        key={entry.key}
+        type="button"
+        draggable={draggable}
+        onDragStart={e => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', entry.key);
+          draggingKey.current = entry.key;
+        }}
+        onDragEnd={() => {
+          draggingKey.current = null;
+        }}
+        onClick={() => onOpenPost(entry.video.id)}
+        title={`${entry.video.post_title || `Post #${entry.video.id}`} · ${platform} · ${entry.status}`}
+        className={cn(
+          'w-full truncate rounded px-1.5 py-0.5 text-left text-[11px] font-medium',
+          ENTRY_STYLES[entry.status]
+        )}
+      >
+        {format(entry.at, 'HH:mm')} {platform} · {entry.video.post_title || `#${entry.video.id}`}
+      </button>
+    );
+  };
+
+  const entriesOn = (day: Date) => entries.filter(e => isSameDay(e.at, day));
+
+  const weekStart = startOfWeek(cursor);
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Content Calendar</h2>
+          <p className="text-muted-foreground mt-1">Drag a scheduled post to another day to reschedule it</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-xl border border-border bg-white p-1 shadow-soft">
+            {(['month', 'week'] as CalendarMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg text-sm font-medium capitalize transition-all',
+                  mode === m ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={fetchScheduled}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-border rounded-xl hover:bg-secondary text-foreground shadow-soft transition-all"
+          >
+            <RefreshCw size={16} className={loading ? 'animate-spin' : ''} /> Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-medium border border-border p-4">
+        {mode === 'month' ? (
+          <MonthDayContext.Provider value={{ entriesOn, renderEntry, dropTargetProps }}>
+            <Calendar
+              month={cursor}
+              onMonthChange={setCursor}
+              className="p-0"
+              classNames={{
+                months: 'w-full',
+                month: 'w-full space-y-4',
+                table: 'w-full border-collapse',
+                head_row: 'grid grid-cols-7',
+                head_cell: 'text-muted-foreground font-normal text-xs text-center py-1',
+                row: 'grid grid-cols-7',
+                cell: 'border border-border p-0 align-top',
+              }}
+              components={{
+                IconLeft: () => <ChevronLeft className="h-4 w-4" />,
+                IconRight: () => <ChevronRight className="h-4 w-4" />,
+                Day: MonthDay,
+              }}
+            />
+          </MonthDayContext.Provider>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setCursor(addWeeks(cursor, -1))}
+                className="p-1.5 rounded-md border border-border hover:bg-muted"
+                title="Previous week"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <span className="text-sm font-medium">
+                {format(weekDays[0], 'MMM d')} – {format(weekDays[6], 'MMM d, yyyy')}
+              </span>
+              <button
+                onClick={() => setCursor(addWeeks(cursor, 1))}
+                className="p-1.5 rounded-md border border-border hover:bg-muted"
+                title="Next week"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-7 gap-2">
+              {weekDays.map(day => (
+                <div
+                  key={day.toISOString()}
+                  {...dropTargetProps(day)}
+                  className={cn(
+                    'min-h-64 rounded-lg border border-border p-2 space-y-1',
+                    isSameDay(day, new Date()) && 'bg-accent/40'
+                  )}
+                >
+                  <p className="text-xs font-semibold text-muted-foreground">{format(day, 'EEE d')}</p>
+                  {entriesOn(day).map(renderEntry)}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
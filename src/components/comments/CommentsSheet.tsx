@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle2, Loader2, MessageSquare, Play, RotateCcw, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { MentionTextarea } from '@/components/comments/MentionTextarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useAppContext } from '@/hooks/use-app-context';
+import { CommentChange, useCommentRealtime } from '@/hooks/use-comment-realtime';
+import {
+  addComment,
+  deleteComment,
+  fetchComments,
+  findMentions,
+  formatVideoTime,
+  markCommentsRead,
+  MAX_COMMENT_LENGTH,
+  PostComment,
+  setCommentResolved,
+} from '@/lib/comments';
+import { cn, getErrorMessage } from '@/lib/utils';
+import { isImagePost, VideoPost } from '@/lib/videos';
+import { can, fetchWorkspaceMembers, WorkspaceMember } from '@/lib/workspaces';
+
+interface CommentsSheetProps {
+  video: VideoPost;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called once the thread has been marked read, so the card can clear its badge
+  onRead: () => void;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Highlights "@email" for the members the comment actually mentions
+const CommentBody = ({ comment, members }: { comment: PostComment; members: WorkspaceMember[] }) => {
+  const emails = members
+    .filter(m => comment.mentions.includes(m.user_id) && m.profiles?.email)
+    .map(m => `@${m.profiles!.email}`);
+  if (emails.length === 0) return <>{comment.body}</>;
+
+  const parts = comment.body.split(new RegExp(`(${emails.map(escapeRegExp).join('|')})`, 'g'));
+  return (
+    <>
+      {parts.map((part, index) =>
+        emails.includes(part)
+          ? <span key={index} className="font-medium text-primary">{part}</span>
+          : part
+      )}
+    </>
+  );
+};
+
+export const CommentsSheet = ({ video, open, onOpenChange, onRead }: CommentsSheetProps) => {
+  const { userId, workspace, videoSource } = useAppContext();
+  const playerRef = useRef<HTMLVideoElement>(null);
+  const onReadRef = useRef(onRead);
+  onReadRef.current = onRead;
+  const [comments, setComments] = useState<PostComment[] | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [body, setBody] = useState('');
+  const [pinToTime, setPinToTime] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [showResolved, setShowResolved] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const isVideo = !!video.video_url && !isImagePost(video);
+  const canComment = can(workspace.role, 'comment');
+
+  useEffect(() => {
+    if (!open) return;
+
+    setComments(null);
+    Promise.all([fetchComments(videoSource, video.id), fetchWorkspaceMembers(workspace.id)])
+      .then(([commentRows, memberRows]) => {
+        setComments(commentRows);
+        setMembers(memberRows);
+      })
+      .catch(err => {
+        console.error('Load comments error:', err);
+        toast.error(`Could not load comments: ${getErrorMessage(err)}`);
+        setComments([]);
+      });
+  }, [open, videoSource, video.id, workspace.id]);
+
+  const markRead = useCallback(() => {
+    markCommentsRead(videoSource, video.id)
+      .then(() => onReadRef.current())
+      .catch(err => console.error('Mark comments read error:', err));
+  }, [videoSource, video.id]);
+
+  useEffect(() => {
+    if (open) markRead();
+  }, [open, markRead]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    // Again on close, for comments that arrived while the thread was open
+    if (!isOpen) markRead();
+    onOpenChange(isOpen);
+  };
+
+  const handleRealtimeChange = (change: CommentChange) => {
+    setComments(prev => {
+      if (!prev) return prev;
+      switch (change.eventType) {
+        case 'INSERT': {
+          if (prev.some(c => c.id === change.new.id)) return prev;
+          // Realtime rows carry no joins, so the author comes from the member list
+          const author = members.find(m => m.user_id === change.new.author_id)?.profiles ?? null;
+          return [...prev, { ...change.new, author }];
+        }
+        case 'UPDATE':
+          return prev.map(c => c.id === change.new.id ? { ...c, ...change.new } : c);
+        case 'DELETE':
+          return prev.filter(c => c.id !== change.old.id);
+        default:
+          return prev;
+      }
+    });
+  };
+
+  useCommentRealtime(videoSource, open ? video.id : null, handleRealtimeChange);
+
+  const handleSubmit = async () => {
+    if (!body.trim() || busy) return;
+    setBusy(true);
+    try {
+      const comment = await addComment(videoSource, {
+        videoId: video.id,
+        body,
+        mentions: findMentions(body, members).map(m => m.user_id),
+        videoTime: isVideo && pinToTime ? Math.round(currentTime * 10) / 10 : null,
+      });
+      setComments(prev => prev && !prev.some(c => c.id === comment.id) ? [...prev, comment] : prev);
+      setBody('');
+      setPinToTime(false);
+    } catch (err) {
+      toast.error(`Could not post the comment: ${getErrorMessage(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleResolve = async (comment: PostComment) => {
+    const resolved = !comment.resolved_at;
+    try {
+      await setCommentResolved(videoSource, comment.id, resolved);
+      setComments(prev => prev?.map(c => c.id === comment.id
+        ? { ...c, resolved_at: resolved ? new Date().toISOString() : null, resolved_by: resolved ? userId : null }
+        : c) ?? null);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const handleDelete = async (comment: PostComment) => {
+    try {
+      await deleteComment(videoSource, comment.id);
+      setComments(prev => prev?.filter(c => c.id !== comment.id) ?? null);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const seek = (seconds: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.currentTime = seconds;
+    player.pause();
+  };
+
+  const resolvedCount = comments?.filter(c => c.resolved_at).length ?? 0;
+  const visible = comments?.filter(c => showResolved || !c.resolved_at) ?? [];
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetContent className="sm:max-w-lg flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle>Comments</SheetTitle>
+          <SheetDescription className="truncate">{video.post_title || `Post ${video.id}`}</SheetDescription>
+        </SheetHeader>
+
+        {isVideo && (
+          <video
+            ref={playerRef}
+            src={video.video_url!}
+            controls
+            onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+            className="w-full max-h-56 rounded-xl bg-slate-900"
+          />
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-3 pr-1">
+          {comments === null ? (
+            <Loader2 size={20} className="animate-spin text-muted-foreground" />
+          ) : visible.length === 0 ? (
+            <div className="py-10 text-center text-sm text-muted-foreground">
+              <MessageSquare size={24} className="mx-auto mb-2" />
+              {comments.length === 0 ? 'No comments yet.' : 'Every comment is resolved.'}
+            </div>
+          ) : (
+            visible.map(comment => (
+              <div
+                key={comment.id}
+                className={cn('rounded-xl border border-border p-3 space-y-1.5', comment.resolved_at && 'bg-muted/50 opacity-70')}
+              >
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="font-semibold text-foreground truncate">
+                    {comment.author?.email ?? (comment.author_id ? 'A workspace member' : 'A former member')}
+                  </span>
+                  <span className="text-muted-foreground shrink-0" title={new Date(comment.created_at).toLocaleString()}>
+                    {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                  </span>
+                  <div className="ml-auto flex items-center gap-1">
+                    {canComment && (
+                      <button
+                        type="button"
+                        onClick={() => handleResolve(comment)}
+                        title={comment.resolved_at ? 'Reopen' : 'Resolve'}
+                        className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                      >
+                        {comment.resolved_at ? <RotateCcw size={14} /> : <CheckCircle2 size={14} />}
+                      </button>
+                    )}
+                    {(comment.author_id === userId || can(workspace.role, 'manageWorkspace')) && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(comment)}
+                        title="Delete comment"
+                        className="p-1 rounded-md text-muted-foreground hover:text-red-600 hover:bg-red-50 transition-colors"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {comment.video_time !== null && (
+                  <button
+                    type="button"
+                    onClick={() => seek(comment.video_time!)}
+                    disabled={!isVideo}
+                    className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-0.5 text-xs font-semibold text-primary hover:bg-primary/20 transition-colors"
+                  >
+                    <Play size={10} />
+                    {formatVideoTime(comment.video_time)}
+                  </button>
+                )}
+                <p className="text-sm text-foreground whitespace-pre-wrap break-words">
+                  <CommentBody comment={comment} members={members} />
+                </p>
+                {comment.resolved_at && (
+                  <p className="text-xs text-muted-foreground">Resolved</p>
+                )}
+              </div>
+            ))
+          )}
+
+          {resolvedCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowResolved(prev => !prev)}
+              className="text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {showResolved ? 'Hide resolved' : `Show ${resolvedCount} resolved`}
+            </button>
+          )}
+        </div>
+
+        {canComment ? (
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              handleSubmit();
+            }}
+            className="space-y-2"
+          >
+            <MentionTextarea
+              value={body}
+              onChange={setBody}
+              members={members.filter(m => m.user_id !== userId)}
+              onSubmit={handleSubmit}
+              placeholder="Add a comment. Type @ to mention someone."
+              disabled={busy}
+              maxLength={MAX_COMMENT_LENGTH}
+            />
+            <div className="flex items-center justify-between gap-2">
+              {isVideo ? (
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Checkbox checked={pinToTime} onCheckedChange={checked => setPinToTime(checked === true)} />
+                  At {formatVideoTime(currentTime)}
+                </label>
+              ) : <span />}
+              <button
+                type="submit"
+                disabled={busy || !body.trim()}
+                className="px-4 py-2 bg-primary text-primary-foreground text-sm font-medium rounded-xl shadow-soft hover:shadow-medium transition-all flex items-center gap-2 disabled:opacity-50"
+              >
+                {busy ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+                Comment
+              </button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-xs text-muted-foreground">Viewers can read comments but not add them.</p>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
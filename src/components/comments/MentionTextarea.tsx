@@ -0,0 +1,127 @@
+import { useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { WorkspaceMember } from '@/lib/workspaces';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  members: WorkspaceMember[];
+  onSubmit: () => void;
+  placeholder?: string;
+  disabled?: boolean;
+  maxLength?: number;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// The "@partial" being typed right before the caret, if any
+const mentionQueryAt = (text: string, caret: number) => text.slice(0, caret).match(/(?:^|\s)@([^\s@]*)$/)?.[1] ?? null;
+
+// Textarea that suggests workspace members after "@" and inserts "@email" when one is picked.
+// Ctrl/Cmd+Enter submits.
+export const MentionTextarea = ({ value, onChange, members, onSubmit, placeholder, disabled, maxLength }: MentionTextareaProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = query === null
+    ? []
+    : members
+      .filter(m => m.profiles?.email?.toLowerCase().includes(query.toLowerCase()))
+      .slice(0, MAX_SUGGESTIONS);
+
+  const updateQuery = (text: string, caret: number) => {
+    setQuery(mentionQueryAt(text, caret));
+    setHighlighted(0);
+  };
+
+  const pick = (member: WorkspaceMember) => {
+    const textarea = textareaRef.current;
+    if (!textarea || query === null || !member.profiles?.email) return;
+
+    const caret = textarea.selectionStart;
+    const start = caret - query.length - 1;
+    const inserted = `@${member.profiles.email} `;
+    onChange(value.slice(0, start) + inserted + value.slice(caret));
+    setQuery(null);
+
+    // Put the caret after the inserted mention once React has rendered the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + inserted.length, start + inserted.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pick(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={e => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={e => updateQuery(value, e.currentTarget.selectionStart)}
+        onBlur={() => setQuery(null)}
+        placeholder={placeholder}
+        disabled={disabled}
+        maxLength={maxLength}
+        rows={3}
+        className="w-full p-3 text-sm border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none resize-none disabled:opacity-50"
+      />
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute left-0 right-0 bottom-full mb-1 z-50 rounded-xl border border-border bg-popover p-1 shadow-medium"
+        >
+          {suggestions.map((member, index) => (
+            <li
+              key={member.user_id}
+              role="option"
+              aria-selected={index === highlighted}
+              // Mouse down rather than click so the textarea doesn't blur and close the list first
+              onMouseDown={e => {
+                e.preventDefault();
+                pick(member);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                'px-2 py-1.5 rounded-lg text-sm cursor-pointer truncate',
+                index === highlighted && 'bg-secondary'
+              )}
+            >
+              {member.profiles?.email}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import { AlertTriangle, Bot, UserRound, Wrench } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ChatMessage, CHAT_ROLE_LABELS } from '@/lib/conversations';
+
+interface ChatTranscriptProps {
+  messages: ChatMessage[];
+}
+
+const JsonBlock = ({ value }: { value: unknown }) => (
+  <pre className="text-xs bg-muted rounded-lg p-2 overflow-x-auto whitespace-pre-wrap break-all">
+    {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
+  </pre>
+);
+
+const MessageRow = ({ message }: { message: ChatMessage }) => {
+  if (message.malformed) {
+    return (
+      <div className="border border-amber-200 bg-amber-50 rounded-xl p-3 space-y-2">
+        <p className="text-xs font-bold text-amber-700 flex items-center gap-1">
+          <AlertTriangle size={12} />
+          Message #{message.id} could not be read
+        </p>
+        <JsonBlock value={message.raw} />
+      </div>
+    );
+  }
+
+  if (message.role === 'tool') {
+    return (
+      <details className="border border-border rounded-xl px-3 py-2 text-sm">
+        <summary className="cursor-pointer text-muted-foreground flex items-center gap-1">
+          <Wrench size={12} />
+          {message.toolName ? `${message.toolName} returned` : 'Tool result'}
+        </summary>
+        <div className="mt-2">
+          <JsonBlock value={message.content} />
+        </div>
+      </details>
+    );
+  }
+
+  const isCustomer = message.role === 'human';
+
+  return (
+    <div className={cn('flex gap-2', isCustomer ? 'justify-start' : 'justify-end')}>
+      {isCustomer && (
+        <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center shrink-0">
+          <UserRound size={16} className="text-muted-foreground" />
+        </div>
+      )}
+      <div className="max-w-[75%] space-y-1">
+        {message.content && (
+          <div
+            className={cn(
+              'rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap break-words',
+              isCustomer ? 'bg-secondary text-foreground rounded-tl-sm' : 'bg-primary text-primary-foreground rounded-tr-sm',
+              message.role === 'system' && 'bg-muted text-muted-foreground italic'
+            )}
+          >
+            {message.content}
+          </div>
+        )}
+        {message.toolCalls.map((call, index) => (
+          <details key={call.id ?? index} className="border border-border rounded-xl px-3 py-2 text-sm bg-white">
+            <summary className="cursor-pointer text-muted-foreground flex items-center gap-1">
+              <Wrench size={12} />
+              Called {call.name}
+            </summary>
+            <div className="mt-2">
+              <JsonBlock value={call.args} />
+            </div>
+          </details>
+        ))}
+        <p className={cn('text-[10px] text-muted-foreground', !isCustomer && 'text-right')}>
+          {CHAT_ROLE_LABELS[message.role]} · #{message.id}
+        </p>
+      </div>
+      {!isCustomer && (
+        <div className="w-8 h-8 rounded-full bg-gradient-blue flex items-center justify-center shrink-0">
+          <Bot size={16} className="text-white" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ChatTranscript = ({ messages }: ChatTranscriptProps) => (
+  <div className="space-y-3">
+    {messages.map(message => (
+      <MessageRow key={message.id} message={message} />
+    ))}
+  </div>
+);
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { LifeBuoy, Loader2, ShoppingBag } from 'lucide-react';
+import { TicketStatusBadge } from '@/components/tickets/TicketStatusBadge';
+import { OrderStatusBadge } from '@/components/orders/OrderStatusSelect';
+import { findConversationTickets } from '@/lib/conversations';
+import { CustomerOrder, formatPrice } from '@/lib/orders';
+import { findMatchingOrders, Ticket, ticketName } from '@/lib/tickets';
+
+interface ConversationLinksProps {
+  phone: string | null;
+}
+
+export const ConversationLinks = ({ phone }: ConversationLinksProps) => {
+  const [tickets, setTickets] = useState<Ticket[] | null>(null);
+  const [orders, setOrders] = useState<CustomerOrder[] | null>(null);
+
+  useEffect(() => {
+    setTickets(null);
+    setOrders(null);
+    findConversationTickets(phone)
+      .then(setTickets)
+      .catch(err => {
+        console.error('Conversation tickets error:', err);
+        setTickets([]);
+      });
+    findMatchingOrders(phone, null)
+      .then(setOrders)
+      .catch(err => {
+        console.error('Conversation orders error:', err);
+        setOrders([]);
+      });
+  }, [phone]);
+
+  if (!phone) {
+    return <p className="text-sm text-muted-foreground">No phone number in this conversation to look up tickets or orders.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">Matched on phone number {phone}</p>
+
+      <section className="space-y-2">
+        <h4 className="text-sm font-bold text-foreground flex items-center gap-1">
+          <LifeBuoy size={14} />
+          Tickets
+        </h4>
+        {tickets === null ? (
+          <Loader2 size={16} className="animate-spin text-muted-foreground" />
+        ) : tickets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tickets for this number.</p>
+        ) : (
+          <ul className="space-y-2">
+            {tickets.map(ticket => (
+              <li key={ticket.id}>
+                {/* status=all so the inbox shows the ticket even when it's resolved */}
+                <Link
+                  to={`/tickets?status=all&ticket=${ticket.id}`}
+                  className="flex items-center justify-between gap-2 p-2.5 border border-border rounded-xl hover:bg-secondary/60 transition-colors"
+                >
+                  <span className="text-sm text-foreground truncate">#{ticket.id} · {ticketName(ticket)}</span>
+                  <TicketStatusBadge status={ticket.status} />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h4 className="text-sm font-bold text-foreground flex items-center gap-1">
+          <ShoppingBag size={14} />
+          Orders
+        </h4>
+        {orders === null ? (
+          <Loader2 size={16} className="animate-spin text-muted-foreground" />
+        ) : orders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No orders for this number.</p>
+        ) : (
+          <ul className="space-y-2">
+            {orders.map(order => (
+              <li key={order.order_id}>
+                <Link
+                  to={`/orders?order=${encodeURIComponent(order.order_id)}`}
+                  className="flex items-center justify-between gap-2 p-2.5 border border-border rounded-xl hover:bg-secondary/60 transition-colors"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-foreground truncate">{order.product_order_summary || order.order_id}</p>
+                    <p className="text-xs text-muted-foreground">{formatPrice(order.total_price)}</p>
+                  </div>
+                  <OrderStatusBadge order={order} />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
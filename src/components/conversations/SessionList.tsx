@@ -0,0 +1,34 @@
+import { MessagesSquare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ChatSession, messagePreview } from '@/lib/conversations';
+
+interface SessionListProps {
+  sessions: ChatSession[];
+  selectedId: string | null;
+  onSelect: (sessionId: string) => void;
+}
+
+export const SessionList = ({ sessions, selectedId, onSelect }: SessionListProps) => (
+  <ul className="divide-y divide-border">
+    {sessions.map(session => (
+      <li key={session.session_id}>
+        <button
+          onClick={() => onSelect(session.session_id)}
+          className={cn(
+            'w-full text-left px-4 py-3 transition-colors hover:bg-secondary/60',
+            session.session_id === selectedId && 'bg-secondary'
+          )}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-bold text-foreground truncate font-mono text-sm">{session.session_id}</span>
+            <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+              <MessagesSquare size={12} />
+              {session.message_count}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground truncate mt-0.5">{messagePreview(session.last_message)}</p>
+        </button>
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle2, ChevronDown, Eye, FilePen, History, Loader2, MessageSquareWarning, Rocket, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useAppContext } from '@/hooks/use-app-context';
+import {
+  APPROVAL_EVENT_LABELS,
+  APPROVAL_STATUS_LABELS,
+  ApprovalEvent,
+  ApprovalStatus,
+  availableReviewActions,
+  fetchApprovalHistory,
+  getApprovalStatus,
+  ReviewAction,
+} from '@/lib/approvals';
+import { postRole } from '@/lib/data-source';
+import { cn, getErrorMessage } from '@/lib/utils';
+import type { VideoPost } from '@/lib/videos';
+
+interface ApprovalPanelProps {
+  video: VideoPost;
+  onReview: (action: ReviewAction, comment?: string) => Promise<unknown>;
+}
+
+const STATUS_STYLES: Record<ApprovalStatus, { className: string; icon: typeof Eye; hint: string }> = {
+  draft: {
+    className: 'bg-muted text-muted-foreground',
+    icon: FilePen,
+    hint: 'Posting unlocks once a reviewer approves it.',
+  },
+  in_review: {
+    className: 'bg-amber-100 text-amber-700',
+    icon: Eye,
+    hint: 'Waiting for a reviewer to approve it or request changes.',
+  },
+  approved: {
+    className: 'bg-green-100 text-green-700',
+    icon: CheckCircle2,
+    hint: 'Ready to post or schedule. Editing the title, description or tags sends it back to draft.',
+  },
+  published: {
+    className: 'bg-blue-100 text-blue-700',
+    icon: Rocket,
+    hint: 'Live on at least one platform. Editing the title, description or tags sends it back to draft.',
+  },
+};
+
+// Review state of one post, the actions the user's role allows and who did what so far
+export const ApprovalPanel = ({ video, onReview }: ApprovalPanelProps) => {
+  const { workspace, videoSource } = useAppContext();
+  const [history, setHistory] = useState<ApprovalEvent[] | null>(null);
+  const [requestingChanges, setRequestingChanges] = useState(false);
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const status = getApprovalStatus(video);
+  const actions = availableReviewActions(video, postRole(videoSource, workspace.role));
+  const { className, icon: Icon, hint } = STATUS_STYLES[status];
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setHistory(await fetchApprovalHistory(videoSource, video.id));
+    } catch (err) {
+      console.error('Load approval history error:', err);
+      setHistory([]);
+    }
+  }, [videoSource, video.id]);
+
+  // Reload whenever the status moves, whether from here, another member or a trigger
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, status]);
+
+  const run = async (action: ReviewAction, message?: string) => {
+    setBusy(true);
+    try {
+      await onReview(action, message);
+      setRequestingChanges(false);
+      setComment('');
+      toast.success(action === 'submit' ? 'Sent for review' : action === 'approve' ? 'Post approved' : 'Changes requested');
+    } catch (err) {
+      console.error('Review error:', err);
+      toast.error(getErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Tell the editor why the post came back
+  const latest = history?.[0];
+  const sentBack = status === 'draft' && latest?.action === 'changes_requested' ? latest : null;
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Approval</label>
+      <div className="rounded-lg border border-border p-3 space-y-3">
+        <div className="flex items-start gap-3">
+          <span className={cn('inline-flex shrink-0 items-center gap-1 rounded-full px-2 py-0.5 text-xs font-semibold', className)}>
+            <Icon size={12} />
+            {APPROVAL_STATUS_LABELS[status]}
+          </span>
+          <p className="text-xs text-muted-foreground">{hint}</p>
+        </div>
+
+        {sentBack?.comment && (
+          <div className="flex gap-2 rounded-lg bg-amber-50 p-2 text-sm text-amber-800">
+            <MessageSquareWarning size={16} className="mt-0.5 shrink-0" />
+            <p>
+              <span className="font-semibold">{sentBack.profiles?.email ?? 'A reviewer'}:</span> {sentBack.comment}
+            </p>
+          </div>
+        )}
+
+        {actions.length > 0 && !requestingChanges && (
+          <div className="flex flex-wrap gap-2">
+            {actions.includes('submit') && (
+              <button
+                type="button"
+                onClick={() => run('submit')}
+                disabled={busy}
+                className="px-3 py-1.5 bg-white border border-border text-sm font-medium rounded-lg hover:bg-secondary transition-all flex items-center gap-1.5 disabled:opacity-50"
+              >
+                <Send size={14} />
+                Submit for review
+              </button>
+            )}
+            {actions.includes('approve') && (
+              <button
+                type="button"
+                onClick={() => run('approve')}
+                disabled={busy}
+                className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-sm font-medium rounded-lg transition-all flex items-center gap-1.5 disabled:opacity-50"
+              >
+                <CheckCircle2 size={14} />
+                Approve
+              </button>
+            )}
+            {actions.includes('request_changes') && (
+              <button
+                type="button"
+                onClick={() => setRequestingChanges(true)}
+                disabled={busy}
+                className="px-3 py-1.5 bg-white border border-border text-sm font-medium rounded-lg hover:bg-secondary transition-all flex items-center gap-1.5 disabled:opacity-50"
+              >
+                <MessageSquareWarning size={14} />
+                Request changes
+              </button>
+            )}
+            {busy && <Loader2 size={16} className="self-center animate-spin text-muted-foreground" />}
+          </div>
+        )}
+
+        {requestingChanges && (
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              run('request_changes', comment);
+            }}
+            className="space-y-2"
+          >
+            <textarea
+              value={comment}
+              onChange={e => setComment(e.target.value)}
+              placeholder="What needs to change?"
+              required
+              autoFocus
+              rows={3}
+              className="w-full p-2 text-sm border border-border rounded-lg bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none resize-none"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setRequestingChanges(false);
+                  setComment('');
+                }}
+                disabled={busy}
+                className="px-3 py-1.5 text-sm font-medium rounded-lg text-muted-foreground hover:bg-secondary transition-all disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busy || !comment.trim()}
+                className="px-3 py-1.5 bg-primary text-primary-foreground text-sm font-medium rounded-lg shadow-soft transition-all flex items-center gap-1.5 disabled:opacity-50"
+              >
+                {busy && <Loader2 size={14} className="animate-spin" />}
+                Send back to draft
+              </button>
+            </div>
+          </form>
+        )}
+
+        {!!history?.length && (
+          <Collapsible>
+            <CollapsibleTrigger className="group flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors">
+              <History size={12} />
+              History ({history.length})
+              <ChevronDown size={12} className="transition-transform group-data-[state=open]:rotate-180" />
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <ol className="mt-2 space-y-2 border-l border-border pl-3">
+                {history.map(event => (
+                  <li key={event.id} className="text-xs">
+                    <p className="text-foreground">
+                      <span className="font-medium">{event.actor_id ? event.profiles?.email ?? 'A former member' : 'Automation'}</span>{' '}
+                      {APPROVAL_EVENT_LABELS[event.action]}
+                      <span className="text-muted-foreground">
+                        {' · '}
+                        <time dateTime={event.created_at} title={new Date(event.created_at).toLocaleString()}>
+                          {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+                        </time>
+                      </span>
+                    </p>
+                    {event.comment && <p className="mt-0.5 text-muted-foreground whitespace-pre-wrap">{event.comment}</p>}
+                  </li>
+                ))}
+              </ol>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { CheckCircle2, Download, Hash, Loader2, Trash2, X } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  allSelected: boolean;
+  busy: boolean;
+  onToggleAll: (checked: boolean) => void;
+  onClear: () => void;
+  onPost: () => void;
+  onDelete: () => void;
+  onReplaceHashtags: (find: string, replacement: string) => void;
+  onDownload: () => void;
+}
+
+export const BulkActionBar = ({
+  selectedCount,
+  allSelected,
+  busy,
+  onToggleAll,
+  onClear,
+  onPost,
+  onDelete,
+  onReplaceHashtags,
+  onDownload,
+}: BulkActionBarProps) => {
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [hashtagDialog, setHashtagDialog] = useState(false);
+  const [find, setFind] = useState('');
+  const [replacement, setReplacement] = useState('');
+
+  if (selectedCount === 0) return null;
+
+  const plural = selectedCount === 1 ? 'post' : 'posts';
+
+  return (
+    <>
+      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex flex-wrap items-center gap-2 bg-white border border-border rounded-2xl shadow-xl px-4 py-3 animate-in fade-in slide-in-from-bottom-4">
+        <label className="flex items-center gap-2 pr-3 mr-1 border-r border-border text-sm font-medium text-foreground">
+          <Checkbox checked={allSelected} onCheckedChange={checked => onToggleAll(checked === true)} />
+          {selectedCount} selected
+        </label>
+        <button
+          onClick={onPost}
+          disabled={busy}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-gradient-pink text-white text-sm font-semibold shadow-soft disabled:opacity-50"
+        >
+          {busy ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle2 size={14} />}
+          Post
+        </button>
+        <button
+          onClick={onDownload}
+          disabled={busy}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-gradient-blue text-white text-sm font-semibold shadow-soft disabled:opacity-50"
+        >
+          <Download size={14} /> ZIP
+        </button>
+        <button
+          onClick={() => setHashtagDialog(true)}
+          disabled={busy}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-xl border border-border text-sm font-semibold text-foreground hover:bg-secondary disabled:opacity-50"
+        >
+          <Hash size={14} /> Hashtags
+        </button>
+        <button
+          onClick={() => setConfirmDelete(true)}
+          disabled={busy}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-red-500 hover:bg-red-600 text-white text-sm font-semibold shadow-soft disabled:opacity-50"
+        >
+          <Trash2 size={14} /> Delete
+        </button>
+        <button
+          onClick={onClear}
+          className="p-2 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+          title="Clear selection"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectedCount} {plural}?</AlertDialogTitle>
+            <AlertDialogDescription>This action cannot be undone.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onDelete} className="bg-red-500 hover:bg-red-600">
+              Delete {plural}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={hashtagDialog} onOpenChange={setHashtagDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Replace hashtags</DialogTitle>
+            <DialogDescription>
+              Leave "Find" empty to replace all hashtags on the {selectedCount} selected {plural}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="block text-sm font-bold text-foreground">Find</label>
+              <input
+                value={find}
+                onChange={e => setFind(e.target.value)}
+                placeholder="#oldtag"
+                className="w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-bold text-foreground">Replace with</label>
+              <input
+                value={replacement}
+                onChange={e => setReplacement(e.target.value)}
+                placeholder="#newtag #another"
+                className="w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <button
+              onClick={() => {
+                onReplaceHashtags(find, replacement);
+                setHashtagDialog(false);
+                setFind('');
+                setReplacement('');
+              }}
+              disabled={!find.trim() && !replacement.trim()}
+              className="px-4 py-2 bg-gradient-blue text-white font-bold rounded-xl shadow-medium disabled:opacity-50"
+            >
+              Apply to {selectedCount} {plural}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,42 @@
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { BulkResult } from '@/lib/bulk';
+
+interface BulkResultsDialogProps {
+  title: string;
+  results: BulkResult[] | null;
+  onClose: () => void;
+}
+
+export const BulkResultsDialog = ({ title, results, onClose }: BulkResultsDialogProps) => {
+  const succeeded = results?.filter(r => r.ok).length ?? 0;
+  const failed = (results?.length ?? 0) - succeeded;
+
+  return (
+    <Dialog open={results !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {succeeded} succeeded{failed > 0 ? `, ${failed} failed` : ''}
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="max-h-80 overflow-y-auto divide-y divide-border rounded-lg border border-border">
+          {results?.map(result => (
+            <li key={result.id} className="flex items-start gap-3 px-3 py-2 text-sm">
+              {result.ok ? (
+                <CheckCircle2 size={16} className="mt-0.5 shrink-0 text-green-600" />
+              ) : (
+                <XCircle size={16} className="mt-0.5 shrink-0 text-red-600" />
+              )}
+              <div className="min-w-0">
+                <p className="font-medium text-foreground truncate">{result.label}</p>
+                {result.error && <p className="text-xs text-red-600 break-words">{result.error}</p>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,248 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Info, X } from 'lucide-react';
+import { useAppContext } from '@/hooks/use-app-context';
+import {
+  checkHashtags,
+  combinedHashtags,
+  fetchPopularHashtags,
+  formatHashtags,
+  HASHTAG_LIMITS,
+  parseHashtags,
+  PopularHashtag,
+} from '@/lib/hashtags';
+import type { Platform } from '@/lib/platforms';
+import { cn } from '@/lib/utils';
+
+interface HashtagEditorProps {
+  value: string | null;
+  // Hashtags in the description count towards the platform limits too
+  caption: string | null;
+  platforms: Platform[];
+  readOnly?: boolean;
+  onSave: (value: string | null) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Keys that finish the tag being typed
+const SEPARATOR_KEYS = ['Enter', ',', ' ', 'Tab'];
+
+const sameTag = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Hashtags as chips that can be added, removed and dragged into order. Changes are kept until saved.
+export const HashtagEditor = ({ value, caption, platforms, readOnly = false, onSave }: HashtagEditorProps) => {
+  const { workspace, videoSource } = useAppContext();
+  const [tags, setTags] = useState(() => parseHashtags(value));
+  const [input, setInput] = useState('');
+  const [focused, setFocused] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [popular, setPopular] = useState<PopularHashtag[] | null>(null);
+
+  // A save, a restore or another member's edit replaces the draft
+  useEffect(() => {
+    setTags(parseHashtags(value));
+  }, [value]);
+
+  const saved = formatHashtags(parseHashtags(value));
+  const dirty = formatHashtags(tags) !== saved;
+
+  const allTags = combinedHashtags(tags, caption);
+  const issues = checkHashtags(allTags, platforms);
+  const instagramLimit = platforms.includes('instagram') ? HASHTAG_LIMITS.instagram?.maxTags : undefined;
+
+  const suggestions = (popular ?? [])
+    .filter(({ tag }) => !tags.some(t => sameTag(t, tag)) && tag.includes(input.replace(/^#/, '').toLowerCase()))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const loadPopular = () => {
+    if (popular) return;
+    fetchPopularHashtags(videoSource, workspace.id)
+      .then(setPopular)
+      .catch(err => console.error('Popular hashtags error:', err));
+  };
+
+  const addTags = (text: string) => {
+    const added = parseHashtags(text);
+    setTags(prev => [...prev, ...added.filter(tag => !prev.some(t => sameTag(t, tag)))]);
+  };
+
+  const removeTag = (index: number) => setTags(prev => prev.filter((_, i) => i !== index));
+
+  const moveTag = (from: number, to: number) => {
+    if (to < 0 || to >= tags.length || from === to) return;
+    setTags(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const handleInputChange = (text: string) => {
+    // Pasting "#a #b #c" adds the complete tags and keeps typing the last one
+    const parts = text.split(/[\s,]+/);
+    if (parts.length > 1) {
+      addTags(parts.slice(0, -1).join(' '));
+      setInput(parts[parts.length - 1]);
+    } else {
+      setInput(text);
+    }
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (SEPARATOR_KEYS.includes(e.key) && input.replace(/^#/, '')) {
+      e.preventDefault();
+      addTags(input);
+      setInput('');
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      removeTag(tags.length - 1);
+    }
+  };
+
+  // Alt+arrows move a focused chip, Delete or Backspace removes it
+  const handleChipKeyDown = (e: React.KeyboardEvent<HTMLSpanElement>, index: number) => {
+    if (e.altKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+      e.preventDefault();
+      moveTag(index, index + (e.key === 'ArrowLeft' ? -1 : 1));
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      removeTag(index);
+    }
+  };
+
+  const handleSave = () => {
+    // A tag still being typed is part of what the user means to save
+    const pending = parseHashtags(input).filter(tag => !tags.some(t => sameTag(t, tag)));
+    setInput('');
+    onSave(formatHashtags([...tags, ...pending]));
+  };
+
+  if (readOnly && tags.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Tags</label>
+        {instagramLimit && (
+          <span className={cn('text-xs', allTags.length > instagramLimit ? 'text-red-600 font-semibold' : 'text-muted-foreground')}>
+            {allTags.length} / {instagramLimit} on Instagram
+          </span>
+        )}
+      </div>
+
+      <div
+        className={cn(
+          'flex flex-wrap items-center gap-2 rounded-lg border border-border bg-background p-2',
+          !readOnly && 'focus-within:ring-2 focus-within:ring-primary/20 focus-within:border-primary transition-all'
+        )}
+      >
+        {tags.map((tag, index) => (
+          <span
+            key={tag}
+            draggable={!readOnly}
+            tabIndex={readOnly ? undefined : 0}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={e => e.preventDefault()}
+            onDrop={() => {
+              if (dragIndex !== null) moveTag(dragIndex, index);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            onKeyDown={readOnly ? undefined : e => handleChipKeyDown(e, index)}
+            title={readOnly ? undefined : 'Drag to reorder, or Alt+arrow keys'}
+            className={cn(
+              'inline-flex items-center gap-1 text-xs text-primary bg-primary/10 px-2 py-1 rounded-md break-all outline-none focus:ring-2 focus:ring-primary/40',
+              !readOnly && 'cursor-grab',
+              dragIndex === index && 'opacity-50'
+            )}
+          >
+            #{tag}
+            {!readOnly && (
+              <button
+                type="button"
+                onClick={() => removeTag(index)}
+                tabIndex={-1}
+                aria-label={`Remove #${tag}`}
+                className="rounded-sm hover:bg-primary/20"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </span>
+        ))}
+        {!readOnly && (
+          <input
+            type="text"
+            value={input}
+            onChange={e => handleInputChange(e.target.value)}
+            onKeyDown={handleInputKeyDown}
+            onFocus={() => {
+              setFocused(true);
+              loadPopular();
+            }}
+            onBlur={() => setFocused(false)}
+            placeholder={tags.length === 0 ? 'Add hashtags...' : ''}
+            className="flex-1 min-w-[8rem] bg-transparent text-sm outline-none"
+          />
+        )}
+      </div>
+
+      {focused && suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          <span className="text-xs text-muted-foreground self-center">Used before:</span>
+          {suggestions.map(({ tag, uses }) => (
+            <button
+              key={tag}
+              type="button"
+              // Mouse down rather than click so the input keeps focus and the list stays open
+              onMouseDown={e => {
+                e.preventDefault();
+                addTags(tag);
+                setInput('');
+              }}
+              className="text-xs px-2 py-0.5 rounded-md border border-border text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+            >
+              #{tag} <span className="opacity-60">{uses}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="space-y-1">
+          {issues.map(issue => (
+            <li
+              key={issue.message}
+              className={cn('flex items-start gap-1.5 text-xs', issue.level === 'error' ? 'text-red-600' : 'text-muted-foreground')}
+            >
+              {issue.level === 'error' ? <AlertCircle size={12} className="mt-0.5 shrink-0" /> : <Info size={12} className="mt-0.5 shrink-0" />}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!readOnly && (dirty || input.replace(/^#/, '')) && (
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              setTags(parseHashtags(value));
+              setInput('');
+            }}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg text-muted-foreground hover:bg-secondary transition-all"
+          >
+            Discard
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="px-3 py-1.5 bg-primary text-primary-foreground text-sm font-medium rounded-lg shadow-soft transition-all"
+          >
+            Save tags
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
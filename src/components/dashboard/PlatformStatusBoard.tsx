@@ -0,0 +1,88 @@
+import { AlertCircle, CalendarClock, CheckCircle2, Clock, Loader2, RotateCcw, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Checkbox } from '@/components/ui/checkbox';
+import { cn } from '@/lib/utils';
+import { getPlatformError, getPlatformStatus, getScheduledAt, Platform, PlatformPostStatus, PLATFORMS } from '@/lib/platforms';
+import type { VideoPost } from '@/lib/videos';
+
+interface PlatformStatusBoardProps {
+  video: VideoPost;
+  selected: Platform[];
+  onSelectedChange: (platforms: Platform[]) => void;
+  onRetry: (platform: Platform) => void;
+  onUnschedule: (platform: Platform) => void;
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<PlatformPostStatus, { label: string; className: string; icon: typeof Clock }> = {
+  pending: { label: 'Pending', className: 'bg-muted text-muted-foreground', icon: Clock },
+  scheduled: { label: 'Scheduled', className: 'bg-purple-100 text-purple-700', icon: CalendarClock },
+  posting: { label: 'Posting', className: 'bg-blue-100 text-blue-700', icon: Loader2 },
+  posted: { label: 'Posted', className: 'bg-green-100 text-green-700', icon: CheckCircle2 },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700', icon: AlertCircle },
+};
+
+export const PlatformStatusBoard = ({ video, selected, onSelectedChange, onRetry, onUnschedule, disabled }: PlatformStatusBoardProps) => {
+  const toggle = (platform: Platform, checked: boolean) => {
+    onSelectedChange(checked ? [...selected, platform] : selected.filter(p => p !== platform));
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Publishing</label>
+      <div className="divide-y divide-border rounded-lg border border-border">
+        {PLATFORMS.map(({ id, label }) => {
+          const status = getPlatformStatus(video, id);
+          const error = getPlatformError(video, id);
+          const { label: statusLabel, className, icon: Icon } = STATUS_STYLES[status];
+
+          return (
+            <div key={id} className="flex items-center gap-3 px-3 py-2">
+              <Checkbox
+                id={`platform-${video.id}-${id}`}
+                checked={selected.includes(id)}
+                disabled={disabled || status === 'posting'}
+                onCheckedChange={checked => toggle(id, checked === true)}
+              />
+              <label htmlFor={`platform-${video.id}-${id}`} className="flex-1 text-sm font-medium text-foreground">
+                {label}
+              </label>
+              <span className={cn('inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-semibold', className)}>
+                <Icon size={12} className={status === 'posting' ? 'animate-spin' : ''} />
+                {statusLabel}
+                {status === 'scheduled' && getScheduledAt(video, id) && ` · ${format(getScheduledAt(video, id)!, 'MMM d, HH:mm')}`}
+              </span>
+              {status === 'failed' && (
+                <button
+                  type="button"
+                  onClick={() => onRetry(id)}
+                  disabled={disabled}
+                  className="p-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                  title={`Retry ${label}`}
+                >
+                  <RotateCcw size={14} />
+                </button>
+              )}
+              {status === 'scheduled' && (
+                <button
+                  type="button"
+                  onClick={() => onUnschedule(id)}
+                  disabled={disabled}
+                  className="p-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                  title={`Cancel scheduled ${label} post`}
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {PLATFORMS.filter(({ id }) => getPlatformStatus(video, id) === 'failed' && getPlatformError(video, id)).map(({ id, label }) => (
+        <p key={id} className="text-xs text-red-600">
+          {label}: {getPlatformError(video, id)}
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, ChevronDown, Info, RotateCcw } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Platform, PLATFORMS } from '@/lib/platforms';
+import {
+  checkPlatformText,
+  getOverride,
+  hasTitle,
+  PLATFORM_TEXT_FIELD_LABELS,
+  PlatformOverrides,
+  PlatformTextField,
+  resolvePlatformText,
+  setOverride,
+  TEXT_LIMITS,
+  textLength,
+} from '@/lib/platform-text';
+import { cn } from '@/lib/utils';
+import type { VideoPost } from '@/lib/videos';
+
+interface PlatformTextEditorProps {
+  video: VideoPost;
+  // The card's unsaved title and description, so counters follow them while typing
+  title: string;
+  caption: string;
+  platforms: Platform[];
+  readOnly?: boolean;
+  onSave: (overrides: PlatformOverrides) => void;
+}
+
+type DraftKey = `${Platform}.${PlatformTextField}`;
+
+// Optional versions of the title and description for each platform, with counters against its limits
+export const PlatformTextEditor = ({ video, title, caption, platforms, readOnly = false, onSave }: PlatformTextEditorProps) => {
+  const [drafts, setDrafts] = useState<Partial<Record<DraftKey, string>>>({});
+
+  // A save, or another member's edit, replaces the drafts. Compared as text since realtime updates bring a new object each time.
+  const savedOverrides = JSON.stringify(video.platform_overrides ?? {});
+  useEffect(() => {
+    setDrafts({});
+  }, [savedOverrides]);
+
+  const source = { post_title: title, caption, platform_overrides: video.platform_overrides };
+
+  // What the counters and checks see: the saved versions with any unsaved drafts applied
+  const current = Object.entries(drafts).reduce(
+    (overrides, [key, value]) => {
+      const [platform, field] = key.split('.') as [Platform, PlatformTextField];
+      return setOverride({ ...source, platform_overrides: overrides }, platform, field, value);
+    },
+    video.platform_overrides ?? {}
+  );
+  const preview = { ...source, platform_overrides: current };
+
+  const issues = checkPlatformText(preview, PLATFORMS.map(p => p.id));
+  const overrideCount = Object.values(current).reduce((sum, fields) => sum + Object.keys(fields ?? {}).length, 0);
+  const hasErrors = issues.some(issue => issue.level === 'error' && platforms.includes(issue.platform));
+
+  const discardDraft = (key: DraftKey) => {
+    setDrafts(({ [key]: _dropped, ...rest }) => rest);
+  };
+
+  const handleBlur = (platform: Platform, field: PlatformTextField) => {
+    const key: DraftKey = `${platform}.${field}`;
+    const draft = drafts[key];
+    if (draft === undefined) return;
+
+    // Leaving it unchanged, or typing the post's own text, changes nothing worth saving
+    const next = setOverride(source, platform, field, draft);
+    if (draft.trim() === (getOverride(video, platform, field) ?? '').trim() || JSON.stringify(next) === savedOverrides) {
+      discardDraft(key);
+      return;
+    }
+    onSave(next);
+  };
+
+  // Escape throws the edit away instead of saving it
+  const handleKeyDown = (key: DraftKey, e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (e.key !== 'Escape') return;
+    discardDraft(key);
+    requestAnimationFrame(() => (e.target as HTMLElement).blur());
+  };
+
+  const renderField = (platform: Platform, field: PlatformTextField) => {
+    const key: DraftKey = `${platform}.${field}`;
+    const limit = TEXT_LIMITS[platform][field];
+    const value = drafts[key] ?? getOverride(video, platform, field) ?? '';
+    const length = textLength(resolvePlatformText(preview, platform)[field]);
+    const saved = getOverride(video, platform, field);
+    const fieldIssues = issues.filter(issue => issue.platform === platform && issue.field === field);
+
+    const inputProps = {
+      value,
+      onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+        setDrafts(prev => ({ ...prev, [key]: e.target.value })),
+      onBlur: () => handleBlur(platform, field),
+      onKeyDown: (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => handleKeyDown(key, e),
+      readOnly,
+      placeholder: readOnly ? 'Same as the post' : `Same as the post. Type to use a different ${PLATFORM_TEXT_FIELD_LABELS[field].toLowerCase()} here.`,
+      className: 'w-full text-foreground text-sm p-3 rounded-lg border border-border bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none',
+    };
+
+    return (
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-medium text-foreground">{PLATFORM_TEXT_FIELD_LABELS[field]}</span>
+          <div className="flex items-center gap-2">
+            {saved !== null && !readOnly && (
+              <button
+                type="button"
+                onClick={() => onSave(setOverride(source, platform, field, null))}
+                className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 transition-colors"
+              >
+                <RotateCcw size={12} />
+                Use the post's
+              </button>
+            )}
+            {limit !== null && (
+              <span className={cn('text-xs tabular-nums', length > limit ? 'text-red-600 font-semibold' : 'text-muted-foreground')}>
+                {length} / {limit}
+              </span>
+            )}
+          </div>
+        </div>
+        {field === 'title' ? (
+          <input type="text" {...inputProps} />
+        ) : (
+          <textarea {...inputProps} className={cn(inputProps.className, 'h-24 resize-none')} />
+        )}
+        {fieldIssues.map(issue => (
+          <p
+            key={issue.message}
+            className={cn('flex items-start gap-1.5 text-xs', issue.level === 'error' ? 'text-red-600' : 'text-muted-foreground')}
+          >
+            {issue.level === 'error' ? <AlertCircle size={12} className="mt-0.5 shrink-0" /> : <Info size={12} className="mt-0.5 shrink-0" />}
+            {issue.message}
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Collapsible defaultOpen={overrideCount > 0 || hasErrors} className="space-y-3">
+      <CollapsibleTrigger className="group flex w-full items-center gap-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider hover:text-foreground transition-colors">
+        Per platform
+        {overrideCount > 0 && (
+          <span className="rounded-full bg-primary/10 px-2 py-0.5 normal-case tracking-normal text-primary">
+            {overrideCount} custom
+          </span>
+        )}
+        {hasErrors && <AlertCircle size={14} className="text-red-600" />}
+        <ChevronDown size={14} className="ml-auto transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent>
+        <Tabs defaultValue={platforms[0] ?? PLATFORMS[0].id}>
+          <TabsList className="grid grid-cols-3">
+            {PLATFORMS.map(({ id, label }) => (
+              <TabsTrigger key={id} value={id} className={cn('gap-1.5', !platforms.includes(id) && 'opacity-60')}>
+                {label}
+                {issues.some(issue => issue.platform === id && issue.level === 'error') && (
+                  <span className="h-1.5 w-1.5 rounded-full bg-red-600" />
+                )}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {PLATFORMS.map(({ id }) => (
+            <TabsContent key={id} value={id} className="space-y-3">
+              {hasTitle(id) && renderField(id, 'title')}
+              {renderField(id, 'caption')}
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
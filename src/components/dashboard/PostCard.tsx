@@ -0,0 +1,315 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AtSign, CheckCircle2, Download, History, Loader2, MessageSquare, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { CommentsSheet } from '@/components/comments/CommentsSheet';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ApprovalPanel } from '@/components/dashboard/ApprovalPanel';
+import { HashtagEditor } from '@/components/dashboard/HashtagEditor';
+import { PlatformStatusBoard } from '@/components/dashboard/PlatformStatusBoard';
+import { PlatformTextEditor } from '@/components/dashboard/PlatformTextEditor';
+import { RevisionHistorySheet } from '@/components/dashboard/RevisionHistorySheet';
+import { SchedulePostPopover } from '@/components/dashboard/SchedulePostPopover';
+import { useAppContext } from '@/hooks/use-app-context';
+import type { EditableVideoFields } from '@/hooks/use-post-actions';
+import { isApprovedToPost, ReviewAction } from '@/lib/approvals';
+import { mediaFilename } from '@/lib/bulk';
+import type { UnreadComments } from '@/lib/comments';
+import { Platform } from '@/lib/platforms';
+import type { PostRevision } from '@/lib/revisions';
+import { isImagePost, VideoPost } from '@/lib/videos';
+
+type EditableField = 'post_title' | 'caption';
+
+interface PostCardProps {
+  video: VideoPost;
+  highlighted?: boolean;
+  // For reviewers and viewers: fields can't be edited and only Download and the review actions stay
+  readOnly?: boolean;
+  // Leave undefined to hide the bulk selection checkbox
+  selected?: boolean;
+  onSelectedChange?: (checked: boolean) => void;
+  targetPlatforms: Platform[];
+  onTargetPlatformsChange: (platforms: Platform[]) => void;
+  onSaveField: <F extends keyof EditableVideoFields>(field: F, value: EditableVideoFields[F]) => void;
+  onPost: (platforms: Platform[]) => void;
+  onSchedule: (platforms: Platform[], at: Date | null) => Promise<boolean>;
+  onReview: (action: ReviewAction, comment?: string) => Promise<unknown>;
+  onRestoreRevision: (revision: PostRevision) => Promise<unknown>;
+  unreadComments?: UnreadComments;
+  onCommentsRead?: () => void;
+  onDelete: () => void;
+}
+
+const handleDownload = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.target = '_blank';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  toast.success('Download started!');
+};
+
+export const PostCard = ({
+  video,
+  highlighted = false,
+  readOnly = false,
+  selected,
+  onSelectedChange,
+  targetPlatforms,
+  onTargetPlatformsChange,
+  onSaveField,
+  onPost,
+  onSchedule,
+  onReview,
+  onRestoreRevision,
+  unreadComments,
+  onCommentsRead,
+  onDelete,
+}: PostCardProps) => {
+  // Unsaved edits; the saved value shows again once it changes, e.g. after a save or a restore
+  const [editingFields, setEditingFields] = useState<Partial<Record<EditableField, string>>>({});
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  const { videoSource } = useAppContext();
+  // Comments and edit history name members of this app's workspaces, so only its own posts have them.
+  // Approvals run in whichever project holds the post.
+  const collaborative = !videoSource.isCustomProject;
+  const approved = isApprovedToPost(video);
+
+  useEffect(() => {
+    setEditingFields(({ post_title: _dropped, ...rest }) => rest);
+  }, [video.post_title]);
+
+  useEffect(() => {
+    setEditingFields(({ caption: _dropped, ...rest }) => rest);
+  }, [video.caption]);
+
+  const discardEdit = (field: EditableField) => {
+    setEditingFields(({ [field]: _dropped, ...rest }) => rest);
+  };
+
+  const handleFieldChange = (field: EditableField, value: string) => {
+    setEditingFields(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleFieldBlur = (field: EditableField) => {
+    const editedValue = editingFields[field];
+    if (editedValue === undefined) return;
+
+    // Focusing and leaving, or only adding spaces at the ends, isn't worth a save and a revision
+    if (editedValue.trim() === (video[field] ?? '').trim()) {
+      discardEdit(field);
+      return;
+    }
+    onSaveField(field, editedValue);
+  };
+
+  // Escape throws the edit away instead of saving it
+  const handleFieldKeyDown = (field: EditableField, e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (e.key !== 'Escape') return;
+    discardEdit(field);
+    // Blur after the discard has rendered so the blur handler sees no edit
+    requestAnimationFrame(() => (e.target as HTMLElement).blur());
+  };
+
+  return (
+    <div
+      id={`post-${video.id}`}
+      className={`bg-white rounded-2xl shadow-medium border overflow-hidden flex flex-col md:flex-row p-6 gap-8 hover:shadow-large transition-all ${
+        highlighted || selected ? 'border-primary ring-2 ring-primary/20' : 'border-border'
+      }`}
+    >
+      {/* Media Display */}
+      <div className="w-full md:w-1/3 flex-shrink-0 bg-slate-900 rounded-xl overflow-hidden relative aspect-[9/16] md:aspect-auto md:h-[400px]">
+        {selected !== undefined && (
+          <div className="absolute top-3 left-3 z-10 flex rounded-md bg-white/90 p-1.5 shadow-soft">
+            <Checkbox
+              checked={selected}
+              onCheckedChange={checked => onSelectedChange?.(checked === true)}
+              aria-label={`Select post ${video.id}`}
+            />
+          </div>
+        )}
+        {video.video_url ? (
+          <>
+            {isImagePost(video) ? (
+              <img
+                src={video.video_url}
+                alt={video.post_title}
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <video
+                src={video.video_url}
+                controls
+                className="w-full h-full object-cover"
+              />
+            )}
+          </>
+        ) : (
+          <div className="w-full h-full flex flex-col items-center justify-center text-muted-foreground bg-muted">
+            <Loader2 className="w-10 h-10 animate-spin mb-2 text-primary" />
+            <span className="text-sm font-medium">Processing...</span>
+          </div>
+        )}
+      </div>
+
+      {/* Details */}
+      <div className="flex-1 flex flex-col justify-between">
+        <div className="space-y-6">
+
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Title</label>
+            <input
+              type="text"
+              value={editingFields.post_title ?? video.post_title ?? ''}
+              onChange={(e) => handleFieldChange('post_title', e.target.value)}
+              onBlur={() => handleFieldBlur('post_title')}
+              onKeyDown={e => handleFieldKeyDown('post_title', e)}
+              readOnly={readOnly}
+              className="w-full text-xl font-bold text-foreground p-3 rounded-lg border border-border bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+              placeholder="Enter title..."
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Description</label>
+            <textarea
+              value={editingFields.caption ?? video.caption ?? ''}
+              onChange={(e) => handleFieldChange('caption', e.target.value)}
+              onBlur={() => handleFieldBlur('caption')}
+              onKeyDown={e => handleFieldKeyDown('caption', e)}
+              readOnly={readOnly}
+              className="w-full text-foreground text-sm leading-relaxed bg-background p-4 rounded-lg border border-border max-h-32 resize-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+              placeholder="Enter description..."
+            />
+          </div>
+
+          <HashtagEditor
+            value={video.hashtag}
+            caption={editingFields.caption ?? video.caption}
+            platforms={targetPlatforms}
+            readOnly={readOnly}
+            onSave={value => onSaveField('hashtag', value)}
+          />
+
+          <PlatformTextEditor
+            video={video}
+            title={editingFields.post_title ?? video.post_title ?? ''}
+            caption={editingFields.caption ?? video.caption ?? ''}
+            platforms={targetPlatforms}
+            readOnly={readOnly}
+            onSave={overrides => onSaveField('platform_overrides', overrides)}
+          />
+
+          <PlatformStatusBoard
+            video={video}
+            selected={targetPlatforms}
+            onSelectedChange={onTargetPlatformsChange}
+            onRetry={platform => onPost([platform])}
+            onUnschedule={platform => onSchedule([platform], null)}
+            disabled={readOnly || !video.video_url}
+          />
+
+          <ApprovalPanel video={video} onReview={onReview} />
+
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-border space-y-3">
+            {video.video_url && (
+              <>
+                <button
+                    onClick={() => handleDownload(video.video_url!, mediaFilename(video))}
+                    className="w-full py-3 bg-gradient-blue text-white font-bold rounded-xl shadow-medium hover:shadow-large transition-all flex justify-center items-center gap-2"
+                >
+                    <Download size={18} />
+                    Download Media
+                </button>
+                {!readOnly && (
+                  <>
+                    <button
+                        onClick={() => onPost(targetPlatforms)}
+                        disabled={!approved || targetPlatforms.length === 0}
+                        title={approved ? undefined : 'Needs approval before it can be posted'}
+                        className="w-full py-3 bg-gradient-pink text-white font-bold rounded-xl shadow-medium hover:shadow-large transition-all flex justify-center items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <CheckCircle2 size={18} />
+                        Post to Social Media
+                    </button>
+                    <SchedulePostPopover
+                      platforms={targetPlatforms}
+                      disabled={!approved}
+                      onSchedule={at => onSchedule(targetPlatforms, at)}
+                    />
+                  </>
+                )}
+              </>
+            )}
+            {collaborative && (
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                    onClick={() => setCommentsOpen(true)}
+                    className="py-3 bg-white border border-border text-foreground font-bold rounded-xl shadow-soft hover:bg-secondary transition-all flex justify-center items-center gap-2"
+                >
+                    <MessageSquare size={18} />
+                    Comments
+                    {!!unreadComments?.unread && (
+                      <span
+                        title={unreadComments.mentioned ? 'You were mentioned' : undefined}
+                        className="min-w-[1.25rem] h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center gap-0.5"
+                      >
+                        {unreadComments.mentioned && <AtSign size={10} />}
+                        {unreadComments.unread}
+                      </span>
+                    )}
+                </button>
+                <button
+                    onClick={() => setHistoryOpen(true)}
+                    className="py-3 bg-white border border-border text-foreground font-bold rounded-xl shadow-soft hover:bg-secondary transition-all flex justify-center items-center gap-2"
+                >
+                    <History size={18} />
+                    History
+                </button>
+              </div>
+            )}
+            {!readOnly && (
+              <button
+                  onClick={onDelete}
+                  className="w-full py-3 bg-red-500 hover:bg-red-600 text-white font-bold rounded-xl shadow-medium hover:shadow-large transition-all flex justify-center items-center gap-2"
+              >
+                  <X size={18} />
+                  Delete Post
+              </button>
+            )}
+          <p className="text-center text-[10px] text-muted-foreground mt-2">
+            <Link to={`/posts/${video.id}`} className="hover:text-primary hover:underline" title="Open this post on its own page">
+              ID: {video.id}
+            </Link>
+          </p>
+        </div>
+      </div>
+
+      {collaborative && (
+        <>
+          <CommentsSheet
+            video={video}
+            open={commentsOpen}
+            onOpenChange={setCommentsOpen}
+            onRead={() => onCommentsRead?.()}
+          />
+          <RevisionHistorySheet
+            video={video}
+            open={historyOpen}
+            onOpenChange={setHistoryOpen}
+            readOnly={readOnly}
+            onRestore={onRestoreRevision}
+          />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { APPROVAL_STATUS_LABELS, APPROVAL_STATUSES } from '@/lib/approvals';
+import { PLATFORMS } from '@/lib/platforms';
+import { DEFAULT_VIDEO_QUERY, isDefaultQuery, SORT_OPTIONS, VideoQuery } from '@/lib/video-query';
+
+interface PostFiltersProps {
+  query: VideoQuery;
+  onChange: (query: VideoQuery) => void;
+}
+
+export const PostFilters = ({ query, onChange }: PostFiltersProps) => {
+  const [search, setSearch] = useState(query.q);
+
+  // Back and forward navigation changes the URL under the search box
+  useEffect(() => {
+    setSearch(query.q);
+  }, [query.q]);
+
+  // Any filter change sends the user back to the first page
+  const update = (changes: Partial<VideoQuery>) => onChange({ ...query, ...changes, page: 1 });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    update({ q: search.trim() });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-border shadow-soft p-4 space-y-3">
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <div className="relative flex-1">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <input
+            type="search"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search titles, captions and hashtags..."
+            className="w-full pl-9 pr-3 py-2 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-primary text-primary-foreground text-sm font-medium rounded-xl shadow-soft hover:shadow-medium transition-all"
+        >
+          Search
+        </button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={query.media} onValueChange={value => update({ media: value as VideoQuery['media'] })}>
+          <SelectTrigger className="w-[140px] h-9 rounded-xl text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All media</SelectItem>
+            <SelectItem value="image">Images</SelectItem>
+            <SelectItem value="video">Videos</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={query.processing} onValueChange={value => update({ processing: value as VideoQuery['processing'] })}>
+          <SelectTrigger className="w-[150px] h-9 rounded-xl text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any state</SelectItem>
+            <SelectItem value="ready">Ready</SelectItem>
+            <SelectItem value="processing">Processing</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={query.platform} onValueChange={value => update({ platform: value as VideoQuery['platform'] })}>
+          <SelectTrigger className="w-[150px] h-9 rounded-xl text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any platform</SelectItem>
+            {PLATFORMS.map(({ id, label }) => (
+              <SelectItem key={id} value={id}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={query.status} onValueChange={value => update({ status: value as VideoQuery['status'] })}>
+          <SelectTrigger className="w-[150px] h-9 rounded-xl text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any status</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="scheduled">Scheduled</SelectItem>
+            <SelectItem value="posting">Posting</SelectItem>
+            <SelectItem value="posted">Posted</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={query.approval} onValueChange={value => update({ approval: value as VideoQuery['approval'] })}>
+          <SelectTrigger className="w-[150px] h-9 rounded-xl text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any approval</SelectItem>
+            {APPROVAL_STATUSES.map(status => (
+              <SelectItem key={status} value={status}>{APPROVAL_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={query.sort} onValueChange={value => update({ sort: value as VideoQuery['sort'] })}>
+          <SelectTrigger className="w-[150px] h-9 rounded-xl text-sm ml-auto">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {!isDefaultQuery({ ...query, page: 1 }) && (
+          <button
+            type="button"
+            onClick={() => {
+              setSearch('');
+              onChange(DEFAULT_VIDEO_QUERY);
+            }}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-xl text-sm text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          >
+            <X size={14} /> Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
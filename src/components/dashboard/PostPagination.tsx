@@ -0,0 +1,67 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+
+interface PostPaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+// First, last and the two pages either side of the current one; gaps become ellipses.
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1].filter(p => p >= 1 && p <= pageCount));
+  const sorted = [...pages].sort((a, b) => a - b);
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? [null, p] : [p]));
+};
+
+export const PostPagination = ({ page, pageCount, onPageChange }: PostPaginationProps) => {
+  if (pageCount <= 1) return null;
+
+  const go = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={go(page - 1)}
+            aria-disabled={page === 1}
+            className={page === 1 ? 'pointer-events-none opacity-50' : ''}
+          />
+        </PaginationItem>
+        {visiblePages(page, pageCount).map((p, i) => (
+          <PaginationItem key={p ?? `gap-${i}`}>
+            {p === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={p === page} onClick={go(p)}>
+                {p}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={go(page + 1)}
+            aria-disabled={page === pageCount}
+            className={page === pageCount ? 'pointer-events-none opacity-50' : ''}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAppContext } from '@/hooks/use-app-context';
+import { diffWords } from '@/lib/diff';
+import {
+  fetchRevisions,
+  PostRevision,
+  REVISION_FIELD_LABELS,
+  REVISION_FIELDS,
+  REVISION_SOURCE_LABELS,
+  RevisionField,
+} from '@/lib/revisions';
+import { cn, getErrorMessage } from '@/lib/utils';
+import type { VideoPost } from '@/lib/videos';
+
+interface RevisionHistorySheetProps {
+  video: VideoPost;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Viewers and reviewers see the history but can't restore
+  readOnly: boolean;
+  onRestore: (revision: PostRevision) => Promise<unknown>;
+}
+
+const RevisionDiff = ({ revision }: { revision: PostRevision }) => {
+  const before = revision.old_value ?? '';
+  const after = revision.new_value ?? '';
+
+  if (revision.source === 'baseline' || revision.source === 'created') {
+    return <span>{after || <em className="text-muted-foreground">Empty</em>}</span>;
+  }
+  if (!after) {
+    return <span className="text-muted-foreground italic">Cleared</span>;
+  }
+
+  return (
+    <>
+      {diffWords(before, after).map((part, index) => (
+        <span
+          key={index}
+          className={cn(
+            part.type === 'added' && 'bg-green-100 text-green-800',
+            part.type === 'removed' && 'bg-red-100 text-red-700 line-through'
+          )}
+        >
+          {part.text}
+        </span>
+      ))}
+    </>
+  );
+};
+
+// Every recorded version of the title, description and tags, with what changed each time
+export const RevisionHistorySheet = ({ video, open, onOpenChange, readOnly, onRestore }: RevisionHistorySheetProps) => {
+  const { videoSource } = useAppContext();
+  const [revisions, setRevisions] = useState<PostRevision[] | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Reload when any of the fields changes, whether by a restore here or an edit elsewhere
+  useEffect(() => {
+    if (!open) return;
+
+    fetchRevisions(videoSource, video.id)
+      .then(setRevisions)
+      .catch(err => {
+        console.error('Load revisions error:', err);
+        toast.error(`Could not load the history: ${getErrorMessage(err)}`);
+        setRevisions([]);
+      });
+  }, [open, videoSource, video.id, video.post_title, video.caption, video.hashtag]);
+
+  const handleRestore = async (revision: PostRevision) => {
+    setRestoringId(revision.id);
+    try {
+      await onRestore(revision);
+      toast.success(`${REVISION_FIELD_LABELS[revision.field]} restored`);
+    } catch (err) {
+      console.error('Restore error:', err);
+      toast.error(getErrorMessage(err));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const forField = (field: RevisionField) => revisions?.filter(r => r.field === field) ?? [];
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-lg flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription className="truncate">{video.post_title || `Post ${video.id}`}</SheetDescription>
+        </SheetHeader>
+
+        {revisions === null ? (
+          <Loader2 size={20} className="animate-spin text-muted-foreground" />
+        ) : (
+          <Tabs defaultValue="caption" className="flex-1 min-h-0 flex flex-col">
+            <TabsList className="grid grid-cols-3">
+              {REVISION_FIELDS.map(field => (
+                <TabsTrigger key={field} value={field}>
+                  {REVISION_FIELD_LABELS[field]} ({forField(field).length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+
+            {REVISION_FIELDS.map(field => {
+              const fieldRevisions = forField(field);
+              // Newest first, so the first version matching the post is the live one
+              const currentId = fieldRevisions.find(r => (r.new_value ?? '') === (video[field] ?? ''))?.id;
+
+              return (
+                <TabsContent key={field} value={field} className="flex-1 min-h-0 overflow-y-auto space-y-3 pr-1">
+                  {fieldRevisions.length === 0 ? (
+                    <div className="py-10 text-center text-sm text-muted-foreground">
+                      <History size={24} className="mx-auto mb-2" />
+                      No changes recorded yet.
+                    </div>
+                  ) : fieldRevisions.map(revision => (
+                    <div
+                      key={revision.id}
+                      className={cn('rounded-xl border p-3 space-y-2', revision.id === currentId ? 'border-primary' : 'border-border')}
+                    >
+                      <div className="flex items-center gap-2 text-xs">
+                        <span className="font-semibold text-foreground">{REVISION_SOURCE_LABELS[revision.source]}</span>
+                        <span className="text-muted-foreground truncate">
+                          {revision.author_id ? `by ${revision.author?.email ?? 'a former member'}` : revision.source === 'baseline' ? '' : 'by automation'}
+                        </span>
+                        <span className="text-muted-foreground shrink-0" title={new Date(revision.created_at).toLocaleString()}>
+                          {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                        </span>
+                        <div className="ml-auto shrink-0">
+                          {revision.id === currentId ? (
+                            <span className="rounded-full bg-primary/10 px-2 py-0.5 font-semibold text-primary">Current</span>
+                          ) : !readOnly && (
+                            <button
+                              type="button"
+                              onClick={() => handleRestore(revision)}
+                              disabled={restoringId !== null}
+                              className="px-2 py-1 rounded-lg border border-border font-medium hover:bg-secondary transition-all flex items-center gap-1 disabled:opacity-50"
+                            >
+                              {restoringId === revision.id ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                              Restore
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <p className="text-sm text-foreground whitespace-pre-wrap break-words">
+                        <RevisionDiff revision={revision} />
+                      </p>
+                    </div>
+                  ))}
+                </TabsContent>
+              );
+            })}
+          </Tabs>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
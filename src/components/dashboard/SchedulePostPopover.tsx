@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarClock } from 'lucide-react';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Platform, PLATFORMS } from '@/lib/platforms';
+import { withTime } from '@/lib/schedule';
+
+interface SchedulePostPopoverProps {
+  platforms: Platform[];
+  disabled?: boolean;
+  // Resolves to whether it saved; the popover stays open otherwise so the choice isn't lost
+  onSchedule: (at: Date) => Promise<boolean>;
+}
+
+export const SchedulePostPopover = ({ platforms, disabled, onSchedule }: SchedulePostPopoverProps) => {
+  const [open, setOpen] = useState(false);
+  const [day, setDay] = useState<Date | undefined>(new Date());
+  const [time, setTime] = useState(format(new Date(Date.now() + 60 * 60 * 1000), 'HH:00'));
+  const [saving, setSaving] = useState(false);
+
+  const scheduledAt = day ? withTime(day, time) : null;
+  const inPast = !!scheduledAt && scheduledAt.getTime() <= Date.now();
+  const labels = PLATFORMS.filter(p => platforms.includes(p.id)).map(p => p.label).join(', ');
+
+  const handleSchedule = async () => {
+    if (!scheduledAt || inPast) return;
+    setSaving(true);
+    try {
+      if (await onSchedule(scheduledAt)) {
+        setOpen(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          disabled={disabled || platforms.length === 0}
+          className="w-full py-3 bg-white border border-border text-foreground font-bold rounded-xl shadow-soft hover:bg-secondary transition-all flex justify-center items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <CalendarClock size={18} />
+          Schedule Post
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="center">
+        <Calendar
+          mode="single"
+          selected={day}
+          onSelect={setDay}
+          disabled={{ before: new Date(new Date().setHours(0, 0, 0, 0)) }}
+          initialFocus
+        />
+        <div className="border-t border-border p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium text-foreground" htmlFor="schedule-time">Time</label>
+            <input
+              id="schedule-time"
+              type="time"
+              value={time}
+              onChange={e => setTime(e.target.value)}
+              className="flex-1 p-2 border border-border rounded-lg bg-background text-sm outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {inPast ? 'Pick a time in the future.' : scheduledAt ? `${labels} on ${format(scheduledAt, 'PPp')}` : 'Pick a day.'}
+          </p>
+          <button
+            onClick={handleSchedule}
+            disabled={!scheduledAt || inPast || saving}
+            className="w-full py-2 bg-gradient-purple text-white text-sm font-bold rounded-lg shadow-soft disabled:opacity-50"
+          >
+            Schedule
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
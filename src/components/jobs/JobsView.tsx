@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, CheckCircle2, Circle, ExternalLink, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { cn, getErrorMessage } from '@/lib/utils';
+import { GenerationJob, isJobStale, JOB_TYPE_LABELS, JobState, JobType, STALE_JOB_MINUTES } from '@/lib/jobs';
+
+interface JobsViewProps {
+  userId: string;
+  onOpenPost: (videoId: number) => void;
+}
+
+const STATE_STYLES: Record<JobState, string> = {
+  queued: 'bg-muted text-muted-foreground',
+  running: 'bg-blue-100 text-blue-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+interface TimelineStep {
+  label: string;
+  at: string | null;
+  status: 'done' | 'active' | 'failed' | 'waiting';
+  detail?: string;
+}
+
+const buildTimeline = (job: GenerationJob): TimelineStep[] => {
+  const failed = job.state === 'failed';
+  const finished = job.state === 'succeeded';
+
+  return [
+    { label: 'Submitted', at: job.submitted_at, status: 'done' },
+    {
+      label: 'Accepted by n8n',
+      at: job.started_at,
+      status: job.started_at ? 'done' : failed ? 'failed' : 'active',
+      detail: !job.started_at && failed ? job.error ?? undefined : undefined,
+    },
+    {
+      label: finished ? 'Render complete' : failed ? 'Render failed' : 'Rendering',
+      at: job.completed_at,
+      status: finished ? 'done' : failed && job.started_at ? 'failed' : job.started_at ? 'active' : 'waiting',
+      detail: failed && job.started_at ? job.error ?? undefined : undefined,
+    },
+  ];
+};
+
+const StepIcon = ({ status }: { status: TimelineStep['status'] }) => {
+  if (status === 'done') return <CheckCircle2 size={16} className="text-green-600" />;
+  if (status === 'failed') return <XCircle size={16} className="text-red-600" />;
+  if (status === 'active') return <Loader2 size={16} className="text-primary animate-spin" />;
+  return <Circle size={16} className="text-muted-foreground" />;
+};
+
+export const JobsView = ({ userId, onOpenPost }: JobsViewProps) => {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchJobs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('generation_jobs')
+        .select('*')
+        .eq('user_id', userId)
+        .order('submitted_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setJobs(data || []);
+    } catch (err) {
+      console.error('Fetch jobs error:', err);
+      toast.error(getErrorMessage(err, 'Failed to load jobs'));
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchJobs();
+
+    const channel = supabase
+      .channel(`generation_jobs:${userId}`)
+      .on<GenerationJob>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'generation_jobs', filter: `user_id=eq.${userId}` },
+        change => {
+          if (change.eventType === 'INSERT') {
+            setJobs(prev => [change.new, ...prev.filter(j => j.id !== change.new.id)]);
+          } else if (change.eventType === 'UPDATE') {
+            setJobs(prev => prev.map(j => j.id === change.new.id ? change.new : j));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchJobs]);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Generation Jobs</h2>
+          <p className="text-muted-foreground mt-1">Follow every ad request from submission to finished post</p>
+        </div>
+        <button
+          onClick={fetchJobs}
+          className="flex items-center gap-2 px-4 py-2 bg-white border border-border rounded-xl hover:bg-secondary text-foreground shadow-soft transition-all"
+        >
+          <RefreshCw size={16} className={loading ? 'animate-spin' : ''} /> Refresh
+        </button>
+      </div>
+
+      {jobs.length === 0 ? (
+        <div className="text-center py-20 bg-white rounded-2xl border border-dashed border-border shadow-soft">
+          <p className="text-lg font-semibold text-foreground">No generation jobs yet</p>
+          <p className="text-muted-foreground mt-1">Requests you submit from Create Ad will show up here.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {jobs.map(job => {
+            const state = job.state as JobState;
+            const stale = isJobStale(job);
+            const payload = job.request_payload as Record<string, unknown> | null;
+
+            return (
+              <div key={job.id} className="bg-white rounded-2xl shadow-medium border border-border p-6 space-y-4">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-foreground">{JOB_TYPE_LABELS[job.type as JobType] ?? job.type}</span>
+                      <span className={cn('rounded-full px-2 py-0.5 text-xs font-semibold capitalize', STATE_STYLES[state])}>
+                        {job.state}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Submitted {formatDistanceToNow(new Date(job.submitted_at), { addSuffix: true })}
+                    </p>
+                    {typeof payload?.prompt === 'string' && (
+                      <p className="text-sm text-muted-foreground line-clamp-2 max-w-xl">{payload.prompt}</p>
+                    )}
+                  </div>
+                  {job.video_id && (
+                    <button
+                      onClick={() => onOpenPost(job.video_id!)}
+                      className="flex items-center gap-2 px-4 py-2 bg-gradient-blue text-white text-sm font-semibold rounded-xl shadow-soft hover:shadow-medium transition-all"
+                    >
+                      <ExternalLink size={14} /> View post #{job.video_id}
+                    </button>
+                  )}
+                </div>
+
+                <ol className="relative border-l border-border ml-2 space-y-3">
+                  {buildTimeline(job).map(step => (
+                    <li key={step.label} className="relative ml-4">
+                      <span className="absolute -left-6 top-0.5 bg-white">
+                        <StepIcon status={step.status} />
+                      </span>
+                      <p className="text-sm font-medium text-foreground">{step.label}</p>
+                      {step.at && <p className="text-xs text-muted-foreground">{format(new Date(step.at), 'PPpp')}</p>}
+                      {step.detail && <p className="text-xs text-red-600 break-all">{step.detail}</p>}
+                    </li>
+                  ))}
+                </ol>
+
+                {stale && (
+                  <div className="flex items-center gap-2 rounded-lg bg-amber-50 border border-amber-200 px-3 py-2 text-sm text-amber-900">
+                    <AlertTriangle size={16} />
+                    No result after {STALE_JOB_MINUTES} minutes. The n8n workflow may have failed without reporting back.
+                  </div>
+                )}
+
+                {job.n8n_response && (
+                  <details className="text-xs">
+                    <summary className="cursor-pointer text-muted-foreground">n8n response</summary>
+                    <pre className="mt-2 p-2 bg-muted rounded overflow-x-auto">{JSON.stringify(job.n8n_response, null, 2)}</pre>
+                  </details>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
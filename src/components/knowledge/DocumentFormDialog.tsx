@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { EmbeddingProvider } from '@/lib/embeddings';
+import { formatMetadata, KnowledgeDocument, parseMetadata, saveDocument } from '@/lib/knowledge';
+import { getErrorMessage } from '@/lib/utils';
+
+interface DocumentFormDialogProps {
+  open: boolean;
+  // Edits this document when given, otherwise creates a new one
+  document: KnowledgeDocument | null;
+  provider: EmbeddingProvider;
+  onClose: () => void;
+  onSaved: (document: KnowledgeDocument) => void;
+}
+
+const inputClassName =
+  'w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none text-sm';
+
+export const DocumentFormDialog = ({ open, document, provider, onClose, onSaved }: DocumentFormDialogProps) => {
+  const [content, setContent] = useState('');
+  const [metadataText, setMetadataText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setContent(document?.content ?? '');
+      setMetadataText(formatMetadata(document?.metadata ?? null));
+    }
+  }, [open, document]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      onSaved(await saveDocument(provider, content, parseMetadata(metadataText), document));
+      toast.success(document ? 'Document updated' : 'Document added');
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{document ? `Edit document #${document.id}` : 'New document'}</DialogTitle>
+          <DialogDescription>
+            {provider.id === 'local-stub'
+              ? `${provider.label} can't write embeddings, so only metadata can be changed. Choose OpenAI under Embeddings to edit content.`
+              : `Saving new or changed content embeds it with ${provider.label}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="document-form" onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <label className="block text-sm font-bold text-foreground">Content</label>
+            <textarea
+              value={content}
+              onChange={e => setContent(e.target.value)}
+              rows={10}
+              className={`${inputClassName} resize-y`}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-bold text-foreground">Metadata (JSON)</label>
+            <textarea
+              value={metadataText}
+              onChange={e => setMetadataText(e.target.value)}
+              rows={4}
+              placeholder='{"source": "faq"}'
+              className={`${inputClassName} font-mono resize-y`}
+            />
+          </div>
+        </form>
+
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium rounded-xl text-muted-foreground hover:bg-secondary transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            form="document-form"
+            disabled={saving}
+            className="px-4 py-2 bg-primary text-primary-foreground text-sm font-medium rounded-xl shadow-soft hover:shadow-medium transition-all flex items-center gap-2 disabled:opacity-50"
+          >
+            {saving && <Loader2 size={14} className="animate-spin" />}
+            Save document
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,55 @@
+import { AlertTriangle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EmbeddingConfig, EmbeddingProviderId } from '@/lib/embeddings';
+
+interface EmbeddingProviderCardProps {
+  config: EmbeddingConfig;
+  onChange: (config: EmbeddingConfig) => void;
+}
+
+const inputClassName =
+  'w-full p-2.5 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none text-sm';
+
+export const EmbeddingProviderCard = ({ config, onChange }: EmbeddingProviderCardProps) => (
+  <div className="bg-white rounded-2xl shadow-medium border border-border p-5 space-y-3">
+    <div>
+      <h3 className="font-bold text-foreground">Embeddings</h3>
+      <p className="text-xs text-muted-foreground">Used when saving documents and testing retrieval. Saved in this browser only.</p>
+    </div>
+
+    <Select value={config.provider} onValueChange={value => onChange({ ...config, provider: value as EmbeddingProviderId })}>
+      <SelectTrigger className="rounded-xl">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="local-stub">Local stub (offline)</SelectItem>
+        <SelectItem value="openai">OpenAI</SelectItem>
+      </SelectContent>
+    </Select>
+
+    {config.provider === 'openai' ? (
+      <div className="space-y-2">
+        <input
+          type="password"
+          placeholder="OpenAI API key"
+          value={config.openaiApiKey}
+          onChange={e => onChange({ ...config, openaiApiKey: e.target.value })}
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          placeholder="Model"
+          value={config.openaiModel}
+          onChange={e => onChange({ ...config, openaiModel: e.target.value })}
+          className={inputClassName}
+        />
+        <p className="text-xs text-muted-foreground">Use the same model as the n8n vector store, or retrieval results will not reflect the bot.</p>
+      </div>
+    ) : (
+      <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2 flex gap-2">
+        <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+        The stub works offline for trying searches, but its vectors do not match the bot's, so it can't add documents or change their content.
+      </p>
+    )}
+  </div>
+);
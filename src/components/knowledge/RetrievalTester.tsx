@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { EmbeddingProvider } from '@/lib/embeddings';
+import { DocumentMatch, formatMetadata, matchDocuments, parseMetadata } from '@/lib/knowledge';
+import { getErrorMessage } from '@/lib/utils';
+
+interface RetrievalTesterProps {
+  provider: EmbeddingProvider;
+  onOpenDocument: (documentId: number) => void;
+}
+
+const inputClassName =
+  'w-full p-2.5 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none text-sm';
+
+export const RetrievalTester = ({ provider, onOpenDocument }: RetrievalTesterProps) => {
+  const [query, setQuery] = useState('');
+  const [matchCount, setMatchCount] = useState(4);
+  const [filterText, setFilterText] = useState('');
+  const [matches, setMatches] = useState<DocumentMatch[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setSearching(true);
+    setError(null);
+    try {
+      setMatches(await matchDocuments(provider, query.trim(), matchCount, parseMetadata(filterText)));
+    } catch (err) {
+      setError(getErrorMessage(err));
+      setMatches(null);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-medium border border-border p-5 space-y-4">
+      <div>
+        <h3 className="font-bold text-foreground">Test retrieval</h3>
+        <p className="text-xs text-muted-foreground">Runs <code>match_documents</code> the way the chatbot does, using {provider.label}.</p>
+      </div>
+
+      <form onSubmit={handleSearch} className="space-y-2">
+        <textarea
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Ask what a customer would ask..."
+          rows={3}
+          className={`${inputClassName} resize-none`}
+        />
+        <div className="flex gap-2">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Top
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={matchCount}
+              onChange={e => setMatchCount(Math.min(20, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-16 p-2 border border-border rounded-xl bg-muted text-sm outline-none"
+            />
+          </label>
+          <input
+            value={filterText}
+            onChange={e => setFilterText(e.target.value)}
+            placeholder='Metadata filter, e.g. {"source": "faq"}'
+            className={`${inputClassName} font-mono`}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={searching || !query.trim()}
+          className="w-full py-2.5 bg-primary text-primary-foreground text-sm font-bold rounded-xl shadow-soft hover:shadow-medium transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {searching ? <Loader2 size={16} className="animate-spin" /> : <Search size={16} />}
+          Retrieve
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {matches && (
+        matches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No documents matched.</p>
+        ) : (
+          <ol className="space-y-2">
+            {matches.map((match, index) => (
+              <li key={match.id} className="p-3 border border-border rounded-xl space-y-2">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="font-bold text-foreground">#{index + 1}</span>
+                  <div className="flex-1 h-1.5 bg-muted rounded-full overflow-hidden">
+                    <div className="h-full bg-gradient-blue" style={{ width: `${Math.max(0, match.similarity) * 100}%` }} />
+                  </div>
+                  <span className="font-mono text-muted-foreground">{match.similarity.toFixed(3)}</span>
+                </div>
+                <p className="text-sm text-foreground line-clamp-4 whitespace-pre-wrap">{match.content}</p>
+                <div className="flex items-center justify-between gap-2">
+                  {formatMetadata(match.metadata) ? (
+                    <code className="text-xs text-muted-foreground truncate">{JSON.stringify(match.metadata)}</code>
+                  ) : <span />}
+                  <button onClick={() => onOpenDocument(match.id)} className="text-xs text-primary hover:underline shrink-0">
+                    Open #{match.id}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )
+      )}
+    </div>
+  );
+};
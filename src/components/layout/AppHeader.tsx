@@ -0,0 +1,87 @@
+import { ReactNode } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { BookOpen, LifeBuoy, LogOut, MessagesSquare, Package, ShoppingBag, Video } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface AppHeaderProps {
+  onLogout: () => void;
+  // Sits next to the logout button, apart from the page links
+  workspaceSwitcher?: ReactNode;
+  children: ReactNode;
+}
+
+interface NavButtonProps {
+  active: boolean;
+  onClick: () => void;
+  children: ReactNode;
+  activeClassName?: string;
+  title?: string;
+}
+
+export const NavButton = ({ active, onClick, children, activeClassName = 'bg-secondary text-secondary-foreground', title }: NavButtonProps) => (
+  <button
+    onClick={onClick}
+    title={title}
+    className={cn(
+      'px-6 py-2.5 rounded-xl font-medium transition-all flex items-center gap-2',
+      active ? activeClassName : 'text-muted-foreground hover:text-foreground hover:bg-secondary'
+    )}
+  >
+    {children}
+  </button>
+);
+
+const PAGE_LINKS = [
+  { path: '/products', label: 'Products', icon: Package },
+  { path: '/orders', label: 'Orders', icon: ShoppingBag },
+  { path: '/tickets', label: 'Tickets', icon: LifeBuoy },
+  { path: '/conversations', label: 'Conversations', icon: MessagesSquare },
+  { path: '/knowledge', label: 'Knowledge', icon: BookOpen },
+];
+
+// Links to the pages that live outside the dashboard, highlighted when one is open
+export const PageLinks = () => {
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+
+  return (
+    <>
+      {PAGE_LINKS.map(({ path, label, icon: Icon }) => (
+        <NavButton key={path} active={pathname === path} onClick={() => navigate(path)}>
+          <Icon size={18} />
+          {label}
+        </NavButton>
+      ))}
+    </>
+  );
+};
+
+export const AppHeader = ({ onLogout, workspaceSwitcher, children }: AppHeaderProps) => (
+  <header className="bg-white/80 backdrop-blur-lg border-b border-slate-200/60 sticky top-0 z-50 shadow-soft">
+    <div className="max-w-7xl mx-auto px-6 py-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-gradient-pink flex items-center justify-center shadow-medium">
+            <Video className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">AdGen Studio</h1>
+            <p className="text-xs text-muted-foreground">AI-Powered Social Media Ads</p>
+          </div>
+        </div>
+
+        <nav className="flex gap-2 items-center">
+          {children}
+          {workspaceSwitcher}
+          <button
+            onClick={onLogout}
+            className="px-6 py-2.5 rounded-xl font-medium transition-all flex items-center gap-2 text-muted-foreground hover:text-foreground hover:bg-destructive/10"
+            title="Logout"
+          >
+            <LogOut size={18} />
+          </button>
+        </nav>
+      </div>
+    </div>
+  </header>
+);
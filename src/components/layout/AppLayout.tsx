@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Outlet, useLocation, useNavigate } from 'react-router-dom';
+import { CalendarDays, ListChecks, Plus, Settings as SettingsIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { AppHeader, NavButton, PageLinks } from '@/components/layout/AppHeader';
+import { FullPageLoader } from '@/components/layout/FullPageLoader';
+import { WorkspaceSwitcher } from '@/components/workspaces/WorkspaceSwitcher';
+import { AppContext, AppContextValue } from '@/hooks/use-app-context';
+import { useAuth } from '@/hooks/use-auth';
+import { useBrandSession } from '@/hooks/use-brand-session';
+import { getVideoSource } from '@/lib/data-source';
+import { AppSettings, DEFAULT_SETTINGS, loadUserSettings } from '@/lib/settings';
+import { getErrorMessage } from '@/lib/utils';
+import {
+  createWorkspace,
+  fetchWorkspaces,
+  loadActiveWorkspaceId,
+  saveActiveWorkspaceId,
+  Workspace,
+} from '@/lib/workspaces';
+
+/**
+ * Shell for every signed-in page, rendered inside RequireAuth: loads the user's
+ * settings and workspaces once and shares them and the session with the routes
+ * below via AppContext.
+ */
+export const AppLayout = () => {
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const { session, signOut } = useAuth();
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null);
+  const [workspacesFailed, setWorkspacesFailed] = useState(false);
+  const [workspaceId, setWorkspaceId] = useState(loadActiveWorkspaceId);
+
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    setSettings(null);
+    loadUserSettings(userId)
+      .then(setSettings)
+      .catch(err => {
+        console.error('Load settings error:', err);
+        toast.error(`Could not load settings: ${getErrorMessage(err)}`);
+        setSettings(DEFAULT_SETTINGS);
+      });
+  }, [userId]);
+
+  const reloadWorkspaces = useCallback(async () => {
+    if (!userId) return;
+    let result = await fetchWorkspaces(userId);
+    // Leaving or deleting your last workspace shouldn't lock you out of the app
+    if (result.length === 0) {
+      await createWorkspace('Personal');
+      result = await fetchWorkspaces(userId);
+    }
+    setWorkspaces(result);
+  }, [userId]);
+
+  const loadWorkspaces = useCallback(() => {
+    setWorkspaces(null);
+    setWorkspacesFailed(false);
+    reloadWorkspaces().catch(err => {
+      console.error('Load workspaces error:', err);
+      toast.error(`Could not load workspaces: ${getErrorMessage(err)}`);
+      setWorkspacesFailed(true);
+    });
+  }, [reloadWorkspaces]);
+
+  useEffect(() => {
+    loadWorkspaces();
+  }, [loadWorkspaces]);
+
+  const switchWorkspace = useCallback((id: string) => {
+    saveActiveWorkspaceId(id);
+    setWorkspaceId(id);
+  }, []);
+
+  // Falls back to the first workspace when the remembered one was left or deleted
+  const workspace = workspaces?.find(w => w.id === workspaceId) ?? workspaces?.[0];
+
+  // Kept separate from the session so a token refresh doesn't recreate clients and refetch posts
+  const configuredSource = useMemo(() => settings && getVideoSource(settings), [settings]);
+  // Signing in to or out of a brand project changes what can be written, and what its RLS shows
+  const brandSignedIn = !!useBrandSession(configuredSource);
+  const videoSource = useMemo(
+    () => configuredSource && (configuredSource.isCustomProject ? { ...configuredSource, writable: brandSignedIn } : configuredSource),
+    [configuredSource, brandSignedIn]
+  );
+
+  const context = useMemo<AppContextValue | null>(
+    () => session && settings && workspaces && workspace
+      ? { session, userId: session.user.id, settings, setSettings, videoSource, workspace, workspaces, switchWorkspace, reloadWorkspaces }
+      : null,
+    [session, settings, videoSource, workspace, workspaces, switchWorkspace, reloadWorkspaces]
+  );
+
+  const handleLogout = async () => {
+    try {
+      await signOut();
+      navigate('/auth');
+    } catch (err) {
+      toast.error(`Could not log out: ${getErrorMessage(err)}`);
+    }
+  };
+
+  if (workspacesFailed) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">Your workspaces could not be loaded.</p>
+        <button
+          onClick={loadWorkspaces}
+          className="px-4 py-2.5 bg-white border border-border text-foreground font-medium rounded-xl shadow-soft hover:bg-secondary transition-all"
+        >
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  if (!context) {
+    return <FullPageLoader />;
+  }
+
+  return (
+    <AppContext.Provider value={context}>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-purple-50/30">
+        <AppHeader onLogout={handleLogout} workspaceSwitcher={<WorkspaceSwitcher />}>
+          <NavButton
+            active={pathname === '/dashboard' || pathname.startsWith('/posts/')}
+            onClick={() => navigate('/dashboard')}
+            activeClassName="bg-primary text-primary-foreground shadow-medium"
+          >
+            Dashboard
+          </NavButton>
+          <NavButton active={pathname.startsWith('/create')} onClick={() => navigate('/create')} activeClassName="bg-gradient-pink text-white shadow-medium">
+            <Plus size={18} />
+            Create Ad
+          </NavButton>
+          <NavButton active={pathname === '/calendar'} onClick={() => navigate('/calendar')}>
+            <CalendarDays size={18} />
+            Calendar
+          </NavButton>
+          <NavButton active={pathname === '/jobs'} onClick={() => navigate('/jobs')}>
+            <ListChecks size={18} />
+            Jobs
+          </NavButton>
+          <PageLinks />
+          <NavButton active={pathname === '/settings'} onClick={() => navigate('/settings')} title="Settings">
+            <SettingsIcon size={18} />
+          </NavButton>
+        </AppHeader>
+
+        <Outlet />
+      </div>
+    </AppContext.Provider>
+  );
+};
@@ -0,0 +1,7 @@
+import { Loader2 } from 'lucide-react';
+
+export const FullPageLoader = () => (
+  <div className="min-h-screen flex items-center justify-center">
+    <Loader2 size={32} className="animate-spin text-muted-foreground" />
+  </div>
+);
@@ -0,0 +1,77 @@
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { OrderStatusBadge } from '@/components/orders/OrderStatusSelect';
+import { CustomerOrder, formatPrice, nextOrderStatuses, ORDER_STATUS_LABELS, OrderStatus } from '@/lib/orders';
+
+interface OrderDetailSheetProps {
+  order: CustomerOrder | null;
+  updating: boolean;
+  onClose: () => void;
+  onStatusChange: (order: CustomerOrder, status: OrderStatus) => void;
+}
+
+const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div>
+    <dt className="text-xs font-bold text-muted-foreground uppercase tracking-wide">{label}</dt>
+    <dd className="mt-1 text-sm text-foreground whitespace-pre-wrap break-words">{children}</dd>
+  </div>
+);
+
+export const OrderDetailSheet = ({ order, updating, onClose, onStatusChange }: OrderDetailSheetProps) => (
+  <Sheet open={!!order} onOpenChange={open => !open && onClose()}>
+    <SheetContent className="sm:max-w-md overflow-y-auto">
+      {order && (
+        <>
+          <SheetHeader>
+            <SheetTitle>Order {order.order_id}</SheetTitle>
+            <SheetDescription>
+              {order.purchase_time ? format(new Date(order.purchase_time), 'EEEE, MMM d, yyyy HH:mm') : 'Purchase time unknown'}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="mt-6 space-y-6">
+            <div className="flex items-center gap-3">
+              <OrderStatusBadge order={order} />
+              {updating && <Loader2 size={16} className="animate-spin text-muted-foreground" />}
+            </div>
+
+            {nextOrderStatuses(order).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {nextOrderStatuses(order).map(status => (
+                  <button
+                    key={status}
+                    disabled={updating}
+                    onClick={() => onStatusChange(order, status)}
+                    className={`px-4 py-2 text-sm font-bold rounded-xl shadow-soft transition-all disabled:opacity-50 ${
+                      status === 'cancelled' || status === 'returned'
+                        ? 'bg-white border border-border text-red-600 hover:bg-red-50'
+                        : 'bg-primary text-primary-foreground hover:shadow-medium'
+                    }`}
+                  >
+                    Mark {ORDER_STATUS_LABELS[status].toLowerCase()}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <dl className="space-y-4">
+              <Field label="Customer">{order.person_name || '—'}</Field>
+              <Field label="Phone">{order.phone_number ?? '—'}</Field>
+              <Field label="Delivery address">{order.delivery_address || '—'}</Field>
+              <Field label="Items">{order.product_order_summary || '—'}</Field>
+              <div className="grid grid-cols-3 gap-4">
+                <Field label="Quantity">{order.quantity ?? '—'}</Field>
+                <Field label="Total">{formatPrice(order.total_price)}</Field>
+                <Field label="Payment">{order.payment_method || '—'}</Field>
+              </div>
+              {order.order_status && (
+                <Field label="Raw status">{order.order_status}</Field>
+              )}
+            </dl>
+          </div>
+        </>
+      )}
+    </SheetContent>
+  </Sheet>
+);
@@ -0,0 +1,86 @@
+import { format, parseISO } from 'date-fns';
+import { CalendarDays, X } from 'lucide-react';
+import type { DateRange } from 'react-day-picker';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEFAULT_ORDER_QUERY, ORDER_STATUS_LABELS, ORDER_STATUSES, OrderQuery } from '@/lib/orders';
+
+interface OrderFiltersProps {
+  query: OrderQuery;
+  paymentMethods: string[];
+  onChange: (query: OrderQuery) => void;
+}
+
+const rangeLabel = ({ from, to }: OrderQuery) => {
+  if (!from && !to) return 'Any date';
+  if (from && to) return `${format(parseISO(from), 'MMM d')} – ${format(parseISO(to), 'MMM d, yyyy')}`;
+  return from ? `From ${format(parseISO(from), 'MMM d, yyyy')}` : `Until ${format(parseISO(to), 'MMM d, yyyy')}`;
+};
+
+export const OrderFilters = ({ query, paymentMethods, onChange }: OrderFiltersProps) => {
+  const update = (changes: Partial<OrderQuery>) => onChange({ ...query, ...changes });
+
+  const range: DateRange | undefined = query.from || query.to
+    ? { from: query.from ? parseISO(query.from) : undefined, to: query.to ? parseISO(query.to) : undefined }
+    : undefined;
+
+  const handleRangeSelect = (selected: DateRange | undefined) => {
+    update({
+      from: selected?.from ? format(selected.from, 'yyyy-MM-dd') : '',
+      to: selected?.to ? format(selected.to, 'yyyy-MM-dd') : '',
+    });
+  };
+
+  const hasFilters = query.status !== 'all' || query.payment !== 'all' || !!query.from || !!query.to;
+
+  return (
+    <div className="bg-white rounded-2xl border border-border shadow-soft p-4 flex flex-wrap items-center gap-2">
+      <Select value={query.status} onValueChange={value => update({ status: value as OrderQuery['status'] })}>
+        <SelectTrigger className="w-[150px] h-9 rounded-xl text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any status</SelectItem>
+          {ORDER_STATUSES.map(status => (
+            <SelectItem key={status} value={status}>{ORDER_STATUS_LABELS[status]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={query.payment} onValueChange={value => update({ payment: value })}>
+        <SelectTrigger className="w-[170px] h-9 rounded-xl text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any payment</SelectItem>
+          {paymentMethods.map(method => (
+            <SelectItem key={method} value={method}>{method}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <button className="h-9 px-3 border border-input rounded-xl text-sm flex items-center gap-2 hover:bg-secondary transition-all">
+            <CalendarDays size={16} className="text-muted-foreground" />
+            {rangeLabel(query)}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar mode="range" selected={range} onSelect={handleRangeSelect} numberOfMonths={2} initialFocus />
+        </PopoverContent>
+      </Popover>
+
+      {hasFilters && (
+        <button
+          onClick={() => onChange({ ...DEFAULT_ORDER_QUERY, sort: query.sort, dir: query.dir })}
+          className="h-9 px-3 text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 transition-all"
+        >
+          <X size={14} />
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import { Loader2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { CustomerOrder, nextOrderStatuses, normalizeOrderStatus, ORDER_STATUS_LABELS, OrderStatus } from '@/lib/orders';
+
+interface OrderStatusSelectProps {
+  order: CustomerOrder;
+  busy?: boolean;
+  onChange: (status: OrderStatus) => void;
+}
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  confirmed: 'bg-blue-100 text-blue-700',
+  shipped: 'bg-purple-100 text-purple-700',
+  delivered: 'bg-green-100 text-green-700',
+  cancelled: 'bg-muted text-muted-foreground',
+  returned: 'bg-red-100 text-red-700',
+};
+
+export const OrderStatusBadge = ({ order }: { order: CustomerOrder }) => {
+  const status = normalizeOrderStatus(order.order_status);
+  return (
+    <span className={cn('px-2.5 py-1 rounded-full text-xs font-bold whitespace-nowrap', STATUS_STYLES[status])}>
+      {ORDER_STATUS_LABELS[status]}
+    </span>
+  );
+};
+
+// Only offers the transitions allowed from the current status; final statuses render as a plain badge
+export const OrderStatusSelect = ({ order, busy, onChange }: OrderStatusSelectProps) => {
+  const next = nextOrderStatuses(order);
+
+  if (busy) {
+    return <Loader2 size={16} className="animate-spin text-muted-foreground" />;
+  }
+
+  if (next.length === 0) {
+    return <OrderStatusBadge order={order} />;
+  }
+
+  return (
+    <Select value="" onValueChange={value => onChange(value as OrderStatus)}>
+      <SelectTrigger
+        className="h-auto w-auto gap-1 border-none bg-transparent p-0 shadow-none focus:ring-0"
+        onClick={e => e.stopPropagation()}
+      >
+        <OrderStatusBadge order={order} />
+      </SelectTrigger>
+      <SelectContent onClick={e => e.stopPropagation()}>
+        {next.map(status => (
+          <SelectItem key={status} value={status}>
+            Mark {ORDER_STATUS_LABELS[status].toLowerCase()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
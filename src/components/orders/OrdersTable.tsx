@@ -0,0 +1,80 @@
+import { format } from 'date-fns';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { OrderStatusSelect } from '@/components/orders/OrderStatusSelect';
+import { CustomerOrder, formatPrice, OrderQuery, OrderSortColumn, OrderStatus } from '@/lib/orders';
+
+interface OrdersTableProps {
+  orders: CustomerOrder[];
+  query: OrderQuery;
+  updatingId: string | null;
+  onSort: (column: OrderSortColumn) => void;
+  onOpen: (order: CustomerOrder) => void;
+  onStatusChange: (order: CustomerOrder, status: OrderStatus) => void;
+}
+
+interface SortableHeadProps {
+  column: OrderSortColumn;
+  query: OrderQuery;
+  onSort: (column: OrderSortColumn) => void;
+  children: React.ReactNode;
+  className?: string;
+}
+
+const SortableHead = ({ column, query, onSort, children, className }: SortableHeadProps) => {
+  const Icon = query.sort !== column ? ArrowUpDown : query.dir === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className}>
+      <button onClick={() => onSort(column)} className="inline-flex items-center gap-1 hover:text-foreground transition-colors">
+        {children}
+        <Icon size={14} className={query.sort === column ? 'text-foreground' : 'opacity-40'} />
+      </button>
+    </TableHead>
+  );
+};
+
+export const OrdersTable = ({ orders, query, updatingId, onSort, onOpen, onStatusChange }: OrdersTableProps) => (
+  <div className="bg-white rounded-2xl shadow-medium border border-border overflow-hidden">
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Order</TableHead>
+          <SortableHead column="person_name" query={query} onSort={onSort}>Customer</SortableHead>
+          <TableHead>Items</TableHead>
+          <SortableHead column="quantity" query={query} onSort={onSort} className="text-right">Qty</SortableHead>
+          <SortableHead column="total_price" query={query} onSort={onSort} className="text-right">Total</SortableHead>
+          <TableHead>Payment</TableHead>
+          <SortableHead column="order_status" query={query} onSort={onSort}>Status</SortableHead>
+          <SortableHead column="purchase_time" query={query} onSort={onSort}>Purchased</SortableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {orders.map(order => (
+          <TableRow key={order.order_id} onClick={() => onOpen(order)} className="cursor-pointer">
+            <TableCell className="font-mono text-xs">{order.order_id}</TableCell>
+            <TableCell>
+              <p className="font-medium text-foreground">{order.person_name || '—'}</p>
+              {order.phone_number !== null && <p className="text-xs text-muted-foreground">{order.phone_number}</p>}
+            </TableCell>
+            <TableCell className="max-w-[240px] truncate" title={order.product_order_summary ?? undefined}>
+              {order.product_order_summary || '—'}
+            </TableCell>
+            <TableCell className="text-right">{order.quantity ?? '—'}</TableCell>
+            <TableCell className="text-right font-medium">{formatPrice(order.total_price)}</TableCell>
+            <TableCell>{order.payment_method || '—'}</TableCell>
+            <TableCell>
+              <OrderStatusSelect
+                order={order}
+                busy={updatingId === order.order_id}
+                onChange={status => onStatusChange(order, status)}
+              />
+            </TableCell>
+            <TableCell className="whitespace-nowrap text-muted-foreground">
+              {order.purchase_time ? format(new Date(order.purchase_time), 'MMM d, yyyy HH:mm') : '—'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
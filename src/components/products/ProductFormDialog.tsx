@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { ImagePlus, Link2, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { uploadAdAsset } from '@/lib/assets';
+import { EMPTY_PRODUCT_DRAFT, Product, ProductDraft, saveProduct, toProductDraft } from '@/lib/products';
+import { getErrorMessage } from '@/lib/utils';
+
+interface ProductFormDialogProps {
+  open: boolean;
+  // Edits this product when given, otherwise creates a new one
+  product: Product | null;
+  onClose: () => void;
+  onSaved: (product: Product) => void;
+}
+
+const inputClassName =
+  'w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none';
+
+export const ProductFormDialog = ({ open, product, onClose, onSaved }: ProductFormDialogProps) => {
+  const [draft, setDraft] = useState<ProductDraft>(EMPTY_PRODUCT_DRAFT);
+  const [urlInput, setUrlInput] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(product ? toProductDraft(product) : EMPTY_PRODUCT_DRAFT);
+      setUrlInput('');
+    }
+  }, [open, product]);
+
+  const update = (changes: Partial<ProductDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const addImageUrls = (urls: string[]) =>
+    setDraft(prev => ({ ...prev, imageUrls: [...prev.imageUrls, ...urls.filter(url => !prev.imageUrls.includes(url))] }));
+
+  const handleAddUrl = () => {
+    const url = urlInput.trim();
+    if (!/^https?:\/\//i.test(url)) {
+      toast.error('Image URLs must start with http:// or https://');
+      return;
+    }
+    addImageUrls([url]);
+    setUrlInput('');
+  };
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setUploading(true);
+    try {
+      // One at a time keeps the order of the picked files
+      const urls: string[] = [];
+      for (const file of Array.from(files)) {
+        urls.push(await uploadAdAsset(file));
+      }
+      addImageUrls(urls);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      onSaved(await saveProduct(draft, product?.Id));
+      toast.success(product ? 'Product updated' : 'Product created');
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{product ? 'Edit product' : 'New product'}</DialogTitle>
+          <DialogDescription>Products pre-fill the Product Ads and UGC forms.</DialogDescription>
+        </DialogHeader>
+
+        <form id="product-form" onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="block text-sm font-bold text-foreground">Name</label>
+              <input className={inputClassName} value={draft.name} onChange={e => update({ name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-bold text-foreground">Product code</label>
+              <input className={inputClassName} value={draft.code} onChange={e => update({ code: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-bold text-foreground">Description</label>
+            <textarea
+              className={`${inputClassName} h-24 resize-none`}
+              value={draft.description}
+              onChange={e => update({ description: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-bold text-foreground">Product page link</label>
+            <input
+              type="url"
+              className={inputClassName}
+              placeholder="https://"
+              value={draft.pageLink}
+              onChange={e => update({ pageLink: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-bold text-foreground">Images</label>
+            {draft.imageUrls.length > 0 && (
+              <div className="grid grid-cols-4 gap-2">
+                {draft.imageUrls.map(url => (
+                  <div key={url} className="relative aspect-square rounded-lg overflow-hidden border border-border group">
+                    <img src={url} alt="" className="w-full h-full object-cover" />
+                    <button
+                      type="button"
+                      onClick={() => update({ imageUrls: draft.imageUrls.filter(u => u !== url) })}
+                      className="absolute top-1 right-1 p-1 rounded-md bg-white/90 text-muted-foreground hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove image"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="url"
+                className={inputClassName}
+                placeholder="Paste an image URL"
+                value={urlInput}
+                onChange={e => setUrlInput(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAddUrl();
+                  }
+                }}
+              />
+              <button
+                type="button"
+                onClick={handleAddUrl}
+                disabled={!urlInput.trim()}
+                className="px-4 bg-white border border-border text-foreground rounded-xl shadow-soft hover:bg-secondary transition-all disabled:opacity-50"
+                title="Add URL"
+              >
+                <Link2 size={16} />
+              </button>
+            </div>
+            <label className="flex items-center justify-center gap-2 p-3 border-2 border-dashed border-border rounded-xl text-sm text-muted-foreground hover:bg-muted hover:text-primary transition-colors cursor-pointer">
+              {uploading ? <Loader2 size={16} className="animate-spin" /> : <ImagePlus size={16} />}
+              {uploading ? 'Uploading...' : 'Upload images'}
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                disabled={uploading}
+                onChange={e => {
+                  handleUpload(e.target.files);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+            </label>
+          </div>
+        </form>
+
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium rounded-xl text-muted-foreground hover:bg-secondary transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            form="product-form"
+            disabled={saving || uploading}
+            className="px-4 py-2 bg-primary text-primary-foreground text-sm font-medium rounded-xl shadow-soft hover:shadow-medium transition-all flex items-center gap-2 disabled:opacity-50"
+          >
+            {saving && <Loader2 size={14} className="animate-spin" />}
+            Save product
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Check, ChevronsUpDown, Package, X } from 'lucide-react';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { fetchProducts, parseImageUrls, Product, productLabel } from '@/lib/products';
+
+interface ProductPickerProps {
+  selectedId: number | null;
+  selectedImageUrl: string | null;
+  onSelect: (product: Product) => void;
+  onImageSelect: (url: string) => void;
+  onClear: () => void;
+}
+
+export const ProductPicker = ({ selectedId, selectedImageUrl, onSelect, onImageSelect, onClear }: ProductPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [products, setProducts] = useState<Product[]>([]);
+
+  useEffect(() => {
+    fetchProducts()
+      .then(setProducts)
+      .catch(err => console.error('Fetch products error:', err));
+  }, []);
+
+  const selected = products.find(p => p.Id === selectedId);
+  const images = selected ? parseImageUrls(selected['Product Image URLs']) : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-bold text-foreground">Product from catalog</label>
+        {selectedId && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="p-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+            title="Stop using this product"
+          >
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className="w-full p-4 border border-border rounded-xl bg-muted hover:bg-background transition-all flex items-center justify-between gap-2 text-left"
+          >
+            <span className={cn('flex items-center gap-2 truncate', !selected && 'text-muted-foreground')}>
+              <Package size={18} />
+              {selected ? productLabel(selected) : products.length ? 'Pick a product to pre-fill the form...' : 'No products in the catalog yet'}
+            </span>
+            <ChevronsUpDown size={16} className="text-muted-foreground shrink-0" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search products..." />
+            <CommandList>
+              <CommandEmpty>No products found.</CommandEmpty>
+              <CommandGroup>
+                {products.map(product => (
+                  <CommandItem
+                    key={product.Id}
+                    value={`${productLabel(product)} ${product['Product code'] ?? ''} ${product.Id}`}
+                    onSelect={() => {
+                      onSelect(product);
+                      setOpen(false);
+                    }}
+                  >
+                    <Check size={16} className={cn('mr-2', product.Id === selectedId ? 'opacity-100' : 'opacity-0')} />
+                    <span className="truncate">{productLabel(product)}</span>
+                    {product['Product code'] && product.product_name && (
+                      <span className="ml-auto text-xs text-muted-foreground">{product['Product code']}</span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {images.map(url => (
+            <button
+              key={url}
+              type="button"
+              onClick={() => onImageSelect(url)}
+              className={cn(
+                'w-16 h-16 shrink-0 rounded-lg overflow-hidden border-2 transition-all',
+                url === selectedImageUrl ? 'border-primary' : 'border-transparent opacity-70 hover:opacity-100'
+              )}
+            >
+              <img src={url} alt="" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Loader2, LogIn, LogOut, Lock, Unlock } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAppContext } from '@/hooks/use-app-context';
+import { useBrandSession } from '@/hooks/use-brand-session';
+import { authErrorMessage } from '@/lib/auth-errors';
+import { signInToBrandProject, signOutOfBrandProject } from '@/lib/data-source';
+
+// Signs in to the saved brand project with an account of its own, which makes its posts writable here
+export const BrandProjectAccount = () => {
+  const { videoSource } = useAppContext();
+  const session = useBrandSession(videoSource);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      await signInToBrandProject(videoSource, email, password);
+      setPassword('');
+      toast.success('Signed in to the brand project');
+    } catch (err) {
+      toast.error(authErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setBusy(true);
+    try {
+      await signOutOfBrandProject(videoSource);
+      toast.success('Signed out of the brand project');
+    } catch (err) {
+      toast.error(authErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-2xl shadow-xl border border-border p-8 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-foreground flex items-center gap-2">
+          {session ? <Unlock size={20} className="text-green-600" /> : <Lock size={20} className="text-muted-foreground" />}
+          Brand project account
+        </h3>
+        <p className="text-sm text-muted-foreground mt-1">
+          {session
+            ? `Signed in as ${session.user.email}. You can edit, approve, post and schedule as far as the brand project's policies allow.`
+            : "Read-only until you sign in with an account in the brand project. Its policies then decide what you can change."}
+        </p>
+      </div>
+
+      {session ? (
+        <button
+          type="button"
+          onClick={handleSignOut}
+          disabled={busy}
+          className="px-4 py-2 bg-white border border-border text-foreground text-sm font-bold rounded-xl shadow-soft hover:bg-secondary transition-all flex items-center gap-2 disabled:opacity-50"
+        >
+          {busy ? <Loader2 size={16} className="animate-spin" /> : <LogOut size={16} />}
+          Sign out of the brand project
+        </button>
+      ) : (
+        <form onSubmit={handleSignIn} className="space-y-3">
+          <input
+            type="email"
+            required
+            autoComplete="off"
+            placeholder="Email in the brand project"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            className="w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+          />
+          <input
+            type="password"
+            required
+            autoComplete="off"
+            placeholder="Password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+          />
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-4 py-2 bg-white border border-border text-foreground text-sm font-bold rounded-xl shadow-soft hover:bg-secondary transition-all flex items-center gap-2 disabled:opacity-50"
+          >
+            {busy ? <Loader2 size={16} className="animate-spin" /> : <LogIn size={16} />}
+            Sign in to the brand project
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
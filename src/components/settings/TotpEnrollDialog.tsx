@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { Copy, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { TotpCodeInput } from '@/components/auth/TotpCodeInput';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { authErrorMessage } from '@/lib/auth-errors';
+import { enrollTotp, TOTP_CODE_LENGTH, TotpEnrollment, unenrollFactor, verifyTotp } from '@/lib/mfa';
+
+interface TotpEnrollDialogProps {
+  open: boolean;
+  defaultName: string;
+  onClose: () => void;
+  onEnrolled: () => void;
+}
+
+const inputClassName =
+  'w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none text-sm';
+
+// Two steps: name the authenticator, then scan the QR code and confirm with a first code
+export const TotpEnrollDialog = ({ open, defaultName, onClose, onEnrolled }: TotpEnrollDialogProps) => {
+  const [name, setName] = useState('');
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+      setEnrollment(null);
+      setCode('');
+    }
+  }, [open, defaultName]);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      setEnrollment(await enrollTotp(name.trim()));
+    } catch (err) {
+      toast.error(authErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleVerify = async (value: string) => {
+    if (!enrollment || value.length !== TOTP_CODE_LENGTH) return;
+    setBusy(true);
+    try {
+      await verifyTotp(enrollment.factorId, value);
+      toast.success('Two-factor authentication is on');
+      onEnrolled();
+      onClose();
+    } catch (err) {
+      toast.error(authErrorMessage(err));
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = () => {
+    // Don't leave a half-set-up factor on the account; enrollTotp also sweeps these up next time
+    if (enrollment) {
+      unenrollFactor(enrollment.factorId).catch(err => console.error('Unenroll error:', err));
+    }
+    onClose();
+  };
+
+  const copySecret = async () => {
+    if (!enrollment) return;
+    await navigator.clipboard.writeText(enrollment.secret);
+    toast.success('Setup key copied');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && !busy && handleCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Set up an authenticator app</DialogTitle>
+          <DialogDescription>
+            {enrollment
+              ? 'Scan the QR code with Google Authenticator, 1Password, Authy or a similar app, then enter the code it shows.'
+              : 'Give this authenticator a name so you can tell it apart from a backup later.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {enrollment ? (
+          <form
+            id="totp-enroll-form"
+            onSubmit={e => {
+              e.preventDefault();
+              handleVerify(code);
+            }}
+            className="space-y-4"
+          >
+            <img src={enrollment.qrCode} alt="QR code for your authenticator app" className="mx-auto h-48 w-48 rounded-xl border border-border bg-white p-2" />
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Can't scan it? Enter this setup key instead:</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 p-2 rounded-lg bg-muted text-xs font-mono break-all">{enrollment.secret}</code>
+                <button
+                  type="button"
+                  onClick={copySecret}
+                  title="Copy setup key"
+                  className="p-2 rounded-lg text-muted-foreground hover:bg-secondary transition-all"
+                >
+                  <Copy size={16} />
+                </button>
+              </div>
+            </div>
+            <TotpCodeInput value={code} onChange={setCode} onComplete={handleVerify} disabled={busy} />
+          </form>
+        ) : (
+          <form id="totp-enroll-form" onSubmit={handleStart} className="space-y-2">
+            <label className="block text-sm font-bold text-foreground">Name</label>
+            <input value={name} onChange={e => setName(e.target.value)} required maxLength={60} className={inputClassName} />
+          </form>
+        )}
+
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={handleCancel}
+            disabled={busy}
+            className="px-4 py-2 text-sm font-medium rounded-xl text-muted-foreground hover:bg-secondary transition-all disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            form="totp-enroll-form"
+            disabled={busy || (!!enrollment && code.length !== TOTP_CODE_LENGTH)}
+            className="px-4 py-2 bg-primary text-primary-foreground text-sm font-medium rounded-xl shadow-soft hover:shadow-medium transition-all flex items-center gap-2 disabled:opacity-50"
+          >
+            {busy && <Loader2 size={14} className="animate-spin" />}
+            {enrollment ? 'Verify and turn on' : 'Continue'}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
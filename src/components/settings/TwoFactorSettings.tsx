@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Factor } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+import { Loader2, Plus, ShieldCheck, ShieldOff, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { TotpEnrollDialog } from '@/components/settings/TotpEnrollDialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { authErrorMessage } from '@/lib/auth-errors';
+import { listTotpFactors, unenrollFactor } from '@/lib/mfa';
+
+export const TwoFactorSettings = () => {
+  const [factors, setFactors] = useState<Factor[] | null>(null);
+  const [enrolling, setEnrolling] = useState(false);
+  const [pendingRemove, setPendingRemove] = useState<Factor | null>(null);
+
+  const loadFactors = useCallback(async () => {
+    try {
+      setFactors(await listTotpFactors());
+    } catch (err) {
+      toast.error(`Could not load authenticators: ${authErrorMessage(err)}`);
+      setFactors([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFactors();
+  }, [loadFactors]);
+
+  const handleRemove = async () => {
+    if (!pendingRemove) return;
+    try {
+      await unenrollFactor(pendingRemove.id);
+      toast.success(`${pendingRemove.friendly_name || 'Authenticator'} removed`);
+      setFactors(prev => prev?.filter(f => f.id !== pendingRemove.id) ?? null);
+    } catch (err) {
+      toast.error(authErrorMessage(err));
+    } finally {
+      setPendingRemove(null);
+    }
+  };
+
+  const enabled = !!factors && factors.length > 0;
+
+  return (
+    <div className="mt-6 bg-white rounded-2xl shadow-xl border border-border p-8 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-foreground flex items-center gap-2">
+            {enabled ? <ShieldCheck size={20} className="text-green-600" /> : <ShieldOff size={20} className="text-muted-foreground" />}
+            Two-factor authentication
+          </h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            {enabled
+              ? 'On. Logging in and posting to social accounts need a code from one of these apps.'
+              : 'Off. Add an authenticator app so a leaked password alone cannot post to your brand accounts.'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setEnrolling(true)}
+          disabled={!factors}
+          className="shrink-0 px-4 py-2 bg-white border border-border text-foreground text-sm font-bold rounded-xl shadow-soft hover:bg-secondary transition-all flex items-center gap-2 disabled:opacity-50"
+        >
+          <Plus size={16} />
+          {enabled ? 'Add backup' : 'Set up'}
+        </button>
+      </div>
+
+      {factors === null ? (
+        <Loader2 size={20} className="animate-spin text-muted-foreground" />
+      ) : enabled && (
+        <ul className="divide-y divide-border border border-border rounded-xl">
+          {factors.map(factor => (
+            <li key={factor.id} className="flex items-center justify-between gap-4 p-3">
+              <div>
+                <p className="text-sm font-medium text-foreground">{factor.friendly_name || 'Authenticator app'}</p>
+                <p className="text-xs text-muted-foreground">Added {format(new Date(factor.created_at), 'PP')}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setPendingRemove(factor)}
+                title="Remove"
+                className="p-2 rounded-lg text-muted-foreground hover:text-red-600 hover:bg-red-50 transition-all"
+              >
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {factors?.length === 1 && (
+        <p className="text-xs text-muted-foreground">
+          Tip: add a second authenticator on another device as a backup. Without one, losing this device means an
+          administrator has to reset two-factor for you.
+        </p>
+      )}
+
+      <TotpEnrollDialog
+        open={enrolling}
+        defaultName={enabled ? 'Backup authenticator' : 'Authenticator app'}
+        onClose={() => setEnrolling(false)}
+        onEnrolled={loadFactors}
+      />
+
+      <AlertDialog open={!!pendingRemove} onOpenChange={open => !open && setPendingRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this authenticator?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {factors?.length === 1
+                ? 'This is your only authenticator, so two-factor authentication will be turned off.'
+                : `Codes from ${pendingRemove?.friendly_name || 'this app'} will stop working.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove} className="bg-red-600 hover:bg-red-700">Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
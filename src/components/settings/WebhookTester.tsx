@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Send, Trash2 } from 'lucide-react';
+import { useWebhookHistory } from '@/hooks/use-webhook-history';
+import { cn, getErrorMessage } from '@/lib/utils';
+import {
+  buildPingPayload,
+  clearWebhookHistory,
+  isSuccessful,
+  sendWebhook,
+  WEBHOOK_HISTORY_LIMIT,
+  WebhookExchange,
+  WebhookKind,
+} from '@/lib/webhooks';
+
+interface WebhookTesterProps {
+  kind: WebhookKind;
+  url: string;
+  secret: string;
+  userId?: string;
+}
+
+const prettyBody = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body || '(empty)';
+  }
+};
+
+const prettyHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n') || '(none exposed)';
+
+const StatusBadge = ({ exchange }: { exchange: WebhookExchange }) => (
+  <span
+    className={cn(
+      'px-2 py-0.5 rounded-full text-xs font-bold',
+      isSuccessful(exchange) ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+    )}
+  >
+    {exchange.response ? `${exchange.response.status} ${exchange.response.statusText}`.trim() : 'Network error'}
+  </span>
+);
+
+const ExchangeDetails = ({ exchange }: { exchange: WebhookExchange }) => (
+  <div className="space-y-2 text-xs">
+    <p className="text-muted-foreground break-all">POST {exchange.url}</p>
+    <div>
+      <p className="font-bold text-foreground">Request headers</p>
+      <pre className="mt-1 p-2 bg-muted rounded overflow-x-auto">{prettyHeaders(exchange.request.headers)}</pre>
+    </div>
+    <div>
+      <p className="font-bold text-foreground">Request body</p>
+      <pre className="mt-1 p-2 bg-muted rounded overflow-x-auto max-h-48">{prettyBody(exchange.request.body)}</pre>
+    </div>
+    {exchange.response ? (
+      <>
+        <div>
+          <p className="font-bold text-foreground">Response headers</p>
+          <pre className="mt-1 p-2 bg-muted rounded overflow-x-auto">{prettyHeaders(exchange.response.headers)}</pre>
+        </div>
+        <div>
+          <p className="font-bold text-foreground">Response body</p>
+          <pre className="mt-1 p-2 bg-muted rounded overflow-x-auto max-h-48">{prettyBody(exchange.response.body)}</pre>
+        </div>
+      </>
+    ) : (
+      <p className="text-red-600">{exchange.error}</p>
+    )}
+  </div>
+);
+
+export const WebhookTester = ({ kind, url, secret, userId }: WebhookTesterProps) => {
+  const history = useWebhookHistory(kind);
+  const [testing, setTesting] = useState(false);
+  const [lastTestId, setLastTestId] = useState<string | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+
+  const lastTest = history.find(exchange => exchange.id === lastTestId);
+
+  const handleTest = async () => {
+    setTesting(true);
+    setTestError(null);
+    try {
+      const exchange = await sendWebhook(kind, url.trim(), buildPingPayload(kind, userId), { secret });
+      setLastTestId(exchange.id);
+    } catch (err) {
+      setTestError(getErrorMessage(err));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <button
+        type="button"
+        onClick={handleTest}
+        disabled={testing || !url.trim()}
+        className="px-4 py-2 bg-white border border-border text-foreground text-sm font-bold rounded-xl shadow-soft hover:bg-secondary transition-all flex items-center gap-2 disabled:opacity-50"
+      >
+        {testing ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+        Test
+      </button>
+
+      {testError && <p className="text-sm text-red-600">{testError}</p>}
+
+      {lastTest && (
+        <div className="p-3 border border-border rounded-xl space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <StatusBadge exchange={lastTest} />
+            <span className="text-muted-foreground">{lastTest.durationMs} ms</span>
+          </div>
+          <ExchangeDetails exchange={lastTest} />
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-muted-foreground">
+            Recent requests ({history.length} of last {WEBHOOK_HISTORY_LIMIT})
+          </summary>
+          <div className="mt-2 space-y-2">
+            {history.map(exchange => (
+              <details key={exchange.id} className="p-2 border border-border rounded-lg">
+                <summary className="cursor-pointer flex flex-wrap items-center gap-2">
+                  <StatusBadge exchange={exchange} />
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(exchange.sentAt), 'MMM d, HH:mm:ss')} · {exchange.durationMs} ms
+                  </span>
+                </summary>
+                <div className="mt-2">
+                  <ExchangeDetails exchange={exchange} />
+                </div>
+              </details>
+            ))}
+            <button
+              type="button"
+              onClick={() => clearWebhookHistory(kind)}
+              className="text-xs text-muted-foreground hover:text-red-600 flex items-center gap-1"
+            >
+              <Trash2 size={12} />
+              Clear history
+            </button>
+          </div>
+        </details>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ExternalLink, Loader2, Mail, Phone, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { OrderStatusBadge } from '@/components/orders/OrderStatusSelect';
+import { CustomerOrder, formatPrice } from '@/lib/orders';
+import {
+  addTicketNote,
+  deleteTicketNote,
+  fetchTicketNotes,
+  findMatchingOrders,
+  TeamMember,
+  Ticket,
+  ticketName,
+  TicketNote,
+  TICKET_STATUS_LABELS,
+  TICKET_STATUSES,
+  TicketStatus,
+  updateTicket,
+} from '@/lib/tickets';
+import { getErrorMessage } from '@/lib/utils';
+
+interface TicketDetailProps {
+  ticket: Ticket;
+  members: TeamMember[];
+  userId: string;
+  onUpdated: (ticket: Ticket) => void;
+}
+
+const UNASSIGNED = 'unassigned';
+
+export const TicketDetail = ({ ticket, members, userId, onUpdated }: TicketDetailProps) => {
+  const [notes, setNotes] = useState<TicketNote[]>([]);
+  const [orders, setOrders] = useState<CustomerOrder[] | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  const ticketId = ticket.id;
+
+  useEffect(() => {
+    setNotes([]);
+    fetchTicketNotes(ticketId)
+      .then(setNotes)
+      .catch(err => toast.error(`Could not load notes: ${getErrorMessage(err)}`));
+  }, [ticketId]);
+
+  const phone = ticket['phone number'];
+  const name = ticket['person name'];
+
+  useEffect(() => {
+    setOrders(null);
+    findMatchingOrders(phone, name)
+      .then(setOrders)
+      .catch(err => {
+        console.error('Matching orders error:', err);
+        setOrders([]);
+      });
+  }, [phone, name]);
+
+  const applyChange = async (changes: { status?: TicketStatus; assignee_id?: string | null }) => {
+    setUpdating(true);
+    try {
+      onUpdated(await updateTicket(ticket.id, changes));
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!noteDraft.trim()) return;
+
+    setSavingNote(true);
+    try {
+      const note = await addTicketNote(ticket.id, noteDraft);
+      setNotes(prev => [...prev, note]);
+      setNoteDraft('');
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const handleDeleteNote = async (noteId: string) => {
+    try {
+      await deleteTicketNote(noteId);
+      setNotes(prev => prev.filter(n => n.id !== noteId));
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const authorEmail = (authorId: string) =>
+    authorId === userId ? 'You' : members.find(m => m.id === authorId)?.email ?? 'Former team member';
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-2xl font-bold text-foreground">{ticketName(ticket)}</h3>
+          <p className="text-sm text-muted-foreground">
+            Ticket #{ticket.id}
+            {ticket.created_at && ` · opened ${format(new Date(ticket.created_at), 'MMM d, yyyy HH:mm')}`}
+          </p>
+        </div>
+        {updating && <Loader2 size={18} className="animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm">
+        {ticket['phone number'] && (
+          <a href={`tel:${ticket['phone number']}`} className="flex items-center gap-2 text-foreground hover:text-primary">
+            <Phone size={16} />
+            {ticket['phone number']}
+          </a>
+        )}
+        {ticket.email && (
+          <a href={`mailto:${ticket.email}`} className="flex items-center gap-2 text-foreground hover:text-primary">
+            <Mail size={16} />
+            {ticket.email}
+          </a>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="block text-sm font-bold text-foreground">Status</label>
+          <Select value={ticket.status} onValueChange={value => applyChange({ status: value as TicketStatus })} disabled={updating}>
+            <SelectTrigger className="rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TICKET_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{TICKET_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="block text-sm font-bold text-foreground">Assignee</label>
+            {ticket.assignee_id !== userId && (
+              <button
+                onClick={() => applyChange({ assignee_id: userId })}
+                disabled={updating}
+                className="text-xs text-primary hover:underline disabled:opacity-50"
+              >
+                Assign to me
+              </button>
+            )}
+          </div>
+          <Select
+            value={ticket.assignee_id ?? UNASSIGNED}
+            onValueChange={value => applyChange({ assignee_id: value === UNASSIGNED ? null : value })}
+            disabled={updating}
+          >
+            <SelectTrigger className="rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {members.map(member => (
+                <SelectItem key={member.id} value={member.id}>{member.email ?? member.id}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <section className="space-y-3">
+        <h4 className="text-sm font-bold text-foreground">Matching orders</h4>
+        {orders === null ? (
+          <Loader2 size={16} className="animate-spin text-muted-foreground" />
+        ) : orders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No orders found for this phone number or name.</p>
+        ) : (
+          <ul className="space-y-2">
+            {orders.map(order => (
+              <li key={order.order_id}>
+                <Link
+                  to={`/orders?order=${encodeURIComponent(order.order_id)}`}
+                  className="flex items-center justify-between gap-3 p-3 border border-border rounded-xl hover:bg-secondary/60 transition-colors"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{order.product_order_summary || order.order_id}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {order.order_id}
+                      {order.purchase_time && ` · ${format(new Date(order.purchase_time), 'MMM d, yyyy')}`}
+                      {` · ${formatPrice(order.total_price)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <OrderStatusBadge order={order} />
+                    <ExternalLink size={14} className="text-muted-foreground" />
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h4 className="text-sm font-bold text-foreground">Internal notes</h4>
+        {notes.length === 0 && <p className="text-sm text-muted-foreground">No notes yet.</p>}
+        <ul className="space-y-2">
+          {notes.map(note => (
+            <li key={note.id} className="p-3 bg-muted rounded-xl">
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>{authorEmail(note.author_id)} · {format(new Date(note.created_at), 'MMM d, HH:mm')}</span>
+                {note.author_id === userId && (
+                  <button onClick={() => handleDeleteNote(note.id)} className="hover:text-red-600" title="Delete note">
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+              <p className="mt-1 text-sm text-foreground whitespace-pre-wrap">{note.body}</p>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAddNote} className="space-y-2">
+          <textarea
+            value={noteDraft}
+            onChange={e => setNoteDraft(e.target.value)}
+            placeholder="Add a note for the team..."
+            rows={3}
+            className="w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none text-sm"
+          />
+          <button
+            type="submit"
+            disabled={savingNote || !noteDraft.trim()}
+            className="px-4 py-2 bg-primary text-primary-foreground text-sm font-medium rounded-xl shadow-soft hover:shadow-medium transition-all flex items-center gap-2 disabled:opacity-50"
+          >
+            {savingNote && <Loader2 size={14} className="animate-spin" />}
+            Add note
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+};
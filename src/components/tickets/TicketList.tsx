@@ -0,0 +1,46 @@
+import { formatDistanceToNow } from 'date-fns';
+import { UserRound } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { TeamMember, Ticket, ticketName } from '@/lib/tickets';
+import { TicketStatusBadge } from '@/components/tickets/TicketStatusBadge';
+
+interface TicketListProps {
+  tickets: Ticket[];
+  members: TeamMember[];
+  selectedId: number | null;
+  onSelect: (ticketId: number) => void;
+}
+
+export const TicketList = ({ tickets, members, selectedId, onSelect }: TicketListProps) => (
+  <ul className="divide-y divide-border">
+    {tickets.map(ticket => {
+      const assignee = members.find(m => m.id === ticket.assignee_id);
+      return (
+        <li key={ticket.id}>
+          <button
+            onClick={() => onSelect(ticket.id)}
+            className={cn(
+              'w-full text-left px-4 py-3 transition-colors hover:bg-secondary/60',
+              ticket.id === selectedId && 'bg-secondary'
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-bold text-foreground truncate">{ticketName(ticket)}</span>
+              <TicketStatusBadge status={ticket.status} />
+            </div>
+            <p className="text-xs text-muted-foreground truncate mt-0.5">
+              {[ticket['phone number'], ticket.email].filter(Boolean).join(' · ') || 'No contact details'}
+            </p>
+            <div className="flex items-center justify-between gap-2 mt-1 text-xs text-muted-foreground">
+              <span>#{ticket.id}{ticket.created_at && ` · ${formatDistanceToNow(new Date(ticket.created_at), { addSuffix: true })}`}</span>
+              <span className="flex items-center gap-1 truncate">
+                <UserRound size={12} />
+                {assignee?.email ?? 'Unassigned'}
+              </span>
+            </div>
+          </button>
+        </li>
+      );
+    })}
+  </ul>
+);
@@ -0,0 +1,14 @@
+import { cn } from '@/lib/utils';
+import { TICKET_STATUS_LABELS, TicketStatus } from '@/lib/tickets';
+
+const STATUS_STYLES: Record<TicketStatus, string> = {
+  open: 'bg-blue-100 text-blue-700',
+  pending: 'bg-amber-100 text-amber-700',
+  resolved: 'bg-green-100 text-green-700',
+};
+
+export const TicketStatusBadge = ({ status }: { status: string }) => (
+  <span className={cn('px-2 py-0.5 rounded-full text-xs font-bold', STATUS_STYLES[status as TicketStatus] ?? 'bg-muted text-muted-foreground')}>
+    {TICKET_STATUS_LABELS[status as TicketStatus] ?? status}
+  </span>
+);
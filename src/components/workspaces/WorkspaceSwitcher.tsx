@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Check, ChevronsUpDown, Loader2, Mail, Plus, Settings2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useAppContext } from '@/hooks/use-app-context';
+import { cn, getErrorMessage } from '@/lib/utils';
+import {
+  acceptInvite,
+  createWorkspace,
+  declineInvite,
+  fetchMyInvites,
+  WORKSPACE_ROLE_LABELS,
+  WorkspaceInvite,
+} from '@/lib/workspaces';
+
+// Header control for changing, creating and joining workspaces
+export const WorkspaceSwitcher = () => {
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const { session, workspace, workspaces, switchWorkspace, reloadWorkspaces } = useAppContext();
+  const [open, setOpen] = useState(false);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [newName, setNewName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const email = session.user.email;
+
+  const loadInvites = useCallback(async () => {
+    if (!email) return;
+    try {
+      setInvites(await fetchMyInvites(email));
+    } catch (err) {
+      console.error('Load invites error:', err);
+    }
+  }, [email]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const choose = (workspaceId: string) => {
+    switchWorkspace(workspaceId);
+    setOpen(false);
+    // A post page belongs to the workspace being left
+    if (pathname.startsWith('/posts/')) navigate('/dashboard');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setBusy(true);
+    try {
+      const created = await createWorkspace(newName);
+      await reloadWorkspaces();
+      setNewName('');
+      choose(created.id);
+      toast.success(`Created ${created.name}`);
+    } catch (err) {
+      toast.error(`Could not create the workspace: ${getErrorMessage(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = async (invite: WorkspaceInvite, accept: boolean) => {
+    setBusy(true);
+    try {
+      if (accept) {
+        const workspaceId = await acceptInvite(invite.id);
+        await reloadWorkspaces();
+        choose(workspaceId);
+        toast.success(`Joined ${invite.workspaces?.name ?? 'the workspace'}`);
+      } else {
+        await declineInvite(invite.id);
+      }
+      setInvites(prev => prev.filter(i => i.id !== invite.id));
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={isOpen => {
+      setOpen(isOpen);
+      if (isOpen) loadInvites();
+    }}>
+      <PopoverTrigger asChild>
+        <button
+          className="relative px-4 py-2.5 rounded-xl font-medium transition-all flex items-center gap-2 text-muted-foreground hover:text-foreground hover:bg-secondary max-w-[220px]"
+          title="Switch workspace"
+        >
+          <Users size={18} className="shrink-0" />
+          <span className="truncate">{workspace.name}</span>
+          <ChevronsUpDown size={14} className="shrink-0" />
+          {invites.length > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center">
+              {invites.length}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-2">
+        <p className="px-2 py-1 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Workspaces</p>
+        <div className="max-h-64 overflow-y-auto">
+          {workspaces.map(w => (
+            <button
+              key={w.id}
+              onClick={() => choose(w.id)}
+              className={cn(
+                'w-full px-2 py-2 rounded-lg text-left text-sm flex items-center gap-2 hover:bg-secondary transition-colors',
+                w.id === workspace.id && 'font-semibold'
+              )}
+            >
+              <Check size={14} className={cn('shrink-0', w.id === workspace.id ? 'text-primary' : 'invisible')} />
+              <span className="flex-1 truncate">{w.name}</span>
+              <span className="text-xs text-muted-foreground">{WORKSPACE_ROLE_LABELS[w.role]}</span>
+            </button>
+          ))}
+        </div>
+
+        {invites.length > 0 && (
+          <div className="mt-2 pt-2 border-t border-border space-y-1">
+            <p className="px-2 py-1 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Invites</p>
+            {invites.map(invite => (
+              <div key={invite.id} className="px-2 py-2 rounded-lg bg-muted/50 space-y-2">
+                <p className="text-sm flex items-center gap-2">
+                  <Mail size={14} className="shrink-0 text-primary" />
+                  <span className="truncate">
+                    {invite.workspaces?.name ?? 'A workspace'} as {WORKSPACE_ROLE_LABELS[invite.role].toLowerCase()}
+                  </span>
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleInvite(invite, true)}
+                    disabled={busy}
+                    className="flex-1 py-1.5 bg-primary text-primary-foreground text-xs font-medium rounded-lg disabled:opacity-50"
+                  >
+                    Join
+                  </button>
+                  <button
+                    onClick={() => handleInvite(invite, false)}
+                    disabled={busy}
+                    className="flex-1 py-1.5 bg-white border border-border text-xs font-medium rounded-lg hover:bg-secondary disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-2 pt-2 border-t border-border space-y-1">
+          <form onSubmit={handleCreate} className="flex gap-2 px-1">
+            <input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="New workspace name"
+              className="flex-1 min-w-0 px-2 py-1.5 border border-border rounded-lg bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none text-sm"
+            />
+            <button
+              type="submit"
+              disabled={busy || !newName.trim()}
+              title="Create workspace"
+              className="p-2 rounded-lg bg-white border border-border hover:bg-secondary transition-colors disabled:opacity-50"
+            >
+              {busy ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+            </button>
+          </form>
+          <button
+            onClick={() => {
+              setOpen(false);
+              navigate('/workspace');
+            }}
+            className="w-full px-2 py-2 rounded-lg text-left text-sm flex items-center gap-2 hover:bg-secondary transition-colors"
+          >
+            <Settings2 size={14} />
+            Members and invites
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import type { VideoSource } from '@/lib/data-source';
+import type { AppSettings } from '@/lib/settings';
+import type { Workspace } from '@/lib/workspaces';
+
+// State shared by every page rendered inside AppLayout
+export interface AppContextValue {
+  session: Session;
+  userId: string;
+  settings: AppSettings;
+  setSettings: (settings: AppSettings) => void;
+  videoSource: VideoSource;
+  // The workspace whose posts every page shows, with the user's role in it
+  workspace: Workspace;
+  workspaces: Workspace[];
+  switchWorkspace: (workspaceId: string) => void;
+  reloadWorkspaces: () => Promise<void>;
+}
+
+export const AppContext = createContext<AppContextValue | null>(null);
+
+export function useAppContext(): AppContextValue {
+  const value = useContext(AppContext);
+  if (!value) {
+    throw new Error('useAppContext must be used inside AppLayout');
+  }
+  return value;
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { Session } from '@supabase/supabase-js';
+
+export interface AuthContextValue {
+  session: Session | null;
+  // True until the stored session has been read, so guards don't redirect too early
+  loading: boolean;
+  // Signed in with a password or link but still owes an authenticator code (AAL1 with MFA enrolled)
+  mfaRequired: boolean;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth(): AuthContextValue {
+  const value = useContext(AuthContext);
+  if (!value) {
+    throw new Error('useAuth must be used inside AuthProvider');
+  }
+  return value;
+}
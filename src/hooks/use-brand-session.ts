@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import type { VideoSource } from '@/lib/data-source';
+
+/**
+ * The session the user holds in a brand project, if any. Always null for this
+ * app's own project, whose session comes from useAuth.
+ */
+export function useBrandSession(source: VideoSource | null) {
+  const [session, setSession] = useState<Session | null>(null);
+
+  const client = source?.client;
+  const isCustomProject = !!source?.isCustomProject;
+
+  useEffect(() => {
+    setSession(null);
+    if (!client || !isCustomProject) return;
+
+    let cancelled = false;
+    client.auth.getSession().then(({ data }) => {
+      if (!cancelled) setSession(data.session);
+    });
+    const { data: { subscription } } = client.auth.onAuthStateChange((_event, next) => setSession(next));
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [client, isCustomProject]);
+
+  return session;
+}
@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Tables } from '@/integrations/supabase/types';
+import type { VideoSource } from '@/lib/data-source';
+
+export type CommentChange = RealtimePostgresChangesPayload<Tables<'post_comments'>>;
+
+/**
+ * Subscribes to the comment thread of one post while it is open. As with posts,
+ * delete events can't be filtered and arrive for every comment.
+ */
+export function useCommentRealtime(source: VideoSource, videoId: number | null, onChange: (change: CommentChange) => void) {
+  const handlerRef = useRef(onChange);
+  handlerRef.current = onChange;
+
+  const { client } = source;
+
+  useEffect(() => {
+    if (!videoId) return;
+
+    const handle = (change: CommentChange) => handlerRef.current(change);
+    const channel = client
+      .channel(`post_comments:${videoId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'post_comments', filter: `video_id=eq.${videoId}` }, handle)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'post_comments', filter: `video_id=eq.${videoId}` }, handle)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'post_comments' }, handle)
+      .subscribe();
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  }, [client, videoId]);
+}
@@ -0,0 +1,195 @@
+import { toast } from 'sonner';
+import { useAppContext } from '@/hooks/use-app-context';
+import { isApprovedToPost, reviewPost as submitReview, ReviewAction } from '@/lib/approvals';
+import { BRAND_PROJECT_SIGN_IN } from '@/lib/data-source';
+import { assertHashtagLimits } from '@/lib/hashtags';
+import { assertPostingAssurance } from '@/lib/mfa';
+import { assertPlatformTextLimits, platformTextPayload } from '@/lib/platform-text';
+import { errorColumn, Platform, PlatformPostStatus, PLATFORMS, scheduledColumn, statusColumn } from '@/lib/platforms';
+import { PostRevision, restoreRevision as restorePostRevision } from '@/lib/revisions';
+import { getWebhookTarget } from '@/lib/settings';
+import { getErrorMessage } from '@/lib/utils';
+import { VideoPost, writtenRow } from '@/lib/videos';
+import { isSuccessful, sendWebhook } from '@/lib/webhooks';
+
+export type EditableVideoFields = Pick<VideoPost, 'post_title' | 'caption' | 'hashtag' | 'platform_overrides'>;
+
+/**
+ * Writes to one post shared by the dashboard and the single post page.
+ * `onChanged` mirrors every successful or optimistic write into the caller's state.
+ */
+export function usePostActions(onChanged: (videoId: number, changes: Partial<VideoPost>) => void) {
+  const { settings, videoSource } = useAppContext();
+
+  const assertWritable = () => {
+    if (!videoSource.writable) throw new Error(BRAND_PROJECT_SIGN_IN);
+  };
+
+  const setPlatformStatuses = async (videoId: number, platforms: Platform[], status: PlatformPostStatus, error: string | null) => {
+    assertWritable();
+    const changes: Partial<VideoPost> = {};
+    platforms.forEach(platform => {
+      changes[statusColumn(platform)] = status;
+      changes[errorColumn(platform)] = error;
+    });
+
+    const { data, error: updateError } = await videoSource.client
+      .from(videoSource.table)
+      .update(changes)
+      .eq('id', videoId)
+      .select('id');
+
+    if (updateError) throw updateError;
+    writtenRow(data, 'change');
+
+    onChanged(videoId, changes);
+  };
+
+  // Sends one post request to n8n; throws so single and bulk callers can report failures their own way
+  const postToSocials = async (video: VideoPost, platforms: Platform[]) => {
+    // Use Post webhook if configured, otherwise fall back to Generate webhook
+    assertWritable();
+
+    const webhook = getWebhookTarget(settings, 'post');
+
+    if (!webhook.url) {
+      throw new Error('Please configure at least one n8n webhook in Settings');
+    }
+
+    if (platforms.length === 0) {
+      throw new Error('Select at least one platform to post to');
+    }
+
+    if (!video.video_url) {
+      throw new Error('Media is still processing');
+    }
+
+    if (!isApprovedToPost(video)) {
+      throw new Error('This post needs approval before it can go live');
+    }
+
+    assertHashtagLimits(video, platforms);
+    assertPlatformTextLimits(video, platforms);
+
+    await assertPostingAssurance();
+
+    // The database refuses this for unapproved posts, which stops us before the webhook fires
+    await setPlatformStatuses(video.id, platforms, 'posting', null);
+
+    try {
+      console.log('Sending to n8n webhook (Post to Socials):', webhook.url, platforms);
+
+      // platform_text holds the title and caption each platform should get, with any per-platform versions applied
+      const payload = { ...video, platforms, platform_text: platformTextPayload(video, platforms) };
+      const exchange = await sendWebhook('post', webhook.url, payload, { secret: webhook.secret });
+
+      if (!isSuccessful(exchange)) throw new Error(`Failed to post to socials (${exchange.response.status})`);
+    } catch (err) {
+      await setPlatformStatuses(video.id, platforms, 'failed', getErrorMessage(err))
+        .catch(statusError => console.error('Status update error:', statusError));
+      throw err;
+    }
+  };
+
+  const handlePostToSocials = async (video: VideoPost, platforms: Platform[]) => {
+    try {
+      await postToSocials(video, platforms);
+      const labels = PLATFORMS.filter(p => platforms.includes(p.id)).map(p => p.label).join(', ');
+      toast.success(`Posting to ${labels}...`);
+    } catch (err) {
+      console.error('Post to socials error:', err);
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  // Resolves to whether it saved, so the schedule popover can stay open after a failure
+  const schedulePost = async (video: VideoPost, platforms: Platform[], at: Date | null) => {
+    const changes: Partial<VideoPost> = {};
+    platforms.forEach(platform => {
+      changes[scheduledColumn(platform)] = at ? at.toISOString() : null;
+      changes[statusColumn(platform)] = at ? 'scheduled' : 'pending';
+      changes[errorColumn(platform)] = null;
+    });
+
+    try {
+      assertWritable();
+      if (at && !isApprovedToPost(video)) {
+        throw new Error('This post needs approval before it can be scheduled');
+      }
+      if (at) {
+        assertHashtagLimits(video, platforms);
+        assertPlatformTextLimits(video, platforms);
+      }
+
+      // A scheduled post goes out unattended, so it needs the same assurance as posting now
+      if (at) await assertPostingAssurance();
+
+      const { data, error } = await videoSource.client
+        .from(videoSource.table)
+        .update(changes)
+        .eq('id', video.id)
+        .select('id');
+
+      if (error) throw error;
+      writtenRow(data, 'change');
+
+      onChanged(video.id, changes);
+      toast.success(at ? 'Post scheduled' : 'Schedule cancelled');
+      return true;
+    } catch (err) {
+      console.error('Schedule error:', err);
+      toast.error(getErrorMessage(err));
+      return false;
+    }
+  };
+
+  const updateVideoField = async <F extends keyof EditableVideoFields>(videoId: number, field: F, value: EditableVideoFields[F]) => {
+    try {
+      assertWritable();
+      const { data, error } = await videoSource.client
+        .from(videoSource.table)
+        .update({ [field]: value })
+        .eq('id', videoId)
+        .select();
+
+      if (error) throw error;
+
+      // The saved row, so a content edit that sent the post back to draft shows at once
+      onChanged(videoId, writtenRow(data, 'change') as VideoPost);
+      toast.success('Updated successfully');
+    } catch (err) {
+      console.error('Update error:', err);
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  // Throws so the review panel can keep an unsent comment
+  const reviewPost = async (video: VideoPost, action: ReviewAction, comment?: string) => {
+    assertWritable();
+    const status = await submitReview(videoSource, video.id, action, comment);
+    onChanged(video.id, { approval_status: status });
+    return status;
+  };
+
+  // Throws so the history panel can report the failure next to the version
+  const restoreRevision = async (videoId: number, revision: PostRevision) => {
+    assertWritable();
+    const value = await restorePostRevision(videoSource, revision.id);
+    onChanged(videoId, { [revision.field]: value });
+  };
+
+  // Throws so bulk deletes can collect failures; callers drop the post from their own state
+  const removeVideo = async (videoId: number) => {
+    assertWritable();
+    const { data, error } = await videoSource.client
+      .from(videoSource.table)
+      .delete()
+      .eq('id', videoId)
+      .select('id');
+
+    if (error) throw error;
+    writtenRow(data, 'delete');
+  };
+
+  return { postToSocials, handlePostToSocials, schedulePost, updateVideoField, reviewPost, restoreRevision, removeVideo };
+}
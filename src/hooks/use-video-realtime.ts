@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+import type { VideoSource } from '@/lib/data-source';
+import type { VideoChange } from '@/lib/videos';
+
+/**
+ * Subscribes to insert/update/delete events on the configured posts table for one workspace.
+ *
+ * Delete events cannot be filtered by Supabase Realtime, so they arrive for every
+ * row; callers only drop ids they already hold, which keeps this harmless.
+ */
+export function useVideoRealtime(source: VideoSource, workspaceId: string | undefined, onChange: (change: VideoChange) => void) {
+  const handlerRef = useRef(onChange);
+  handlerRef.current = onChange;
+
+  const { client, table, isCustomProject } = source;
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    // Brand projects don't have this app's workspaces, so every change there applies
+    const filter = isCustomProject ? undefined : `workspace_id=eq.${workspaceId}`;
+    const handle = (change: VideoChange) => handlerRef.current(change);
+    const channel = client
+      .channel(`${table}:${workspaceId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, handle)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, handle)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, handle)
+      .subscribe();
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  }, [client, table, isCustomProject, workspaceId]);
+}
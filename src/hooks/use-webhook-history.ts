@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { getWebhookHistory, onWebhookHistoryChange, WebhookExchange, WebhookKind } from '@/lib/webhooks';
+
+export function useWebhookHistory(kind: WebhookKind): WebhookExchange[] {
+  const [history, setHistory] = useState(() => getWebhookHistory(kind));
+
+  useEffect(() => {
+    setHistory(getWebhookHistory(kind));
+    return onWebhookHistoryChange(() => setHistory(getWebhookHistory(kind)));
+  }, [kind]);
+
+  return history;
+}
@@ -16,27 +16,44 @@ export type Database = {
     Tables: {
       create_ticket: {
         Row: {
+          assignee_id: string | null
           created_at: string | null
           email: string | null
           id: number
           "person name": string | null
           "phone number": string | null
+          status: string
+          updated_at: string
         }
         Insert: {
+          assignee_id?: string | null
           created_at?: string | null
           email?: string | null
           id?: number
           "person name"?: string | null
           "phone number"?: string | null
+          status?: string
+          updated_at?: string
         }
         Update: {
+          assignee_id?: string | null
           created_at?: string | null
           email?: string | null
           id?: number
           "person name"?: string | null
           "phone number"?: string | null
+          status?: string
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "create_ticket_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       customer_orders: {
         Row: {
@@ -80,18 +97,91 @@ export type Database = {
       documents: {
         Row: {
           content: string | null
+          embedding: string | null
           id: number
+          metadata: Json | null
         }
         Insert: {
           content?: string | null
+          embedding?: string | null
           id?: number
+          metadata?: Json | null
         }
         Update: {
           content?: string | null
+          embedding?: string | null
           id?: number
+          metadata?: Json | null
         }
         Relationships: []
       }
+      generation_jobs: {
+        Row: {
+          completed_at: string | null
+          error: string | null
+          id: string
+          n8n_response: Json | null
+          request_payload: Json
+          started_at: string | null
+          state: string
+          submitted_at: string
+          type: string
+          user_id: string
+          video_id: number | null
+          workspace_id: string | null
+        }
+        Insert: {
+          completed_at?: string | null
+          error?: string | null
+          id?: string
+          n8n_response?: Json | null
+          request_payload: Json
+          started_at?: string | null
+          state?: string
+          submitted_at?: string
+          type: string
+          user_id?: string
+          video_id?: number | null
+          workspace_id?: string | null
+        }
+        Update: {
+          completed_at?: string | null
+          error?: string | null
+          id?: string
+          n8n_response?: Json | null
+          request_payload?: Json
+          started_at?: string | null
+          state?: string
+          submitted_at?: string
+          type?: string
+          user_id?: string
+          video_id?: number | null
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generation_jobs_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "social_media_videos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generation_jobs_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       n8n_chat_histories: {
         Row: {
           id: number
@@ -110,24 +200,230 @@ export type Database = {
         }
         Relationships: []
       }
+      post_approvals: {
+        Row: {
+          action: string
+          actor_id: string | null
+          comment: string | null
+          created_at: string
+          from_status: string
+          id: string
+          to_status: string
+          video_id: number
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          comment?: string | null
+          created_at?: string
+          from_status: string
+          id?: string
+          to_status: string
+          video_id: number
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          comment?: string | null
+          created_at?: string
+          from_status?: string
+          id?: string
+          to_status?: string
+          video_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_approvals_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_approvals_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "social_media_videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_comment_reads: {
+        Row: {
+          last_read_at: string
+          user_id: string
+          video_id: number
+        }
+        Insert: {
+          last_read_at?: string
+          user_id?: string
+          video_id: number
+        }
+        Update: {
+          last_read_at?: string
+          user_id?: string
+          video_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_comment_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_comment_reads_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "social_media_videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_comments: {
+        Row: {
+          author_id: string | null
+          body: string
+          created_at: string
+          id: string
+          mentions: string[]
+          resolved_at: string | null
+          resolved_by: string | null
+          video_id: number
+          video_time: number | null
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          video_id: number
+          video_time?: number | null
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          video_id?: number
+          video_time?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_comments_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_comments_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "social_media_videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_revisions: {
+        Row: {
+          author_id: string | null
+          created_at: string
+          field: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          restored_from: string | null
+          source: string
+          video_id: number
+        }
+        Insert: {
+          author_id?: string | null
+          created_at?: string
+          field: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          restored_from?: string | null
+          source: string
+          video_id: number
+        }
+        Update: {
+          author_id?: string | null
+          created_at?: string
+          field?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          restored_from?: string | null
+          source?: string
+          video_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_revisions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_revisions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "post_revisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_revisions_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "social_media_videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       Products: {
         Row: {
+          created_at: string
           Id: number
           "Product code": string | null
           "Product Image URLs": string | null
           "product page link": string | null
+          product_description: string | null
+          product_name: string | null
         }
         Insert: {
-          Id: number
+          created_at?: string
+          Id?: number
           "Product code"?: string | null
           "Product Image URLs"?: string | null
           "product page link"?: string | null
+          product_description?: string | null
+          product_name?: string | null
         }
         Update: {
+          created_at?: string
           Id?: number
           "Product code"?: string | null
           "Product Image URLs"?: string | null
           "product page link"?: string | null
+          product_description?: string | null
+          product_name?: string | null
         }
         Relationships: []
       }
@@ -151,39 +447,91 @@ export type Database = {
       }
       social_media_videos: {
         Row: {
+          approval_status: string
           caption: string | null
+          facebook_post_error: string | null
           facebook_post_status: string | null
+          facebook_posted_at: string | null
+          facebook_scheduled_at: string | null
+          generation_job_id: string | null
           hashtag: string | null
           id: number
+          instagram_post_error: string | null
           instagram_post_status: string | null
+          instagram_posted_at: string | null
+          instagram_scheduled_at: string | null
+          media_type: string | null
+          platform_overrides: Json
           post_title: string | null
+          search_vector: unknown
           user_id: string | null
           video_url: string | null
+          workspace_id: string | null
+          youtube_post_error: string | null
           youtube_post_status: string | null
+          youtube_posted_at: string | null
+          youtube_scheduled_at: string | null
         }
         Insert: {
+          approval_status?: string
           caption?: string | null
+          facebook_post_error?: string | null
           facebook_post_status?: string | null
+          facebook_posted_at?: string | null
+          facebook_scheduled_at?: string | null
+          generation_job_id?: string | null
           hashtag?: string | null
           id: number
+          instagram_post_error?: string | null
           instagram_post_status?: string | null
+          instagram_posted_at?: string | null
+          instagram_scheduled_at?: string | null
+          media_type?: never
+          platform_overrides?: Json
           post_title?: string | null
+          search_vector?: never
           user_id?: string | null
           video_url?: string | null
+          workspace_id?: string | null
+          youtube_post_error?: string | null
           youtube_post_status?: string | null
+          youtube_posted_at?: string | null
+          youtube_scheduled_at?: string | null
         }
         Update: {
+          approval_status?: string
           caption?: string | null
+          facebook_post_error?: string | null
           facebook_post_status?: string | null
+          facebook_posted_at?: string | null
+          facebook_scheduled_at?: string | null
+          generation_job_id?: string | null
           hashtag?: string | null
           id?: number
+          instagram_post_error?: string | null
           instagram_post_status?: string | null
+          instagram_posted_at?: string | null
+          instagram_scheduled_at?: string | null
+          media_type?: never
+          platform_overrides?: Json
           post_title?: string | null
+          search_vector?: never
           user_id?: string | null
           video_url?: string | null
+          workspace_id?: string | null
+          youtube_post_error?: string | null
           youtube_post_status?: string | null
+          youtube_posted_at?: string | null
+          youtube_scheduled_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "social_media_videos_generation_job_id_fkey"
+            columns: ["generation_job_id"]
+            isOneToOne: false
+            referencedRelation: "generation_jobs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "social_media_videos_user_id_fkey"
             columns: ["user_id"]
@@ -191,6 +539,229 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "social_media_videos_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      support_agents: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "support_agents_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_notes: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          ticket_id: number
+        }
+        Insert: {
+          author_id?: string
+          body: string
+          created_at?: string
+          id?: string
+          ticket_id: number
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          ticket_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_notes_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_notes_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "create_ticket"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_settings: {
+        Row: {
+          created_at: string
+          n8n_generate_secret: string
+          n8n_generate_webhook: string
+          n8n_post_secret: string
+          n8n_post_webhook: string
+          supabase_key: string
+          supabase_url: string
+          table_name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          n8n_generate_secret?: string
+          n8n_generate_webhook?: string
+          n8n_post_secret?: string
+          n8n_post_webhook?: string
+          supabase_key?: string
+          supabase_url?: string
+          table_name?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          n8n_generate_secret?: string
+          n8n_generate_webhook?: string
+          n8n_post_secret?: string
+          n8n_post_webhook?: string
+          supabase_key?: string
+          supabase_url?: string
+          table_name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_settings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_invites: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          role: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          role: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invites_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_invites_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspaces_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -198,6 +769,37 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_workspace_invite: {
+        Args: { invite_id: string }
+        Returns: string
+      }
+      chat_sessions: {
+        Args: { max_sessions?: number; search?: string }
+        Returns: {
+          first_message_id: number
+          last_message: Json
+          last_message_id: number
+          message_count: number
+          session_id: string
+        }[]
+      }
+      create_workspace: {
+        Args: { workspace_name: string }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+        }
+      }
+      has_workspace_role: {
+        Args: { allowed_roles: string[]; target_workspace: string }
+        Returns: boolean
+      }
+      is_support_agent: {
+        Args: never
+        Returns: boolean
+      }
       match_documents: {
         Args: { filter?: Json; match_count?: number; query_embedding: string }
         Returns: {
@@ -207,6 +809,37 @@ export type Database = {
           similarity: number
         }[]
       }
+      popular_hashtags: {
+        Args: { max_tags?: number; target_workspace: string }
+        Returns: {
+          tag: string
+          uses: number
+        }[]
+      }
+      restore_post_revision: {
+        Args: { revision_id: string }
+        Returns: string
+      }
+      review_post: {
+        Args: { post_id: number; review_action: string; review_comment?: string }
+        Returns: string
+      }
+      shares_workspace_with: {
+        Args: { other_user: string }
+        Returns: boolean
+      }
+      unread_comment_counts: {
+        Args: { video_ids: number[] }
+        Returns: {
+          mentioned: boolean
+          unread: number
+          video_id: number
+        }[]
+      }
+      workspace_role: {
+        Args: { target_workspace: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
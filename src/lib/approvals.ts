@@ -0,0 +1,73 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { VideoSource } from '@/lib/data-source';
+import type { VideoPost } from '@/lib/videos';
+import { can, WorkspaceRole } from '@/lib/workspaces';
+
+export const APPROVAL_STATUSES = ['draft', 'in_review', 'approved', 'published'] as const;
+export type ApprovalStatus = (typeof APPROVAL_STATUSES)[number];
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  published: 'Published',
+};
+
+// Arguments to the review_post database function
+export type ReviewAction = 'submit' | 'approve' | 'request_changes';
+
+export type ApprovalEvent = Tables<'post_approvals'> & {
+  action: 'submitted' | 'approved' | 'changes_requested' | 'reopened' | 'published';
+  profiles: { email: string | null } | null;
+};
+
+// Reads as "<who> <label>" in the post's history
+export const APPROVAL_EVENT_LABELS: Record<ApprovalEvent['action'], string> = {
+  submitted: 'submitted it for review',
+  approved: 'approved it',
+  changes_requested: 'requested changes',
+  reopened: 'edited it, so it needs approving again',
+  published: 'published it',
+};
+
+export const getApprovalStatus = (video: VideoPost): ApprovalStatus => video.approval_status ?? 'draft';
+
+// Posting and scheduling stay locked until a reviewer signs off
+export const isApprovedToPost = (video: VideoPost) => {
+  const status = getApprovalStatus(video);
+  return status === 'approved' || status === 'published';
+};
+
+// Mirrors the checks in review_post
+export const availableReviewActions = (video: VideoPost, role: WorkspaceRole): ReviewAction[] => {
+  if (!video.video_url) return [];
+  const status = getApprovalStatus(video);
+  const actions: ReviewAction[] = [];
+  if (status === 'draft' && can(role, 'editPosts')) actions.push('submit');
+  if ((status === 'draft' || status === 'in_review') && can(role, 'reviewPosts')) actions.push('approve');
+  if ((status === 'in_review' || status === 'approved') && can(role, 'reviewPosts')) actions.push('request_changes');
+  return actions;
+};
+
+export const reviewPost = async ({ client }: VideoSource, videoId: number, action: ReviewAction, comment?: string) => {
+  const { data, error } = await client.rpc('review_post', {
+    post_id: videoId,
+    review_action: action,
+    review_comment: comment?.trim() || undefined,
+  });
+
+  if (error) throw error;
+  return data as ApprovalStatus;
+};
+
+// Newest first
+export const fetchApprovalHistory = async ({ client }: VideoSource, videoId: number) => {
+  const { data, error } = await client
+    .from('post_approvals')
+    .select('*, profiles(email)')
+    .eq('video_id', videoId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as ApprovalEvent[];
+};
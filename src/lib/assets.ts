@@ -0,0 +1,21 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const AD_ASSETS_BUCKET = 'ad-assets';
+
+// Uploads to the public ad-assets bucket and returns the URL n8n downloads the file from
+export const uploadAdAsset = async (file: File) => {
+  const fileName = `${Date.now()}_${file.name}`;
+  const { error } = await supabase.storage
+    .from(AD_ASSETS_BUCKET)
+    .upload(fileName, file);
+
+  if (error) {
+    throw new Error(`Upload failed: ${error.message}`);
+  }
+
+  const { data: { publicUrl } } = supabase.storage
+    .from(AD_ASSETS_BUCKET)
+    .getPublicUrl(fileName);
+
+  return publicUrl;
+};
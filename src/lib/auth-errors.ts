@@ -0,0 +1,63 @@
+import { isAuthError } from '@supabase/supabase-js';
+import { getErrorMessage } from '@/lib/utils';
+
+// Supabase auth error codes we can explain better than the raw message does
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  invalid_credentials: 'Wrong email or password.',
+  email_not_confirmed: 'Confirm your email address before logging in. We can send the confirmation email again.',
+  user_already_exists: 'An account with this email already exists. Log in instead, or reset your password.',
+  email_exists: 'An account with this email already exists. Log in instead, or reset your password.',
+  user_not_found: 'No account uses this email address.',
+  weak_password: 'That password is too weak. Use at least 8 characters with a mix of letters, numbers and symbols.',
+  same_password: 'The new password must be different from your current one.',
+  email_address_invalid: 'That email address is not valid.',
+  email_address_not_authorized: 'Emails cannot be sent to this address. Contact your administrator.',
+  otp_expired: 'This email link has expired or was already used. Request a new one.',
+  otp_disabled: 'No account can log in with a link for this address. Sign up first, or log in with your password.',
+  signup_disabled: 'New sign-ups are disabled. Ask an administrator to invite you.',
+  user_banned: 'This account has been suspended. Contact your administrator.',
+  over_email_send_rate_limit: 'Too many emails sent. Wait a minute before asking for another one.',
+  over_request_rate_limit: 'Too many attempts. Wait a minute and try again.',
+  session_expired: 'Your session has expired. Log in again.',
+  session_not_found: 'Your session has expired. Log in again.',
+  refresh_token_not_found: 'Your session has expired. Log in again.',
+  flow_state_expired: 'This email link has expired. Request a new one.',
+  reauthentication_needed: 'Log in again before changing your password.',
+  insufficient_aal: 'Enter a code from your authenticator app first.',
+  mfa_verification_failed: 'That code is not right. Codes change every 30 seconds, so use the one on screen now.',
+  mfa_challenge_expired: 'The code expired before it was checked. Enter the current one.',
+  mfa_factor_name_conflict: 'You already have an authenticator with that name. Pick another name.',
+  mfa_factor_not_found: 'That authenticator was removed. Reload the page and try again.',
+  mfa_totp_enroll_not_enabled: 'Authenticator apps are turned off for this project.',
+  mfa_totp_verify_not_enabled: 'Authenticator apps are turned off for this project.',
+  too_many_enrolled_mfa_factors: 'You have reached the limit of authenticators. Remove one before adding another.',
+};
+
+export const authErrorCode = (error: unknown) => (isAuthError(error) ? error.code : undefined);
+
+/** Turns a Supabase auth error into a sentence a client can act on. */
+export const authErrorMessage = (error: unknown) => {
+  const code = authErrorCode(error);
+  if (code && AUTH_ERROR_MESSAGES[code]) {
+    return AUTH_ERROR_MESSAGES[code];
+  }
+  if (isAuthError(error) && error.status === 429) {
+    return AUTH_ERROR_MESSAGES.over_request_rate_limit;
+  }
+  if (error instanceof TypeError) {
+    return 'Could not reach the server. Check your connection and try again.';
+  }
+  return getErrorMessage(error);
+};
+
+/**
+ * Errors from email links arrive in the URL (hash for implicit flow, query for
+ * PKCE), e.g. #error=access_denied&error_code=otp_expired&error_description=...
+ */
+export const readAuthUrlError = (location: { hash: string; search: string }) => {
+  const params = new URLSearchParams(location.hash.replace(/^#/, '') || location.search);
+  const code = params.get('error_code');
+  const description = params.get('error_description');
+  if (!code && !description) return null;
+  return (code && AUTH_ERROR_MESSAGES[code]) || description || 'This email link is not valid.';
+};
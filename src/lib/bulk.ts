@@ -0,0 +1,74 @@
+import JSZip from 'jszip';
+import { getErrorMessage } from '@/lib/utils';
+import type { VideoPost } from '@/lib/videos';
+
+export interface BulkResult {
+  id: number;
+  label: string;
+  ok: boolean;
+  error?: string;
+}
+
+export const videoLabel = (video: VideoPost) => video.post_title || `Post #${video.id}`;
+
+export const mediaExtension = (url: string) =>
+  url.match(/\.(jpg|jpeg|png|gif|webp|mp4|mov)$/i)?.[1] || 'mp4';
+
+export const mediaFilename = (video: VideoPost) => `ad_${video.id}.${mediaExtension(video.video_url ?? '')}`;
+
+// Runs one at a time so a bulk action never floods n8n or Supabase.
+export const runBulk = async (videos: VideoPost[], action: (video: VideoPost) => Promise<void>): Promise<BulkResult[]> => {
+  const results: BulkResult[] = [];
+  for (const video of videos) {
+    try {
+      await action(video);
+      results.push({ id: video.id, label: videoLabel(video), ok: true });
+    } catch (err) {
+      results.push({ id: video.id, label: videoLabel(video), ok: false, error: getErrorMessage(err) });
+    }
+  }
+  return results;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Fetches every post's media into one ZIP. Posts still processing are reported as failures.
+export const downloadMediaZip = async (videos: VideoPost[]): Promise<BulkResult[]> => {
+  const zip = new JSZip();
+
+  const results = await runBulk(videos, async video => {
+    if (!video.video_url) throw new Error('Media is still processing');
+    const response = await fetch(video.video_url);
+    if (!response.ok) throw new Error(`Download failed (${response.status})`);
+    zip.file(mediaFilename(video), await response.blob());
+  });
+
+  if (results.some(r => r.ok)) {
+    const archive = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(archive, `ad_media_${new Date().toISOString().slice(0, 10)}.zip`);
+  }
+
+  return results;
+};
+
+// Replace one tag everywhere it appears, or the whole hashtag string when no tag is given.
+export const replaceHashtags = (current: string | null, find: string, replacement: string) => {
+  const target = find.trim();
+  if (!target) return replacement.trim();
+
+  const normalized = target.startsWith('#') ? target : `#${target}`;
+  const escaped = normalized.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return (current ?? '')
+    .replace(new RegExp(`${escaped}(?![\\w])`, 'gi'), replacement.trim())
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+};
@@ -0,0 +1,103 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { VideoSource } from '@/lib/data-source';
+import type { WorkspaceMember } from '@/lib/workspaces';
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+export type PostComment = Tables<'post_comments'> & {
+  author: { email: string | null } | null;
+};
+
+export interface UnreadComments {
+  unread: number;
+  // At least one of the unread comments mentions the signed-in user
+  mentioned: boolean;
+}
+
+// Two foreign keys point at profiles, so the author join has to name its key
+const COMMENT_COLUMNS = '*, author:profiles!post_comments_author_id_fkey(email)';
+
+// 75 -> "1:15"
+export const formatVideoTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "@email" as a whole word: after a space or the start, and not running on into a longer
+// address, so "@al@example.com.au" doesn't also mention al@example.com
+const mentionPattern = (email: string) => new RegExp(`(?:^|\\s)@${escapeRegExp(email)}(?![\\w@+-]|\\.[\\w-])`, 'i');
+
+// Members whose "@email" still appears in the text; mentions picked and then deleted don't count
+export const findMentions = (body: string, members: WorkspaceMember[]) =>
+  members.filter(m => m.profiles?.email && mentionPattern(m.profiles.email).test(body));
+
+// Oldest first, as a conversation reads
+export const fetchComments = async ({ client }: VideoSource, videoId: number) => {
+  const { data, error } = await client
+    .from('post_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('video_id', videoId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data as PostComment[];
+};
+
+export const addComment = async (
+  { client }: VideoSource,
+  comment: { videoId: number; body: string; mentions: string[]; videoTime: number | null },
+) => {
+  const { data, error } = await client
+    .from('post_comments')
+    .insert({
+      video_id: comment.videoId,
+      body: comment.body.trim(),
+      mentions: comment.mentions,
+      video_time: comment.videoTime,
+    })
+    .select(COMMENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as PostComment;
+};
+
+export const setCommentResolved = async ({ client }: VideoSource, commentId: string, resolved: boolean) => {
+  const { error } = await client
+    .from('post_comments')
+    .update({ resolved_at: resolved ? new Date().toISOString() : null })
+    .eq('id', commentId);
+
+  if (error) throw error;
+};
+
+export const deleteComment = async ({ client }: VideoSource, commentId: string) => {
+  const { error } = await client
+    .from('post_comments')
+    .delete()
+    .eq('id', commentId);
+
+  if (error) throw error;
+};
+
+export const markCommentsRead = async ({ client }: VideoSource, videoId: number) => {
+  const { error } = await client
+    .from('post_comment_reads')
+    .upsert({ video_id: videoId, last_read_at: new Date().toISOString() }, { onConflict: 'user_id,video_id' });
+
+  if (error) throw error;
+};
+
+// Posts without unread comments are left out
+export const fetchUnreadComments = async ({ client }: VideoSource, videoIds: number[]) => {
+  if (videoIds.length === 0) return {};
+
+  const { data, error } = await client.rpc('unread_comment_counts', { video_ids: videoIds });
+  if (error) throw error;
+
+  return Object.fromEntries(
+    data.map(row => [row.video_id, { unread: row.unread, mentioned: row.mentioned }]),
+  ) as Record<number, UnreadComments>;
+};
@@ -0,0 +1,195 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import type { Ticket } from '@/lib/tickets';
+
+export type ChatSession = Database['public']['Functions']['chat_sessions']['Returns'][number];
+
+export type ChatRole = 'human' | 'ai' | 'system' | 'tool' | 'unknown';
+
+export interface ToolCall {
+  id: string | null;
+  name: string;
+  args: Json;
+}
+
+export interface ChatMessage {
+  id: number;
+  role: ChatRole;
+  content: string;
+  toolCalls: ToolCall[];
+  // Set on tool results: the tool that produced them
+  toolName: string | null;
+  raw: Json;
+  // True when the stored message could not be read as a LangChain message
+  malformed: boolean;
+}
+
+export const CHAT_SESSION_LIMIT = 100;
+// A transcript longer than this is almost certainly a bot loop; show the latest turns
+export const CHAT_MESSAGE_LIMIT = 500;
+
+export const CHAT_ROLE_LABELS: Record<ChatRole, string> = {
+  human: 'Customer',
+  ai: 'Assistant',
+  system: 'System',
+  tool: 'Tool',
+  unknown: 'Unknown',
+};
+
+const ROLE_ALIASES: Record<string, ChatRole> = {
+  human: 'human',
+  user: 'human',
+  humanmessage: 'human',
+  ai: 'ai',
+  assistant: 'ai',
+  aimessage: 'ai',
+  system: 'system',
+  systemmessage: 'system',
+  tool: 'tool',
+  function: 'tool',
+  toolmessage: 'tool',
+  functionmessage: 'tool',
+};
+
+const isRecord = (value: unknown): value is Record<string, Json> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Content is either a string or a list of parts like { type: 'text', text: '...' }
+const readContent = (content: Json | undefined): string | null => {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (typeof part === 'string' ? part : isRecord(part) && typeof part.text === 'string' ? part.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return null;
+};
+
+const readToolCalls = (value: Json | undefined): ToolCall[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isRecord).map(call => {
+    // OpenAI-style calls nest the name and JSON-encoded arguments under "function"
+    const fn = isRecord(call.function) ? call.function : null;
+    let args: Json = call.args ?? fn?.arguments ?? null;
+    if (typeof args === 'string') {
+      try {
+        args = JSON.parse(args);
+      } catch {
+        // Keep the raw string; it is still worth showing
+      }
+    }
+    return {
+      id: typeof call.id === 'string' ? call.id : null,
+      name: String(call.name ?? fn?.name ?? 'tool'),
+      args,
+    };
+  });
+};
+
+/**
+ * Reads one n8n chat memory row. LangChain has stored messages flat
+ * ({ type, content, tool_calls }), wrapped ({ type, data: { content } }) and
+ * serialized ({ lc, id: [..., 'HumanMessage'], kwargs }); some rows hold the
+ * JSON as a string. Anything else is kept as a malformed message instead of throwing.
+ */
+export const parseChatMessage = (id: number, raw: Json): ChatMessage => {
+  let value: Json = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      value = null;
+    }
+  }
+
+  if (!isRecord(value)) {
+    return { id, role: 'unknown', content: typeof raw === 'string' ? raw : '', toolCalls: [], toolName: null, raw, malformed: true };
+  }
+
+  const serializedName = Array.isArray(value.id) ? value.id[value.id.length - 1] : null;
+  const body = isRecord(value.kwargs) ? value.kwargs : isRecord(value.data) ? value.data : value;
+  const typeName = String(typeof serializedName === 'string' ? serializedName : value.type ?? value.role ?? body.type ?? body.role ?? '');
+  const role = ROLE_ALIASES[typeName.toLowerCase()] ?? 'unknown';
+  const content = readContent(body.content);
+  const additional = isRecord(body.additional_kwargs) ? body.additional_kwargs : {};
+  const toolCalls = readToolCalls(body.tool_calls ?? additional.tool_calls);
+
+  return {
+    id,
+    role,
+    content: content ?? '',
+    toolCalls,
+    toolName: role === 'tool' && typeof body.name === 'string' ? body.name : null,
+    raw,
+    malformed: role === 'unknown' || (content === null && toolCalls.length === 0),
+  };
+};
+
+export const messagePreview = (raw: Json) => {
+  const message = parseChatMessage(0, raw);
+  if (message.malformed) return 'Unreadable message';
+  if (!message.content && message.toolCalls.length) {
+    return `Called ${message.toolCalls.map(call => call.name).join(', ')}`;
+  }
+  return `${CHAT_ROLE_LABELS[message.role]}: ${message.content}`;
+};
+
+export const fetchChatSessions = async (search: string) => {
+  const { data, error } = await supabase.rpc('chat_sessions', {
+    search: search.trim(),
+    max_sessions: CHAT_SESSION_LIMIT,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchChatMessages = async (sessionId: string) => {
+  const { data, error } = await supabase
+    .from('n8n_chat_histories')
+    .select('id, message')
+    .eq('session_id', sessionId)
+    .order('id', { ascending: false })
+    .limit(CHAT_MESSAGE_LIMIT);
+
+  if (error) throw error;
+  return data.reverse().map(row => parseChatMessage(row.id, row.message));
+};
+
+/**
+ * Finds the customer's phone number for linking to tickets and orders. WhatsApp
+ * sessions are keyed by the number ("447700900123", "whatsapp:+44...",
+ * "447700900123@s.whatsapp.net"); otherwise fall back to a phone argument the
+ * bot passed to one of its tools, e.g. when it opened a ticket.
+ */
+export const conversationPhone = (sessionId: string, messages: ChatMessage[]) => {
+  const fromSession = sessionId.trim().match(/^(?:whatsapp:)?\+?(\d{7,15})(?:@.*)?$/i);
+  if (fromSession) return fromSession[1];
+
+  for (const call of messages.flatMap(m => m.toolCalls)) {
+    if (!isRecord(call.args)) continue;
+    const entry = Object.entries(call.args).find(([key, value]) => /phone/i.test(key) && value);
+    if (entry) return String(entry[1]);
+  }
+  return null;
+};
+
+/**
+ * Ticket phone numbers are free text. Matching the last nine digits ignores
+ * country codes and trunk zeros; numbers typed with spaces will not match.
+ */
+export const findConversationTickets = async (phone: string | null): Promise<Ticket[]> => {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  if (digits.length < 7) return [];
+
+  const { data, error } = await supabase
+    .from('create_ticket')
+    .select('*')
+    .ilike('phone number', `%${digits.slice(-9)}%`)
+    .order('created_at', { ascending: false, nullsFirst: false })
+    .limit(20);
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,44 @@
+export const CREATE_TABS = ['reels', 'product', 'ugc'] as const;
+export type CreateTab = (typeof CREATE_TABS)[number];
+
+export const isCreateTab = (value: string | undefined): value is CreateTab => CREATE_TABS.includes(value as CreateTab);
+
+// Text fields of the Create Ad form, saved on every change so they survive a
+// session expiring mid-edit and the trip through /auth. Uploaded files are never persisted.
+export interface CreateFormDraft {
+  activeTab: CreateTab;
+  prompt: string;
+  productName: string;
+  productDescription: string;
+  aspectRatio: 'Portrait' | 'Landscape';
+  productId: number | null;
+  productImageUrl: string | null;
+}
+
+export const EMPTY_CREATE_FORM: CreateFormDraft = {
+  activeTab: 'reels',
+  prompt: '',
+  productName: '',
+  productDescription: '',
+  aspectRatio: 'Portrait',
+  productId: null,
+  productImageUrl: null,
+};
+
+const STORAGE_KEY = 'createAdFormData';
+
+export const loadCreateFormDraft = (): CreateFormDraft => {
+  try {
+    return { ...EMPTY_CREATE_FORM, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return EMPTY_CREATE_FORM;
+  }
+};
+
+export const saveCreateFormDraft = (draft: CreateFormDraft) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(draft));
+};
+
+export const clearCreateFormDraft = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
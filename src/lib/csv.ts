@@ -0,0 +1,30 @@
+import { downloadBlob } from '@/lib/bulk';
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]) =>
+  [
+    columns.map(column => escapeCell(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escapeCell(column.value(row))).join(',')),
+  ].join('\r\n');
+
+export const downloadCsv = <T>(rows: T[], columns: CsvColumn<T>[], filename: string) => {
+  // The BOM makes Excel read the file as UTF-8
+  const blob = new Blob(['\uFEFF', toCsv(rows, columns)], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, filename);
+};
@@ -0,0 +1,157 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { DEFAULT_SETTINGS, type AppSettings } from '@/lib/settings';
+import { can, WorkspaceRole } from '@/lib/workspaces';
+
+/**
+ * Where posts are read from and written to. Agencies keep one Supabase project
+ * per brand, so the client and table can come from the user's settings and fall
+ * back to this app's own project.
+ *
+ * A session from this app means nothing to another project's RLS, so a brand
+ * project starts out read with its anon key. Signing in to the brand project
+ * with an account of its own makes its posts writable, and from then on that
+ * project's RLS and triggers decide what the account may do.
+ */
+export interface VideoSource {
+  client: SupabaseClient<Database>;
+  // Typed as the known table so queries keep their row types. Only a brand project can use
+  // another name, and testVideoSource checks that its table has the columns that are read.
+  table: 'social_media_videos';
+  isCustomProject: boolean;
+  // Always true for this app's project; a brand project needs a session of its own
+  writable: boolean;
+}
+
+export const BRAND_PROJECT_SIGN_IN = "Sign in to the brand project in Settings to change its posts.";
+
+const BRAND_STORAGE_PREFIX = 'adgen-brand-';
+
+/**
+ * The role the post actions are offered for. Workspace roles belong to this
+ * app's project, so in a signed-in brand project every action is offered and
+ * its own RLS refuses what the account isn't allowed to do.
+ */
+export const postRole = (source: VideoSource, role: WorkspaceRole): WorkspaceRole => {
+  if (!source.isCustomProject) return role;
+  return source.writable ? 'owner' : 'viewer';
+};
+
+// Whether the role may edit posts and the source accepts the writes
+export const canEditPosts = (source: VideoSource, role: WorkspaceRole) => can(postRole(source, role), 'editPosts');
+
+// Every column the dashboard reads or writes. Brand projects need the same migrations applied.
+export const EXPECTED_VIDEO_COLUMNS = [
+  'id',
+  'user_id',
+  'workspace_id',
+  'video_url',
+  'post_title',
+  'caption',
+  'hashtag',
+  'media_type',
+  'search_vector',
+  'youtube_post_status',
+  'instagram_post_status',
+  'facebook_post_status',
+  'youtube_post_error',
+  'instagram_post_error',
+  'facebook_post_error',
+  'youtube_scheduled_at',
+  'instagram_scheduled_at',
+  'facebook_scheduled_at',
+  'youtube_posted_at',
+  'instagram_posted_at',
+  'facebook_posted_at',
+  'approval_status',
+  'platform_overrides',
+];
+
+const customClients = new Map<string, SupabaseClient<Database>>();
+
+const getCustomClient = (url: string, key: string) => {
+  const cacheKey = `${url}|${key}`;
+  let client = customClients.get(cacheKey);
+  if (!client) {
+    // Kept apart from this app's session so signing in to a brand project doesn't sign anyone out here
+    client = createClient<Database>(url, key, {
+      auth: { persistSession: true, autoRefreshToken: true, storageKey: `${BRAND_STORAGE_PREFIX}${url}` },
+    });
+    customClients.set(cacheKey, client);
+  }
+  return client;
+};
+
+export const getVideoSource = (settings: AppSettings): VideoSource => {
+  const url = settings.supabaseUrl.trim();
+  const key = settings.supabaseKey.trim();
+  const isCustomProject = !!url && !!key;
+
+  return {
+    client: isCustomProject ? getCustomClient(url, key) : supabase,
+    // This project's triggers, functions and scheduler are all written against social_media_videos
+    table: isCustomProject ? (settings.tableName.trim() || DEFAULT_SETTINGS.tableName) as 'social_media_videos' : 'social_media_videos',
+    isCustomProject,
+    writable: !isCustomProject,
+  };
+};
+
+export const signInToBrandProject = async ({ client }: VideoSource, email: string, password: string) => {
+  const { error } = await client.auth.signInWithPassword({ email: email.trim(), password });
+  if (error) throw error;
+};
+
+export const signOutOfBrandProject = async ({ client }: VideoSource) => {
+  const { error } = await client.auth.signOut({ scope: 'local' });
+  if (error) throw error;
+};
+
+// Brand sessions live in this browser, so they end with the app's session rather than passing to the next user
+export const forgetBrandSessions = () => {
+  customClients.forEach(client => {
+    client.auth.signOut({ scope: 'local' }).catch(err => console.error('Brand sign-out error:', err));
+  });
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(BRAND_STORAGE_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Checks that the configured project is reachable and the table has every
+ * expected column. Throws with a message suitable for showing to the user.
+ */
+export const testVideoSource = async (settings: AppSettings) => {
+  const url = settings.supabaseUrl.trim();
+  const key = settings.supabaseKey.trim();
+  if (!!url !== !!key) {
+    throw new Error('Enter both the Supabase URL and the anon key, or leave both empty to use the default project.');
+  }
+
+  if (url && !/^https?:\/\/\S+$/.test(url)) {
+    throw new Error('The Supabase URL must start with https://');
+  }
+
+  const { client, table } = getVideoSource(settings);
+
+  const { error } = await client.from(table).select(EXPECTED_VIDEO_COLUMNS.join(',')).limit(1);
+  if (!error) return;
+
+  if (/Failed to fetch|NetworkError|fetch failed|Load failed/i.test(error.message)) {
+    throw new Error(`Could not reach ${url || 'the Supabase project'}. Check the URL.`);
+  }
+
+  if (error.code === '42P01' || error.code === 'PGRST205' || /relation .* does not exist|Could not find the table/i.test(error.message)) {
+    throw new Error(`Table "${table}" was not found in this project.`);
+  }
+  if (error.code === '42703' || /column .* does not exist/i.test(error.message)) {
+    const column = error.message.match(/column (?:\S+\.)?"?([\w]+)"? does not exist/i)?.[1];
+    throw new Error(column
+      ? `Table "${table}" is missing the "${column}" column. Apply this app's migrations to the project.`
+      : `Table "${table}" is missing expected columns: ${error.message}`);
+  }
+  if (error.message === 'Invalid API key' || error.code === '401' || /JWT|apikey/i.test(error.message)) {
+    throw new Error('The Supabase anon key was rejected.');
+  }
+  throw new Error(`Connection test failed: ${error.message}`);
+};
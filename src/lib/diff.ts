@@ -0,0 +1,64 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Beyond this many word pairs the table gets slow, so the diff falls back to old-then-new
+const MAX_CELLS = 250_000;
+
+// Words and the whitespace between them, so joining the tokens gives back the text
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+// Merges neighbouring parts of the same type so the output renders as few spans as possible
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff of two texts using a longest common subsequence table.
+ * Removed parts come before the added parts that replace them.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  if (a.length * b.length > MAX_CELLS) {
+    if (before) push(parts, 'removed', before);
+    if (after) push(parts, 'added', after);
+    return parts;
+  }
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(parts, 'removed', a[i++]);
+    } else {
+      push(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) push(parts, 'removed', a[i++]);
+  while (j < b.length) push(parts, 'added', b[j++]);
+
+  return parts;
+};
@@ -0,0 +1,101 @@
+// Must match the documents.embedding column and the model the n8n vector store uses
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export type EmbeddingProviderId = 'local-stub' | 'openai';
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  label: string;
+  embed: (text: string) => Promise<number[]>;
+}
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderId;
+  openaiApiKey: string;
+  openaiModel: string;
+}
+
+export const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfig = {
+  provider: 'local-stub',
+  openaiApiKey: '',
+  openaiModel: 'text-embedding-3-small',
+};
+
+const normalize = (vector: number[]) => {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length ? vector.map(value => value / length) : vector;
+};
+
+// FNV-1a, so the same token always lands in the same dimension
+const hashToken = (token: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic bag-of-words embedding for offline testing. Texts sharing words
+ * score as similar, but the vectors are unrelated to the ones the bot stores,
+ * so only compare stub queries against documents saved with the stub.
+ */
+export const localStubProvider: EmbeddingProvider = {
+  id: 'local-stub',
+  label: 'Local stub (offline)',
+  embed: async text => {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    tokens.forEach(token => {
+      const hash = hashToken(token);
+      vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+    });
+    return normalize(vector);
+  },
+};
+
+export const createOpenAIProvider = (apiKey: string, model: string): EmbeddingProvider => ({
+  id: 'openai',
+  label: `OpenAI (${model})`,
+  embed: async text => {
+    if (!apiKey) {
+      throw new Error('Add an OpenAI API key to use OpenAI embeddings.');
+    }
+
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({ model, input: text, dimensions: EMBEDDING_DIMENSIONS }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`OpenAI embedding failed (${response.status}): ${body?.error?.message ?? response.statusText}`);
+    }
+
+    const { data } = await response.json();
+    return data[0].embedding as number[];
+  },
+});
+
+export const getEmbeddingProvider = (config: EmbeddingConfig): EmbeddingProvider =>
+  config.provider === 'openai' ? createOpenAIProvider(config.openaiApiKey.trim(), config.openaiModel.trim()) : localStubProvider;
+
+// The API key stays in this browser only; it is never written to Supabase
+const STORAGE_KEY = 'embeddingConfig';
+
+export const loadEmbeddingConfig = (): EmbeddingConfig => {
+  try {
+    return { ...DEFAULT_EMBEDDING_CONFIG, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_EMBEDDING_CONFIG;
+  }
+};
+
+export const saveEmbeddingConfig = (config: EmbeddingConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+// pgvector accepts the JSON array text form
+export const toVectorLiteral = (vector: number[]) => JSON.stringify(vector);
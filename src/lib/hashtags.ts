@@ -0,0 +1,128 @@
+import type { VideoSource } from '@/lib/data-source';
+import { Platform, PLATFORMS } from '@/lib/platforms';
+import type { VideoPost } from '@/lib/videos';
+
+export interface PopularHashtag {
+  tag: string;
+  uses: number;
+}
+
+export interface HashtagIssue {
+  platform: Platform | null;
+  // Errors block posting to the platform; warnings only inform
+  level: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Limits the platforms put on hashtags. Going over them fails the post or makes
+ * the platform ignore the tags, so posting is stopped before it gets that far.
+ */
+export const HASHTAG_LIMITS: Partial<Record<Platform, { maxTags: number; maxTotalLength?: number }>> = {
+  // Instagram rejects captions with more than 30 hashtags
+  instagram: { maxTags: 30 },
+  // YouTube ignores every hashtag on a video with more than 60, and caps the tags field at 500 characters
+  youtube: { maxTags: 60, maxTotalLength: 500 },
+};
+
+// Letters, digits and underscores in any script; everything else ends a hashtag on every platform
+const TAG_CHARS = /[^\p{L}\p{N}_]/gu;
+
+// "#Summer-Sale!" -> "SummerSale"; null when nothing usable is left
+export const normalizeHashtag = (input: string) => {
+  const tag = input.replace(TAG_CHARS, '');
+  return tag ? tag : null;
+};
+
+/**
+ * Reads whatever n8n or a person wrote into the hashtag column, whether
+ * "#a #b", "a, b" or "#a#b", into tags without the "#". Duplicates that only
+ * differ in case are dropped, keeping the first.
+ */
+export const parseHashtags = (raw: string | null | undefined): string[] => {
+  const seen = new Set<string>();
+  return (raw ?? '')
+    .split(/[\s,#]+/)
+    .map(normalizeHashtag)
+    .filter((tag): tag is string => {
+      if (!tag || seen.has(tag.toLowerCase())) return false;
+      seen.add(tag.toLowerCase());
+      return true;
+    });
+};
+
+// The canonical form saved to the row: "#a #b", or null for no tags
+export const formatHashtags = (tags: string[]) => tags.length > 0 ? tags.map(tag => `#${tag}`).join(' ') : null;
+
+// Platforms count hashtags written into the description too, so limits apply to both together
+export const combinedHashtags = (tags: string[], caption: string | null | undefined) =>
+  parseHashtags([formatHashtags(tags) ?? '', ...(caption?.match(/#[\p{L}\p{N}_]+/gu) ?? [])].join(' '));
+
+export const checkHashtags = (tags: string[], platforms: Platform[]): HashtagIssue[] => {
+  const issues: HashtagIssue[] = [];
+
+  PLATFORMS.filter(p => platforms.includes(p.id)).forEach(({ id, label }) => {
+    const limits = HASHTAG_LIMITS[id];
+    if (!limits) return;
+
+    if (tags.length > limits.maxTags) {
+      issues.push({
+        platform: id,
+        level: 'error',
+        message: id === 'youtube'
+          ? `YouTube ignores all hashtags on a video with more than ${limits.maxTags}. Remove ${tags.length - limits.maxTags}.`
+          : `${label} allows at most ${limits.maxTags} hashtags. Remove ${tags.length - limits.maxTags}.`,
+      });
+    }
+
+    // Counted the way YouTube counts its tags field: the tags plus a comma between each
+    const totalLength = tags.reduce((sum, tag) => sum + tag.length, 0) + Math.max(tags.length - 1, 0);
+    if (limits.maxTotalLength && totalLength > limits.maxTotalLength) {
+      issues.push({
+        platform: id,
+        level: 'error',
+        message: `${label} tags can be ${limits.maxTotalLength} characters in total; these are ${totalLength}.`,
+      });
+    }
+  });
+
+  if (platforms.includes('youtube') && tags.length > 3) {
+    issues.push({ platform: 'youtube', level: 'warning', message: 'Only the first 3 hashtags show above the YouTube title. Drag the most important ones to the front.' });
+  }
+
+  const numeric = tags.filter(tag => /^\p{N}+$/u.test(tag));
+  if (numeric.length > 0) {
+    issues.push({
+      platform: null,
+      level: 'warning',
+      message: `Hashtags made only of digits don't become links: ${numeric.map(tag => `#${tag}`).join(', ')}.`,
+    });
+  }
+
+  return issues;
+};
+
+// Throws the first limit the post breaks on the given platforms
+export const assertHashtagLimits = (video: VideoPost, platforms: Platform[]) => {
+  const error = checkHashtags(combinedHashtags(parseHashtags(video.hashtag), video.caption), platforms)
+    .find(issue => issue.level === 'error');
+  if (error) throw new Error(error.message);
+};
+
+const popularCache = new Map<string, Promise<PopularHashtag[]>>();
+
+// Tags from the workspace's earlier posts, most used first. Fetched once per workspace per session.
+export const fetchPopularHashtags = ({ client }: VideoSource, workspaceId: string) => {
+  let request = popularCache.get(workspaceId);
+  if (!request) {
+    request = (async () => {
+      const { data, error } = await client.rpc('popular_hashtags', { target_workspace: workspaceId });
+      if (error) throw error;
+      return data;
+    })();
+    // Don't cache a failure, so the next focus tries again
+    request.catch(() => popularCache.delete(workspaceId));
+    popularCache.set(workspaceId, request);
+  }
+  return request;
+};
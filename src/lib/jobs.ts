@@ -0,0 +1,37 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type GenerationJob = Tables<'generation_jobs'>;
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type JobType = 'reels' | 'product' | 'ugc';
+
+// What Create Ad sends to the n8n generate webhook, also kept on the job as request_payload
+export type GenerationPayload = {
+  type: JobType;
+  prompt: string;
+  aspect_ratio: 'Portrait' | 'Landscape';
+  user_id: string;
+  workspace_id: string;
+  // Product Image sends image_url; the ad types send the product fields instead
+  image_url?: string;
+  product_name?: string;
+  product_description?: string;
+  product_image_url?: string;
+  product_id?: number;
+  job_id?: string;
+};
+
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+  reels: 'Product Image',
+  product: 'Product Ad',
+  ugc: 'UGC Ad',
+};
+
+// n8n renders usually finish within a few minutes; anything still open after
+// this long has most likely died inside the workflow without reporting back.
+export const STALE_JOB_MINUTES = 30;
+
+export const isJobStale = (job: GenerationJob, now = Date.now()) =>
+  (job.state === 'queued' || job.state === 'running') &&
+  now - new Date(job.submitted_at).getTime() > STALE_JOB_MINUTES * 60 * 1000;
@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { EmbeddingProvider, toVectorLiteral } from '@/lib/embeddings';
+import { assertSupportAgent } from '@/lib/support';
+
+// Embeddings are large and never shown, so documents are loaded without them
+export type KnowledgeDocument = Pick<Tables<'documents'>, 'id' | 'content' | 'metadata'>;
+
+export interface DocumentMatch {
+  id: number;
+  content: string;
+  metadata: Json;
+  similarity: number;
+}
+
+export const DOCUMENT_FETCH_LIMIT = 100;
+
+const KNOWLEDGE_READ_ONLY = 'Only the support team can change the knowledge base.';
+
+export const fetchDocuments = async (search: string) => {
+  let request = supabase
+    .from('documents')
+    .select('id, content, metadata', { count: 'exact' });
+
+  if (search.trim()) {
+    request = request.ilike('content', `%${search.trim()}%`);
+  }
+
+  const { data, count, error } = await request
+    .order('id', { ascending: false })
+    .limit(DOCUMENT_FETCH_LIMIT);
+
+  if (error) throw error;
+  return { documents: data, total: count ?? 0 };
+};
+
+/**
+ * Parses the metadata editor's text. Metadata must be a JSON object because
+ * match_documents filters with `metadata @> filter`.
+ */
+export const parseMetadata = (text: string): Record<string, Json> => {
+  if (!text.trim()) return {};
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Metadata is not valid JSON.');
+  }
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Metadata must be a JSON object, e.g. {"source": "faq"}.');
+  }
+  return value as Record<string, Json>;
+};
+
+export const formatMetadata = (metadata: Json | null) =>
+  metadata && typeof metadata === 'object' && Object.keys(metadata).length ? JSON.stringify(metadata, null, 2) : '';
+
+/**
+ * Creates a document, or updates the given one. Only new or changed content is
+ * embedded, so a metadata edit keeps the vector the bot already retrieves by.
+ * The local stub's vectors mean nothing to the bot, so it never writes one.
+ * Only support agents may write, which is checked before paying for an embedding.
+ */
+export const saveDocument = async (
+  provider: EmbeddingProvider,
+  content: string,
+  metadata: Record<string, Json>,
+  document?: KnowledgeDocument | null
+) => {
+  const text = content.trim();
+  if (!text) {
+    throw new Error('A document needs some content.');
+  }
+  await assertSupportAgent(KNOWLEDGE_READ_ONLY);
+
+  const needsEmbedding = !document || text !== document.content;
+  if (needsEmbedding && provider.id === 'local-stub') {
+    throw new Error(`${provider.label} embeddings would break the bot's search. Choose OpenAI under Embeddings to add or change content.`);
+  }
+
+  const row = needsEmbedding
+    ? { content: text, metadata, embedding: toVectorLiteral(await provider.embed(text)) }
+    : { metadata };
+
+  const request = document
+    ? supabase.from('documents').update(row).eq('id', document.id)
+    : supabase.from('documents').insert({ ...row, content: text });
+
+  const { data, error } = await request.select('id, content, metadata').single();
+  if (error) throw error;
+  return data;
+};
+
+export const deleteDocument = async (documentId: number) => {
+  await assertSupportAgent(KNOWLEDGE_READ_ONLY);
+
+  const { error } = await supabase
+    .from('documents')
+    .delete()
+    .eq('id', documentId);
+
+  if (error) throw error;
+};
+
+export const matchDocuments = async (
+  provider: EmbeddingProvider,
+  query: string,
+  matchCount: number,
+  filter: Record<string, Json>
+): Promise<DocumentMatch[]> => {
+  const embedding = await provider.embed(query);
+
+  const { data, error } = await supabase.rpc('match_documents', {
+    query_embedding: toVectorLiteral(embedding),
+    match_count: matchCount,
+    filter,
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,76 @@
+import type { Factor } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export const TOTP_CODE_LENGTH = 6;
+
+// Shown as the account name in authenticator apps
+const TOTP_ISSUER = 'AdGen Studio';
+
+export interface TotpEnrollment {
+  factorId: string;
+  // SVG data URL, ready for an <img>
+  qrCode: string;
+  // Same key as the QR code, for typing into an app by hand
+  secret: string;
+}
+
+/**
+ * True when the user has a verified factor but the current session was opened
+ * with a password or email link only, so it's still at AAL1.
+ */
+export async function fetchMfaRequired(): Promise<boolean> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+  return data.nextLevel === 'aal2' && data.currentLevel !== 'aal2';
+}
+
+// Verified TOTP factors, read from the server rather than the cached session
+export async function listTotpFactors(): Promise<Factor[]> {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) throw error;
+  return data.totp;
+}
+
+export async function enrollTotp(friendlyName: string): Promise<TotpEnrollment> {
+  // Closing the setup dialog early leaves an unverified factor behind; clear those so names don't clash
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) throw listError;
+  for (const factor of factors.all) {
+    if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+      await unenrollFactor(factor.id);
+    }
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName, issuer: TOTP_ISSUER });
+  if (error) throw error;
+  return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+}
+
+// Verifying also upgrades the session to AAL2, which AuthProvider picks up from the auth event
+export async function verifyTotp(factorId: string, code: string) {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+  if (error) throw error;
+}
+
+export async function unenrollFactor(factorId: string) {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) throw error;
+}
+
+/**
+ * Posting publishes to brand accounts, so it double-checks with the server in
+ * case MFA was turned on from another tab since this session started. The
+ * require_posting_assurance trigger refuses the status write otherwise.
+ */
+export async function assertPostingAssurance() {
+  const factors = await listTotpFactors();
+  if (factors.length === 0) return;
+
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+  if (data.currentLevel === 'aal2') return;
+
+  // Refreshing loads the new factor into the session, so RequireAuth sends the user to the code prompt
+  await supabase.auth.refreshSession();
+  throw new Error('Enter a code from your authenticator app before posting.');
+}
@@ -0,0 +1,184 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CustomerOrder = Tables<'customer_orders'>;
+
+export const ORDER_STATUSES = ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled', 'returned'] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  returned: 'Returned',
+};
+
+// Which statuses an order may move to next. Cancelled and returned orders are final.
+// The enforce_order_status_transition trigger holds the database to the same table.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['shipped', 'cancelled'],
+  shipped: ['delivered', 'returned'],
+  delivered: ['returned'],
+  cancelled: [],
+  returned: [],
+};
+
+// The order bot writes statuses as free text; anything unrecognised is treated as pending
+export const normalizeOrderStatus = (value: string | null): OrderStatus => {
+  const status = value?.trim().toLowerCase();
+  if (status === 'canceled') return 'cancelled';
+  return ORDER_STATUSES.includes(status as OrderStatus) ? (status as OrderStatus) : 'pending';
+};
+
+export const nextOrderStatuses = (order: CustomerOrder) => ORDER_TRANSITIONS[normalizeOrderStatus(order.order_status)];
+
+export const validateStatusTransition = (order: CustomerOrder, to: OrderStatus) => {
+  const from = normalizeOrderStatus(order.order_status);
+  if (!ORDER_TRANSITIONS[from].includes(to)) {
+    throw new Error(`A ${ORDER_STATUS_LABELS[from].toLowerCase()} order cannot be marked ${ORDER_STATUS_LABELS[to].toLowerCase()}.`);
+  }
+};
+
+export type OrderSortColumn = 'purchase_time' | 'person_name' | 'total_price' | 'quantity' | 'order_status';
+
+export interface OrderQuery {
+  status: OrderStatus | 'all';
+  payment: string;
+  from: string;
+  to: string;
+  sort: OrderSortColumn;
+  dir: 'asc' | 'desc';
+}
+
+export const DEFAULT_ORDER_QUERY: OrderQuery = {
+  status: 'all',
+  payment: 'all',
+  from: '',
+  to: '',
+  sort: 'purchase_time',
+  dir: 'desc',
+};
+
+// More rows than this belong in a proper export from the database
+export const ORDER_FETCH_LIMIT = 500;
+
+const SORT_COLUMNS: OrderSortColumn[] = ['purchase_time', 'person_name', 'total_price', 'quantity', 'order_status'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+export const parseOrderQuery = (params: URLSearchParams): OrderQuery => {
+  const from = params.get('from') ?? '';
+  const to = params.get('to') ?? '';
+  return {
+    status: pick(params.get('status'), ['all', ...ORDER_STATUSES], 'all'),
+    payment: params.get('payment') || 'all',
+    from: DATE_PATTERN.test(from) ? from : '',
+    to: DATE_PATTERN.test(to) ? to : '',
+    sort: pick(params.get('sort'), SORT_COLUMNS, 'purchase_time'),
+    dir: pick(params.get('dir'), ['asc', 'desc'], 'desc'),
+  };
+};
+
+// Only non-default values go into the URL so shared links stay short.
+export const toOrderSearchParams = (query: OrderQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  (Object.keys(DEFAULT_ORDER_QUERY) as (keyof OrderQuery)[]).forEach(key => {
+    if (query[key] !== DEFAULT_ORDER_QUERY[key] && query[key] !== '') {
+      params.set(key, query[key]);
+    }
+  });
+  return params;
+};
+
+// Matches a stored status the way normalizeOrderStatus reads it: any case, ignoring
+// surrounding spaces. Quoted because the pattern holds PostgREST separators.
+const statusPattern = (status: string) => `"^[[:space:]]*${status}[[:space:]]*$"`;
+
+export const fetchOrders = async (query: OrderQuery) => {
+  let request = supabase
+    .from('customer_orders')
+    .select('*', { count: 'exact' });
+
+  if (query.status === 'pending') {
+    // Like normalizeOrderStatus: empty and unrecognised statuses are pending too
+    const others = [...ORDER_STATUSES.filter(s => s !== 'pending'), 'canceled'];
+    request = request.or(`order_status.is.null,and(${others.map(s => `order_status.not.imatch.${statusPattern(s)}`).join(',')})`);
+  } else if (query.status !== 'all') {
+    const spellings = query.status === 'cancelled' ? ['cancelled', 'canceled'] : [query.status];
+    request = request.or(spellings.map(s => `order_status.imatch.${statusPattern(s)}`).join(','));
+  }
+
+  if (query.payment !== 'all') {
+    request = request.eq('payment_method', query.payment);
+  }
+
+  // Date range is inclusive of whole days in the viewer's time zone
+  if (query.from) {
+    request = request.gte('purchase_time', new Date(`${query.from}T00:00:00`).toISOString());
+  }
+  if (query.to) {
+    const end = new Date(`${query.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    request = request.lt('purchase_time', end.toISOString());
+  }
+
+  const { data, count, error } = await request
+    .order(query.sort, { ascending: query.dir === 'asc', nullsFirst: false })
+    .order('order_id')
+    .limit(ORDER_FETCH_LIMIT);
+
+  return { orders: data ?? [], total: count ?? 0, error };
+};
+
+export const fetchOrder = async (orderId: string) => {
+  const { data, error } = await supabase
+    .from('customer_orders')
+    .select('*')
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchPaymentMethods = async () => {
+  const { data, error } = await supabase
+    .from('customer_orders')
+    .select('payment_method')
+    .not('payment_method', 'is', null);
+
+  if (error) throw error;
+  return [...new Set(data.map(row => row.payment_method))].sort();
+};
+
+/**
+ * Moves an order to a new status. The update only applies if the status is
+ * still the one the user saw, so two people cannot both advance the same order.
+ */
+export const updateOrderStatus = async (order: CustomerOrder, to: OrderStatus) => {
+  validateStatusTransition(order, to);
+
+  let request = supabase
+    .from('customer_orders')
+    .update({ order_status: to })
+    .eq('order_id', order.order_id);
+
+  request = order.order_status === null
+    ? request.is('order_status', null)
+    : request.eq('order_status', order.order_status);
+
+  const { data, error } = await request.select();
+  if (error) throw error;
+  if (!data.length) {
+    throw new Error('This order was changed by someone else. Refresh and try again.');
+  }
+  return data[0];
+};
+
+export const formatPrice = (value: number | null) =>
+  value === null ? '—' : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
@@ -0,0 +1,133 @@
+import { Platform, PLATFORMS } from '@/lib/platforms';
+import type { VideoPost } from '@/lib/videos';
+
+export type PlatformTextField = 'title' | 'caption';
+
+// Stored in platform_overrides; a missing platform or field uses the post's own text
+export type PlatformOverrides = Partial<Record<Platform, Partial<Record<PlatformTextField, string>>>>;
+
+export type PlatformText = Record<PlatformTextField, string>;
+
+export interface PlatformTextIssue {
+  platform: Platform;
+  field: PlatformTextField;
+  // Errors block posting to the platform; warnings only inform
+  level: 'error' | 'warning';
+  message: string;
+}
+
+type TextSource = Pick<VideoPost, 'post_title' | 'caption' | 'platform_overrides'>;
+
+/**
+ * The longest title and caption each platform accepts, in characters. A null
+ * title means the platform doesn't show one, so it can't be overridden there.
+ */
+export const TEXT_LIMITS: Record<Platform, Record<PlatformTextField, number | null>> = {
+  youtube: { title: 100, caption: 5000 },
+  instagram: { title: null, caption: 2200 },
+  facebook: { title: null, caption: 63206 },
+};
+
+// Where the feed or search results cut the text off behind "more"
+const PREVIEW_LENGTHS: Partial<Record<Platform, Partial<Record<PlatformTextField, number>>>> = {
+  youtube: { title: 70 },
+  instagram: { caption: 125 },
+};
+
+export const PLATFORM_TEXT_FIELD_LABELS: Record<PlatformTextField, string> = {
+  title: 'Title',
+  caption: 'Description',
+};
+
+// Characters as the platforms count them, so an emoji is one and not two
+export const textLength = (text: string) => [...text].length;
+
+export const hasTitle = (platform: Platform) => TEXT_LIMITS[platform].title !== null;
+
+export const getOverride = (video: TextSource, platform: Platform, field: PlatformTextField) =>
+  video.platform_overrides?.[platform]?.[field] ?? null;
+
+// The text that goes to the platform: its own version where there is one, otherwise the post's
+export const resolvePlatformText = (video: TextSource, platform: Platform): PlatformText => ({
+  title: (hasTitle(platform) && getOverride(video, platform, 'title')) || video.post_title || '',
+  caption: getOverride(video, platform, 'caption') || video.caption || '',
+});
+
+/**
+ * Returns the overrides with one field changed. An empty value, or one that
+ * only repeats the post's own text, removes the override so later edits to the
+ * post carry through to that platform again.
+ */
+export const setOverride = (
+  video: TextSource,
+  platform: Platform,
+  field: PlatformTextField,
+  value: string | null
+): PlatformOverrides => {
+  const base = field === 'title' ? video.post_title : video.caption;
+  const { [field]: _dropped, ...rest } = video.platform_overrides?.[platform] ?? {};
+  const next = value?.trim() && value.trim() !== (base ?? '').trim() ? { ...rest, [field]: value } : rest;
+
+  const { [platform]: _platform, ...others } = video.platform_overrides ?? {};
+  return Object.keys(next).length > 0 ? { ...others, [platform]: next } : others;
+};
+
+// Resolved text for each platform being posted to, sent with the post webhook
+export const platformTextPayload = (video: TextSource, platforms: Platform[]) =>
+  Object.fromEntries(platforms.map(platform => [platform, resolvePlatformText(video, platform)])) as Partial<Record<Platform, PlatformText>>;
+
+export const checkPlatformText = (video: TextSource, platforms: Platform[]): PlatformTextIssue[] => {
+  const issues: PlatformTextIssue[] = [];
+
+  PLATFORMS.filter(p => platforms.includes(p.id)).forEach(({ id, label }) => {
+    const text = resolvePlatformText(video, id);
+
+    (['title', 'caption'] as const).forEach(field => {
+      const limit = TEXT_LIMITS[id][field];
+      if (limit === null) return;
+
+      const length = textLength(text[field]);
+      const name = PLATFORM_TEXT_FIELD_LABELS[field].toLowerCase();
+      const preview = PREVIEW_LENGTHS[id]?.[field];
+
+      if (length > limit) {
+        issues.push({
+          platform: id,
+          field,
+          level: 'error',
+          message: `${label} allows a ${name} of up to ${limit} characters. Remove ${length - limit}.`,
+        });
+      } else if (preview && length > preview) {
+        issues.push({
+          platform: id,
+          field,
+          level: 'warning',
+          message: `Only the first ${preview} characters of the ${name} show before ${label} cuts it off.`,
+        });
+      }
+    });
+
+    if (id === 'youtube') {
+      if (!text.title.trim()) {
+        issues.push({ platform: id, field: 'title', level: 'error', message: 'YouTube needs a title.' });
+      }
+      // The YouTube API rejects angle brackets anywhere in the title or description
+      (['title', 'caption'] as const)
+        .filter(field => /[<>]/.test(text[field]))
+        .forEach(field => issues.push({
+          platform: id,
+          field,
+          level: 'error',
+          message: `YouTube doesn't accept < or > in the ${PLATFORM_TEXT_FIELD_LABELS[field].toLowerCase()}.`,
+        }));
+    }
+  });
+
+  return issues;
+};
+
+// Throws the first limit the post's text breaks on the given platforms
+export const assertPlatformTextLimits = (video: TextSource, platforms: Platform[]) => {
+  const error = checkPlatformText(video, platforms).find(issue => issue.level === 'error');
+  if (error) throw new Error(error.message);
+};
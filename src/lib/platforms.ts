@@ -0,0 +1,51 @@
+import type { VideoPost } from '@/lib/videos';
+
+export type Platform = 'youtube' | 'instagram' | 'facebook';
+
+export type PlatformPostStatus = 'pending' | 'scheduled' | 'posting' | 'posted' | 'failed';
+
+export const PLATFORMS: { id: Platform; label: string }[] = [
+  { id: 'youtube', label: 'YouTube' },
+  { id: 'instagram', label: 'Instagram' },
+  { id: 'facebook', label: 'Facebook' },
+];
+
+export const statusColumn = (platform: Platform) => `${platform}_post_status` as const;
+
+export const errorColumn = (platform: Platform) => `${platform}_post_error` as const;
+
+export const scheduledColumn = (platform: Platform) => `${platform}_scheduled_at` as const;
+
+export const postedColumn = (platform: Platform) => `${platform}_posted_at` as const;
+
+// n8n workflows write free-form values into the *_post_status columns, so these
+// are the spellings we have seen for each state the dashboard understands.
+// Anything else, including null, counts as pending.
+export const STATUS_SPELLINGS: Record<Exclude<PlatformPostStatus, 'pending'>, string[]> = {
+  posted: ['posted', 'published', 'success', 'succeeded', 'done', 'complete', 'completed'],
+  failed: ['failed', 'failure', 'error'],
+  scheduled: ['scheduled'],
+  posting: ['posting', 'processing', 'in progress', 'in_progress', 'running', 'queued'],
+};
+
+export const normalizePostStatus = (raw: string | null | undefined): PlatformPostStatus => {
+  const value = (raw ?? '').trim().toLowerCase();
+  const match = (Object.keys(STATUS_SPELLINGS) as (keyof typeof STATUS_SPELLINGS)[])
+    .find(status => STATUS_SPELLINGS[status].includes(value));
+  return match ?? 'pending';
+};
+
+export const getPlatformStatus = (video: VideoPost, platform: Platform): PlatformPostStatus =>
+  normalizePostStatus(video[statusColumn(platform)]);
+
+export const getPlatformError = (video: VideoPost, platform: Platform): string | null =>
+  video[errorColumn(platform)] ?? null;
+
+export const getScheduledAt = (video: VideoPost, platform: Platform): Date | null => {
+  const value = video[scheduledColumn(platform)];
+  return value ? new Date(value) : null;
+};
+
+// Platforms that have not been published yet are targeted by default.
+export const defaultTargetPlatforms = (video: VideoPost): Platform[] =>
+  PLATFORMS.map(p => p.id).filter(platform => getPlatformStatus(video, platform) !== 'posted');
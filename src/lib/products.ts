@@ -0,0 +1,98 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { assertSupportAgent } from '@/lib/support';
+
+export type Product = Tables<'Products'>;
+
+export interface ProductDraft {
+  name: string;
+  code: string;
+  description: string;
+  pageLink: string;
+  imageUrls: string[];
+}
+
+const CATALOG_READ_ONLY = 'Only the support team can change the product catalog.';
+
+export const EMPTY_PRODUCT_DRAFT: ProductDraft = {
+  name: '',
+  code: '',
+  description: '',
+  pageLink: '',
+  imageUrls: [],
+};
+
+// "Product Image URLs" is one text column; older rows separate URLs with commas, newlines or spaces
+export const parseImageUrls = (value: string | null) =>
+  (value ?? '')
+    .split(/[\s,]+/)
+    .map(url => url.trim())
+    .filter(url => /^https?:\/\//i.test(url));
+
+export const serializeImageUrls = (urls: string[]) => urls.join(', ');
+
+export const productLabel = (product: Product) =>
+  product.product_name?.trim() || product['Product code']?.trim() || `Product #${product.Id}`;
+
+export const toProductDraft = (product: Product): ProductDraft => ({
+  name: product.product_name ?? '',
+  code: product['Product code'] ?? '',
+  description: product.product_description ?? '',
+  pageLink: product['product page link'] ?? '',
+  imageUrls: parseImageUrls(product['Product Image URLs']),
+});
+
+const toRow = (draft: ProductDraft): Omit<TablesInsert<'Products'>, 'Id'> => ({
+  product_name: draft.name.trim() || null,
+  'Product code': draft.code.trim() || null,
+  product_description: draft.description.trim() || null,
+  'product page link': draft.pageLink.trim() || null,
+  'Product Image URLs': draft.imageUrls.length ? serializeImageUrls(draft.imageUrls) : null,
+});
+
+export const fetchProducts = async () => {
+  const { data, error } = await supabase
+    .from('Products')
+    .select('*')
+    .order('Id', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchProduct = async (productId: number) => {
+  const { data, error } = await supabase
+    .from('Products')
+    .select('*')
+    .eq('Id', productId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const saveProduct = async (draft: ProductDraft, productId?: number) => {
+  if (!draft.name.trim() && !draft.code.trim()) {
+    throw new Error('Give the product a name or a product code.');
+  }
+  await assertSupportAgent(CATALOG_READ_ONLY);
+
+  const request = productId
+    ? supabase.from('Products').update(toRow(draft)).eq('Id', productId)
+    : supabase.from('Products').insert(toRow(draft));
+
+  const { data, error } = await request.select().single();
+  if (error) throw error;
+  return data;
+};
+
+export const deleteProduct = async (productId: number) => {
+  await assertSupportAgent(CATALOG_READ_ONLY);
+
+  const { error } = await supabase
+    .from('Products')
+    .delete()
+    .eq('Id', productId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,43 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { VideoSource } from '@/lib/data-source';
+
+export const REVISION_FIELDS = ['post_title', 'caption', 'hashtag'] as const;
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+export const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  post_title: 'Title',
+  caption: 'Description',
+  hashtag: 'Tags',
+};
+
+export type PostRevision = Tables<'post_revisions'> & {
+  field: RevisionField;
+  source: 'baseline' | 'created' | 'edited' | 'restored';
+  author: { email: string | null } | null;
+};
+
+export const REVISION_SOURCE_LABELS: Record<PostRevision['source'], string> = {
+  baseline: 'Recorded when history started',
+  created: 'Original',
+  edited: 'Edited',
+  restored: 'Restored',
+};
+
+// Newest first
+export const fetchRevisions = async ({ client }: VideoSource, videoId: number) => {
+  const { data, error } = await client
+    .from('post_revisions')
+    .select('*, author:profiles(email)')
+    .eq('video_id', videoId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as PostRevision[];
+};
+
+// Resolves to the restored value
+export const restoreRevision = async ({ client }: VideoSource, revisionId: string) => {
+  const { data, error } = await client.rpc('restore_post_revision', { revision_id: revisionId });
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,42 @@
+import { getPlatformStatus, Platform, PLATFORMS, postedColumn, PlatformPostStatus, scheduledColumn } from '@/lib/platforms';
+import type { VideoPost } from '@/lib/videos';
+
+export interface CalendarEntry {
+  key: string;
+  video: VideoPost;
+  platform: Platform;
+  at: Date;
+  status: PlatformPostStatus;
+}
+
+// Combine a calendar day with an "HH:mm" time string in local time.
+export const withTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const at = new Date(day);
+  at.setHours(hours || 0, minutes || 0, 0, 0);
+  return at;
+};
+
+// Move a timestamp to another day while keeping its time of day.
+export const moveToDay = (at: Date, day: Date) => {
+  const moved = new Date(day);
+  moved.setHours(at.getHours(), at.getMinutes(), 0, 0);
+  return moved;
+};
+
+// One entry per platform that is either scheduled or already published.
+export const buildCalendarEntries = (videos: VideoPost[]): CalendarEntry[] =>
+  videos
+    .flatMap(video =>
+      PLATFORMS.map(({ id }) => {
+        const status = getPlatformStatus(video, id);
+        const timestamp = status === 'posted'
+          ? video[postedColumn(id)] ?? video[scheduledColumn(id)]
+          : video[scheduledColumn(id)];
+        return timestamp
+          ? { key: `${video.id}-${id}`, video, platform: id, at: new Date(timestamp), status }
+          : null;
+      })
+    )
+    .filter((entry): entry is CalendarEntry => entry !== null)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
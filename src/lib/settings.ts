@@ -0,0 +1,97 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+
+export interface AppSettings {
+  supabaseUrl: string;
+  supabaseKey: string;
+  n8nGenerateWebhook: string;
+  n8nPostWebhook: string;
+  n8nGenerateSecret: string;
+  n8nPostSecret: string;
+  tableName: string;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  supabaseUrl: '',
+  supabaseKey: '',
+  n8nGenerateWebhook: '',
+  n8nPostWebhook: '',
+  n8nGenerateSecret: '',
+  n8nPostSecret: '',
+  tableName: 'social_media_videos',
+};
+
+// Where settings lived before they moved to the user_settings table
+const LEGACY_STORAGE_KEY = 'appSettings';
+
+const fromRow = (row: Tables<'user_settings'>): AppSettings => ({
+  supabaseUrl: row.supabase_url,
+  supabaseKey: row.supabase_key,
+  n8nGenerateWebhook: row.n8n_generate_webhook,
+  n8nPostWebhook: row.n8n_post_webhook,
+  n8nGenerateSecret: row.n8n_generate_secret,
+  n8nPostSecret: row.n8n_post_secret,
+  tableName: row.table_name || DEFAULT_SETTINGS.tableName,
+});
+
+const toRow = (userId: string, settings: AppSettings): TablesInsert<'user_settings'> => ({
+  user_id: userId,
+  supabase_url: settings.supabaseUrl,
+  supabase_key: settings.supabaseKey,
+  n8n_generate_webhook: settings.n8nGenerateWebhook,
+  n8n_post_webhook: settings.n8nPostWebhook,
+  n8n_generate_secret: settings.n8nGenerateSecret,
+  n8n_post_secret: settings.n8nPostSecret,
+  table_name: settings.tableName || DEFAULT_SETTINGS.tableName,
+});
+
+/**
+ * URL and signing secret for one webhook. Either webhook falls back to the
+ * other when only one is configured, taking its secret along with it.
+ */
+export const getWebhookTarget = (settings: AppSettings, kind: 'generate' | 'post') => {
+  const generate = { url: settings.n8nGenerateWebhook, secret: settings.n8nGenerateSecret };
+  const post = { url: settings.n8nPostWebhook, secret: settings.n8nPostSecret };
+  const [preferred, fallback] = kind === 'generate' ? [generate, post] : [post, generate];
+  return preferred.url ? preferred : fallback;
+};
+
+const readLegacySettings = (): AppSettings | null => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+  } catch {
+    return null;
+  }
+};
+
+export const saveUserSettings = async (userId: string, settings: AppSettings) => {
+  const { error } = await supabase
+    .from('user_settings')
+    .upsert(toRow(userId, settings));
+
+  if (error) throw error;
+};
+
+/**
+ * Loads the signed-in user's settings. The first time a user has no row, any
+ * settings left in localStorage by older versions are imported and removed.
+ */
+export const loadUserSettings = async (userId: string): Promise<AppSettings> => {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return fromRow(data);
+
+  const legacy = readLegacySettings();
+  if (!legacy) return DEFAULT_SETTINGS;
+
+  await saveUserSettings(userId, legacy);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return legacy;
+};
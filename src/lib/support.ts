@@ -0,0 +1,15 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Support agents are listed in support_agents by an admin; see the README
+export const isSupportAgent = async () => {
+  const { data, error } = await supabase.rpc('is_support_agent');
+  if (error) throw error;
+  return data;
+};
+
+// RLS skips updates and deletes it refuses without an error, so writes check first
+export const assertSupportAgent = async (message: string) => {
+  if (!(await isSupportAgent())) {
+    throw new Error(message);
+  }
+};
@@ -0,0 +1,152 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { CustomerOrder } from '@/lib/orders';
+
+export type Ticket = Tables<'create_ticket'>;
+export type TicketNote = Tables<'ticket_notes'>;
+export type TeamMember = Pick<Tables<'profiles'>, 'id' | 'email'>;
+
+export const TICKET_STATUSES = ['open', 'pending', 'resolved'] as const;
+export type TicketStatus = (typeof TICKET_STATUSES)[number];
+
+export const TICKET_STATUS_LABELS: Record<TicketStatus, string> = {
+  open: 'Open',
+  pending: 'Pending',
+  resolved: 'Resolved',
+};
+
+export type TicketStatusFilter = TicketStatus | 'all';
+export type AssigneeFilter = 'anyone' | 'me' | 'unassigned';
+
+// The chatbot can open a lot of tickets; the inbox only needs the most recent ones
+export const TICKET_FETCH_LIMIT = 200;
+
+export const ticketName = (ticket: Ticket) => ticket['person name']?.trim() || 'Unknown customer';
+
+export const fetchTickets = async ({ status, assignee }: TicketFilters, userId: string) => {
+  let request = supabase
+    .from('create_ticket')
+    .select('*');
+
+  if (status !== 'all') {
+    request = request.eq('status', status);
+  }
+  if (assignee === 'me') {
+    request = request.eq('assignee_id', userId);
+  } else if (assignee === 'unassigned') {
+    request = request.is('assignee_id', null);
+  }
+
+  const { data, error } = await request
+    .order('created_at', { ascending: false, nullsFirst: false })
+    .limit(TICKET_FETCH_LIMIT);
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateTicket = async (ticketId: number, changes: { status?: TicketStatus; assignee_id?: string | null }) => {
+  const { data, error } = await supabase
+    .from('create_ticket')
+    .update(changes)
+    .eq('id', ticketId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Members of the active workspace, who tickets can be assigned to
+export const fetchTeamMembers = async (workspaceId: string): Promise<TeamMember[]> => {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('profiles(id, email)')
+    .eq('workspace_id', workspaceId);
+
+  if (error) throw error;
+  return data
+    .flatMap(row => row.profiles ? [row.profiles] : [])
+    .sort((a, b) => (a.email ?? '').localeCompare(b.email ?? ''));
+};
+
+export const fetchTicketNotes = async (ticketId: number) => {
+  const { data, error } = await supabase
+    .from('ticket_notes')
+    .select('*')
+    .eq('ticket_id', ticketId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data;
+};
+
+export const addTicketNote = async (ticketId: number, body: string) => {
+  const { data, error } = await supabase
+    .from('ticket_notes')
+    .insert({ ticket_id: ticketId, body: body.trim() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteTicketNote = async (noteId: string) => {
+  const { error } = await supabase
+    .from('ticket_notes')
+    .delete()
+    .eq('id', noteId);
+
+  if (error) throw error;
+};
+
+/**
+ * Phone numbers on tickets are free text while orders store them as numbers,
+ * so compare digits only, with and without a leading trunk zero.
+ */
+const phoneCandidates = (phone: string | null) => {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  if (!digits) return [];
+  const local = digits.replace(/^0+/, '');
+  return [...new Set([digits, local].filter(Boolean))];
+};
+
+// PostgREST filter values are comma and parenthesis separated, so those can't appear in a name
+const escapeFilterValue = (value: string) => value.replace(/[,()*%\\"]/g, ' ').trim();
+
+export const findMatchingOrders = async (phone: string | null, name: string | null): Promise<CustomerOrder[]> => {
+  const filters = phoneCandidates(phone).map(digits => `phone_number.eq.${digits}`);
+
+  const safeName = escapeFilterValue(name ?? '');
+  if (safeName) {
+    filters.push(`person_name.ilike.${safeName}`);
+  }
+
+  if (filters.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('customer_orders')
+    .select('*')
+    .or(filters.join(','))
+    .order('purchase_time', { ascending: false, nullsFirst: false })
+    .limit(20);
+
+  if (error) throw error;
+  return data;
+};
+
+export interface TicketFilters {
+  status: TicketStatusFilter;
+  assignee: AssigneeFilter;
+}
+
+export const parseTicketFilters = (params: URLSearchParams): TicketFilters => {
+  const status = params.get('status');
+  const assignee = params.get('assignee');
+  return {
+    // The inbox opens on open tickets; resolved ones are one click away
+    status: status === 'all' || TICKET_STATUSES.includes(status as TicketStatus) ? (status as TicketStatusFilter) : 'open',
+    assignee: assignee === 'me' || assignee === 'unassigned' ? assignee : 'anyone',
+  };
+};
@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Supabase returns plain error objects rather than Error instances, so read `message` from either.
+export function getErrorMessage(error: unknown, fallback = "Something went wrong") {
+  if (error && typeof error === "object" && "message" in error && error.message) {
+    return String(error.message);
+  }
+  return typeof error === "string" && error ? error : fallback;
+}
@@ -0,0 +1,138 @@
+import { Platform, PlatformPostStatus, PLATFORMS, statusColumn, STATUS_SPELLINGS } from '@/lib/platforms';
+import { APPROVAL_STATUSES, ApprovalStatus } from '@/lib/approvals';
+import type { VideoSource } from '@/lib/data-source';
+import type { VideoPost } from '@/lib/videos';
+
+export const PAGE_SIZE = 10;
+
+export type MediaFilter = 'all' | 'image' | 'video';
+export type ProcessingFilter = 'all' | 'ready' | 'processing';
+export type SortKey = 'newest' | 'oldest' | 'title_asc' | 'title_desc';
+
+export interface VideoQuery {
+  q: string;
+  media: MediaFilter;
+  processing: ProcessingFilter;
+  platform: Platform | 'all';
+  status: PlatformPostStatus | 'all';
+  approval: ApprovalStatus | 'all';
+  sort: SortKey;
+  page: number;
+}
+
+export const DEFAULT_VIDEO_QUERY: VideoQuery = {
+  q: '',
+  media: 'all',
+  processing: 'all',
+  platform: 'all',
+  status: 'all',
+  approval: 'all',
+  sort: 'newest',
+  page: 1,
+};
+
+export const SORT_OPTIONS: { value: SortKey; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'title_asc', label: 'Title A–Z' },
+  { value: 'title_desc', label: 'Title Z–A' },
+];
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+export const parseVideoQuery = (params: URLSearchParams): VideoQuery => {
+  const page = Number(params.get('page'));
+  return {
+    q: params.get('q') ?? '',
+    media: pick(params.get('media'), ['all', 'image', 'video'], 'all'),
+    processing: pick(params.get('processing'), ['all', 'ready', 'processing'], 'all'),
+    platform: pick(params.get('platform'), ['all', ...PLATFORMS.map(p => p.id)], 'all'),
+    status: pick(params.get('status'), ['all', 'pending', 'scheduled', 'posting', 'posted', 'failed'], 'all'),
+    approval: pick(params.get('approval'), ['all', ...APPROVAL_STATUSES], 'all'),
+    sort: pick(params.get('sort'), SORT_OPTIONS.map(o => o.value), 'newest'),
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+};
+
+// Only non-default values go into the URL so shared links stay short.
+export const toSearchParams = (query: VideoQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  (Object.keys(DEFAULT_VIDEO_QUERY) as (keyof VideoQuery)[]).forEach(key => {
+    const value = query[key];
+    if (value !== DEFAULT_VIDEO_QUERY[key] && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  return params;
+};
+
+export const isDefaultQuery = (query: VideoQuery) => toSearchParams(query).toString() === '';
+
+// Status columns are written by n8n in whatever case it likes
+const spellingsFor = (status: Exclude<PlatformPostStatus, 'pending'>) =>
+  STATUS_SPELLINGS[status].flatMap(s => [s, s[0].toUpperCase() + s.slice(1), s.toUpperCase()]);
+
+const quoteList = (values: string[]) => `(${values.map(v => `"${v}"`).join(',')})`;
+
+export const fetchVideoPage = async ({ client, table, isCustomProject }: VideoSource, workspaceId: string, query: VideoQuery) => {
+  let request = client
+    .from(table)
+    .select('*', { count: 'exact' });
+
+  // Brand projects don't have this app's workspaces, so all of their posts show
+  if (!isCustomProject) {
+    request = request.eq('workspace_id', workspaceId);
+  }
+
+  if (query.q.trim()) {
+    request = request.textSearch('search_vector', query.q.trim(), { type: 'websearch', config: 'simple' });
+  }
+
+  if (query.media !== 'all') {
+    request = request.eq('media_type', query.media);
+  }
+
+  if (query.processing === 'ready') {
+    request = request.not('video_url', 'is', null);
+  } else if (query.processing === 'processing') {
+    request = request.is('video_url', null);
+  }
+
+  if (query.approval !== 'all') {
+    request = request.eq('approval_status', query.approval);
+  }
+
+  const status = query.status;
+  if (status !== 'all') {
+    const platforms = query.platform === 'all' ? PLATFORMS.map(p => p.id) : [query.platform];
+    const conditions = platforms.map(platform => {
+      const column = statusColumn(platform);
+      if (status === 'pending') {
+        const known = (Object.keys(STATUS_SPELLINGS) as (keyof typeof STATUS_SPELLINGS)[]).flatMap(spellingsFor);
+        return `${column}.is.null,${column}.not.in.${quoteList(known)}`;
+      }
+      return `${column}.in.${quoteList(spellingsFor(status))}`;
+    });
+    request = request.or(conditions.join(','));
+  }
+
+  switch (query.sort) {
+    case 'oldest':
+      request = request.order('id', { ascending: true });
+      break;
+    case 'title_asc':
+      request = request.order('post_title', { ascending: true, nullsFirst: false }).order('id', { ascending: false });
+      break;
+    case 'title_desc':
+      request = request.order('post_title', { ascending: false, nullsFirst: false }).order('id', { ascending: false });
+      break;
+    default:
+      request = request.order('id', { ascending: false });
+  }
+
+  const from = (query.page - 1) * PAGE_SIZE;
+  const { data, count, error } = await request.range(from, from + PAGE_SIZE - 1);
+
+  return { videos: (data || []) as VideoPost[], total: count ?? 0, error };
+};
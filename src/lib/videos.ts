@@ -0,0 +1,79 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { ApprovalStatus } from '@/lib/approvals';
+import type { VideoSource } from '@/lib/data-source';
+import type { PlatformOverrides } from '@/lib/platform-text';
+
+export interface VideoPost {
+  id: number;
+  video_url: string | null;
+  post_title: string;
+  caption: string;
+  hashtag: string | null;
+  youtube_post_status: string;
+  instagram_post_status: string;
+  facebook_post_status: string;
+  youtube_post_error?: string | null;
+  instagram_post_error?: string | null;
+  facebook_post_error?: string | null;
+  youtube_scheduled_at?: string | null;
+  instagram_scheduled_at?: string | null;
+  facebook_scheduled_at?: string | null;
+  youtube_posted_at?: string | null;
+  instagram_posted_at?: string | null;
+  facebook_posted_at?: string | null;
+  user_id?: string;
+  workspace_id?: string | null;
+  approval_status?: ApprovalStatus;
+  platform_overrides?: PlatformOverrides;
+}
+
+export const isImagePost = (video: VideoPost) => !!video.video_url?.match(/\.(jpg|jpeg|png|gif|webp)$/i);
+
+/**
+ * RLS skips rows the user's role can't write instead of raising an error, so a
+ * write that comes back without rows was refused, or the post is gone.
+ */
+export const writtenRow = <T>(rows: T[] | null, action: 'change' | 'delete'): T => {
+  if (!rows?.length) {
+    throw new Error(`Could not ${action} the post. It may have been deleted, or your role doesn't allow it.`);
+  }
+  return rows[0];
+};
+
+export type VideoChange = RealtimePostgresChangesPayload<VideoPost>;
+
+// Apply a realtime change to the list shown on the dashboard, keeping the
+// newest-first ordering used by fetchVideos.
+export const applyVideoChange = (videos: VideoPost[], change: VideoChange): VideoPost[] => {
+  switch (change.eventType) {
+    case 'INSERT': {
+      const inserted = change.new;
+      if (videos.some(v => v.id === inserted.id)) {
+        return videos.map(v => v.id === inserted.id ? inserted : v);
+      }
+      return [inserted, ...videos].sort((a, b) => b.id - a.id);
+    }
+    case 'UPDATE': {
+      const updated = change.new;
+      return videos.map(v => v.id === updated.id ? { ...v, ...updated } : v);
+    }
+    case 'DELETE': {
+      const deletedId = change.old.id;
+      return videos.filter(v => v.id !== deletedId);
+    }
+    default:
+      return videos;
+  }
+};
+
+// A single post for its own page. No user filter: RLS decides who may open a shared link.
+export const fetchVideo = async ({ client, table }: VideoSource, videoId: number) => {
+  const { data, error } = await client
+    .from(table)
+    .select('*')
+    .eq('id', videoId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as VideoPost | null;
+};
@@ -0,0 +1,165 @@
+import { getErrorMessage } from '@/lib/utils';
+
+export type WebhookKind = 'generate' | 'post';
+
+export interface WebhookExchange {
+  id: string;
+  kind: WebhookKind;
+  url: string;
+  sentAt: string;
+  durationMs: number;
+  request: {
+    headers: Record<string, string>;
+    body: string;
+  };
+  response?: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+  error?: string;
+}
+
+export const WEBHOOK_LABELS: Record<WebhookKind, string> = {
+  generate: 'Generate Video',
+  post: 'Post to Socials',
+};
+
+export const WEBHOOK_HISTORY_LIMIT = 20;
+
+const HISTORY_KEY = 'webhookHistory';
+const HISTORY_EVENT = 'webhook-history';
+
+const readHistory = (): Record<WebhookKind, WebhookExchange[]> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(HISTORY_KEY) || '{}');
+    return { generate: saved.generate ?? [], post: saved.post ?? [] };
+  } catch {
+    return { generate: [], post: [] };
+  }
+};
+
+const writeHistory = (history: Record<WebhookKind, WebhookExchange[]>) => {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  window.dispatchEvent(new Event(HISTORY_EVENT));
+};
+
+export const getWebhookHistory = (kind: WebhookKind) => readHistory()[kind];
+
+export const clearWebhookHistory = (kind: WebhookKind) => {
+  writeHistory({ ...readHistory(), [kind]: [] });
+};
+
+// Requests and responses can hold another user's posts, so they don't outlive the session
+export const forgetWebhookHistory = () => {
+  localStorage.removeItem(HISTORY_KEY);
+  window.dispatchEvent(new Event(HISTORY_EVENT));
+};
+
+export const onWebhookHistoryChange = (listener: () => void) => {
+  window.addEventListener(HISTORY_EVENT, listener);
+  return () => window.removeEventListener(HISTORY_EVENT, listener);
+};
+
+const recordExchange = (exchange: WebhookExchange) => {
+  const history = readHistory();
+  history[exchange.kind] = [exchange, ...history[exchange.kind]].slice(0, WEBHOOK_HISTORY_LIMIT);
+  writeHistory(history);
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const generateWebhookSecret = () => toHex(crypto.getRandomValues(new Uint8Array(32)).buffer);
+
+/**
+ * HMAC-SHA256 of `${timestamp}.${nonce}.${body}` as lowercase hex. See
+ * docs/webhook-signing.md for how n8n verifies it.
+ */
+export const signWebhookBody = async (secret: string, timestamp: string, nonce: string, body: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${nonce}.${body}`));
+  return toHex(signature);
+};
+
+export interface SendWebhookOptions {
+  secret?: string;
+  // Reuse the same ID when re-sending the same logical request so n8n can drop duplicates
+  requestId?: string;
+}
+
+/**
+ * POSTs a JSON payload to an n8n webhook and records the request and response
+ * for the Settings inspector. HTTP errors are returned, not thrown; only network
+ * failures throw.
+ */
+export const sendWebhook = async (
+  kind: WebhookKind,
+  url: string,
+  payload: unknown,
+  { secret, requestId = crypto.randomUUID() }: SendWebhookOptions = {}
+): Promise<WebhookExchange> => {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Request-Id': requestId,
+  };
+
+  if (secret) {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const nonce = crypto.randomUUID();
+    headers['X-Timestamp'] = timestamp;
+    headers['X-Nonce'] = nonce;
+    headers['X-Signature'] = `sha256=${await signWebhookBody(secret, timestamp, nonce, body)}`;
+  }
+
+  const exchange: WebhookExchange = {
+    id: crypto.randomUUID(),
+    kind,
+    url,
+    sentAt: new Date().toISOString(),
+    durationMs: 0,
+    request: { headers, body },
+  };
+
+  const started = performance.now();
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body });
+    exchange.response = {
+      status: response.status,
+      statusText: response.statusText,
+      // Browsers only expose CORS-safelisted headers unless n8n sets Access-Control-Expose-Headers
+      headers: Object.fromEntries(response.headers.entries()),
+      body: await response.text(),
+    };
+    return exchange;
+  } catch (err) {
+    exchange.error = getErrorMessage(err, 'Network request failed');
+    throw new Error(`Could not reach webhook: ${exchange.error}`);
+  } finally {
+    exchange.durationMs = Math.round(performance.now() - started);
+    recordExchange(exchange);
+  }
+};
+
+export const isSuccessful = (exchange: WebhookExchange) =>
+  !!exchange.response && exchange.response.status >= 200 && exchange.response.status < 300;
+
+export const parseResponseBody = (exchange: WebhookExchange): unknown => {
+  const text = exchange.response?.body ?? '';
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+export const buildPingPayload = (kind: WebhookKind, userId?: string) => ({
+  type: 'ping',
+  webhook: kind,
+  user_id: userId,
+  sent_at: new Date().toISOString(),
+});
@@ -0,0 +1,210 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export const WORKSPACE_ROLES = ['owner', 'editor', 'reviewer', 'viewer'] as const;
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  reviewer: 'Reviewer',
+  viewer: 'Viewer',
+};
+
+export const WORKSPACE_ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: 'Manages members and invites, and can do everything editors and reviewers can',
+  editor: 'Creates, edits, posts, schedules and deletes posts',
+  reviewer: 'Reads posts and approves them or requests changes before they go out',
+  viewer: 'Reads posts and their comments',
+};
+
+/**
+ * What each role may do in the app. Mirrors the RLS policies in the workspaces
+ * migration; the database enforces them, this only decides which buttons show.
+ */
+const PERMISSIONS = {
+  comment: ['owner', 'editor', 'reviewer'],
+  editPosts: ['owner', 'editor'],
+  manageWorkspace: ['owner'],
+  reviewPosts: ['owner', 'reviewer'],
+} satisfies Record<string, WorkspaceRole[]>;
+
+export type WorkspacePermission = keyof typeof PERMISSIONS;
+
+export const can = (role: WorkspaceRole, permission: WorkspacePermission) =>
+  (PERMISSIONS[permission] as WorkspaceRole[]).includes(role);
+
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+export type WorkspaceMember = Tables<'workspace_members'> & {
+  role: WorkspaceRole;
+  profiles: { email: string | null } | null;
+};
+
+export type WorkspaceInvite = Tables<'workspace_invites'> & {
+  role: WorkspaceRole;
+  workspaces: { name: string } | null;
+};
+
+const STORAGE_KEY = 'activeWorkspaceId';
+
+// Remembered per browser so a reload opens the workspace the user was last in
+export const loadActiveWorkspaceId = () => localStorage.getItem(STORAGE_KEY);
+
+export const saveActiveWorkspaceId = (workspaceId: string) => {
+  localStorage.setItem(STORAGE_KEY, workspaceId);
+};
+
+// RLS skips rows it refuses without an error, so a write that changed no rows was not allowed
+const assertWritten = (rows: unknown[] | null, message: string) => {
+  if (!rows?.length) {
+    throw new Error(message);
+  }
+};
+
+export const fetchWorkspaces = async (userId: string): Promise<Workspace[]> => {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces(id, name)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return data
+    .filter(row => row.workspaces)
+    .map(row => ({ id: row.workspaces!.id, name: row.workspaces!.name, role: row.role as WorkspaceRole }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createWorkspace = async (name: string) => {
+  const { data, error } = await supabase.rpc('create_workspace', { workspace_name: name.trim() });
+  if (error) throw error;
+  return data;
+};
+
+export const renameWorkspace = async (workspaceId: string, name: string) => {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .update({ name: name.trim() })
+    .eq('id', workspaceId)
+    .select('id');
+
+  if (error) throw error;
+  assertWritten(data, 'Only workspace owners can rename the workspace.');
+};
+
+// Deletes every post in the workspace with it
+export const deleteWorkspace = async (workspaceId: string) => {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .delete()
+    .eq('id', workspaceId)
+    .select('id');
+
+  if (error) throw error;
+  assertWritten(data, 'Only workspace owners can delete the workspace.');
+};
+
+export const fetchWorkspaceMembers = async (workspaceId: string) => {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('*, profiles(email)')
+    .eq('workspace_id', workspaceId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data as WorkspaceMember[];
+};
+
+export const updateMemberRole = async (workspaceId: string, userId: string, role: WorkspaceRole) => {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .update({ role })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .select('user_id');
+
+  if (error) throw error;
+  assertWritten(data, 'Only workspace owners can change roles.');
+};
+
+// Also how members leave: they may remove their own row
+export const removeMember = async (workspaceId: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .select('user_id');
+
+  if (error) throw error;
+  assertWritten(data, 'Only workspace owners can remove other members.');
+};
+
+export const fetchWorkspaceInvites = async (workspaceId: string) => {
+  const { data, error } = await supabase
+    .from('workspace_invites')
+    .select('*, workspaces(name)')
+    .eq('workspace_id', workspaceId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data as WorkspaceInvite[];
+};
+
+// Invites addressed to the signed-in user, across all workspaces
+export const fetchMyInvites = async (email: string) => {
+  const { data, error } = await supabase
+    .from('workspace_invites')
+    .select('*, workspaces(name)')
+    .eq('email', email.toLowerCase())
+    .order('created_at');
+
+  if (error) throw error;
+  return data as WorkspaceInvite[];
+};
+
+/**
+ * Sends an invite through the invite-workspace-member edge function, which
+ * emails people who don't have an account yet. Resolves to whether an email went out.
+ */
+export const inviteMember = async (workspaceId: string, email: string, role: WorkspaceRole) => {
+  const { data, error } = await supabase.functions.invoke<{ emailed: boolean }>('invite-workspace-member', {
+    body: {
+      workspace_id: workspaceId,
+      email: email.trim().toLowerCase(),
+      role,
+      redirect_to: `${window.location.origin}/update-password`,
+    },
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    throw new Error(body?.error ?? error.message);
+  }
+  if (error) throw error;
+  return !!data?.emailed;
+};
+
+export const revokeInvite = async (inviteId: string) => {
+  const { data, error } = await supabase
+    .from('workspace_invites')
+    .delete()
+    .eq('id', inviteId)
+    .select('id');
+
+  if (error) throw error;
+  assertWritten(data, 'This invite was already withdrawn, or only workspace owners can revoke it.');
+};
+
+export const declineInvite = revokeInvite;
+
+export const acceptInvite = async (inviteId: string) => {
+  const { data, error } = await supabase.rpc('accept_workspace_invite', { invite_id: inviteId });
+  if (error) throw error;
+  return data;
+};
@@ -1,112 +1,269 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState } from "react";
+import { Location, Navigate, useLocation, useSearchParams } from "react-router-dom";
+import { AlertCircle, MailCheck } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { MfaChallenge } from "@/components/auth/MfaChallenge";
+import { FullPageLoader } from "@/components/layout/FullPageLoader";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "sonner";
+import { authErrorCode, authErrorMessage, readAuthUrlError } from "@/lib/auth-errors";
+
+const AUTH_MODES = ["login", "signup", "magic", "forgot"] as const;
+type AuthMode = (typeof AUTH_MODES)[number];
+
+const MODE_COPY: Record<AuthMode, { title: string; description: string; submit: string }> = {
+  login: { title: "Login", description: "Enter your credentials to access your dashboard", submit: "Login" },
+  signup: { title: "Create Account", description: "Sign up to create your account", submit: "Sign Up" },
+  magic: { title: "Email me a login link", description: "We'll send a one-time link that logs you in without a password", submit: "Send login link" },
+  forgot: { title: "Reset password", description: "We'll email you a link to choose a new password", submit: "Send reset link" },
+};
+
+const SENT_COPY: Record<AuthMode, string> = {
+  login: "",
+  signup: "Open the confirmation link we sent to finish creating your account.",
+  magic: "Open the login link we sent. It works once and expires after an hour.",
+  forgot: "Open the reset link we sent to choose a new password. It works once and expires after an hour.",
+};
+
+// A list rather than `in MODE_COPY`, which also accepts inherited keys such as ?mode=toString
+const isAuthMode = (value: string | null): value is AuthMode => AUTH_MODES.includes(value as AuthMode);
+
+// Only same-origin paths, so ?next= can't be used to bounce users to another site
+const safeRedirectPath = (path: string | null) =>
+  path && path.startsWith("/") && !path.startsWith("//") && !path.includes("\\") ? path : null;
 
 const Auth = () => {
+  const [searchParams] = useSearchParams();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [isSignUp, setIsSignUp] = useState(false);
+  const [mode, setMode] = useState<AuthMode>(() => {
+    const initial = searchParams.get("mode");
+    return isAuthMode(initial) ? initial : "login";
+  });
   const [loading, setLoading] = useState(false);
-  const navigate = useNavigate();
+  // Mode whose email was just sent; swaps the form for a "check your inbox" message
+  const [sent, setSent] = useState<AuthMode | null>(null);
+  // Set once we know this address still needs confirming, to offer a resend
+  const [unconfirmedEmail, setUnconfirmedEmail] = useState<string | null>(null);
+  const [resending, setResending] = useState(false);
+  const { session, loading: sessionLoading, mfaRequired } = useAuth();
+  const location = useLocation();
+  // Expired or already-used email links come back here with the reason in the URL
+  const [linkError, setLinkError] = useState(() => readAuthUrlError(location));
 
-  useEffect(() => {
-    const checkUser = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session) {
-        navigate("/");
-      }
-    };
-    checkUser();
-  }, [navigate]);
+  // RequireAuth passes the page the user was sent away from; email links carry it as ?next=
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from
+    ? `${from.pathname}${from.search}${from.hash}`
+    : safeRedirectPath(searchParams.get("next")) ?? "/dashboard";
+  const emailRedirectTo = `${window.location.origin}/auth?next=${encodeURIComponent(redirectTo)}`;
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setSent(null);
+    setLinkError(null);
+    setUnconfirmedEmail(null);
+  };
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setLinkError(null);
 
     try {
-      if (isSignUp) {
+      if (mode === "signup") {
         const { error } = await supabase.auth.signUp({
           email,
           password,
-          options: {
-            emailRedirectTo: `${window.location.origin}/`
-          }
+          options: { emailRedirectTo },
         });
         if (error) throw error;
-        toast.success("Check your email to confirm your account");
+        setUnconfirmedEmail(email);
+        setSent("signup");
+      } else if (mode === "magic") {
+        const { error } = await supabase.auth.signInWithOtp({
+          email,
+          // Magic links are a login method only; new accounts still go through sign-up
+          options: { emailRedirectTo, shouldCreateUser: false },
+        });
+        if (error) throw error;
+        setSent("magic");
+      } else if (mode === "forgot") {
+        const { error } = await supabase.auth.resetPasswordForEmail(email, {
+          redirectTo: `${window.location.origin}/update-password`,
+        });
+        if (error) throw error;
+        setSent("forgot");
       } else {
         const { error } = await supabase.auth.signInWithPassword({
           email,
           password,
         });
-        if (error) throw error;
+        if (error) {
+          if (authErrorCode(error) === "email_not_confirmed") setUnconfirmedEmail(email);
+          throw error;
+        }
         toast.success("Logged in successfully");
-        navigate("/");
       }
-    } catch (error: any) {
-      toast.error(error.message);
+    } catch (error) {
+      toast.error(authErrorMessage(error));
     } finally {
       setLoading(false);
     }
   };
 
+  const resendConfirmation = async () => {
+    if (!unconfirmedEmail) return;
+    setResending(true);
+    try {
+      const { error } = await supabase.auth.resend({
+        type: "signup",
+        email: unconfirmedEmail,
+        options: { emailRedirectTo },
+      });
+      if (error) throw error;
+      toast.success(`Confirmation email sent to ${unconfirmedEmail}`);
+    } catch (error) {
+      toast.error(authErrorMessage(error));
+    } finally {
+      setResending(false);
+    }
+  };
+
+  if (sessionLoading) {
+    return <FullPageLoader />;
+  }
+
+  // Password and email-link logins land here first when the account has an authenticator
+  if (session && mfaRequired) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <MfaChallenge />
+      </div>
+    );
+  }
+
+  // Also covers a successful login: the new session re-renders this page
+  if (session) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const copy = MODE_COPY[mode];
+  const needsPassword = mode === "login" || mode === "signup";
+
+  const resendButton = unconfirmedEmail && (
+    <Button type="button" variant="outline" className="w-full" onClick={resendConfirmation} disabled={resending}>
+      {resending ? "Sending..." : "Resend confirmation email"}
+    </Button>
+  );
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
-        <CardHeader>
-          <CardTitle>{isSignUp ? "Create Account" : "Login"}</CardTitle>
-          <CardDescription>
-            {isSignUp
-              ? "Sign up to create your account"
-              : "Enter your credentials to access your dashboard"}
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleAuth} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="your@email.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="••••••••"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                minLength={6}
-              />
-            </div>
-            <Button type="submit" className="w-full" disabled={loading}>
-              {loading ? "Loading..." : isSignUp ? "Sign Up" : "Login"}
-            </Button>
-          </form>
-          <div className="mt-4 text-center text-sm">
-            <button
-              type="button"
-              onClick={() => setIsSignUp(!isSignUp)}
-              className="text-primary hover:underline"
-            >
-              {isSignUp
-                ? "Already have an account? Login"
-                : "Don't have an account? Sign up"}
-            </button>
-          </div>
-        </CardContent>
+        {sent ? (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MailCheck className="h-5 w-5 text-primary" />
+                Check your email
+              </CardTitle>
+              <CardDescription>
+                We sent an email to <span className="font-medium text-foreground">{email}</span>. {SENT_COPY[sent]}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {sent === "signup" && resendButton}
+              <p className="text-sm text-muted-foreground">Nothing arrived? Check your spam folder, or try again in a minute.</p>
+              <Button type="button" variant="ghost" className="w-full" onClick={() => switchMode("login")}>
+                Back to login
+              </Button>
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>{copy.title}</CardTitle>
+              <CardDescription>{copy.description}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {linkError && (
+                <Alert variant="destructive" className="mb-4">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{linkError}</AlertDescription>
+                </Alert>
+              )}
+              <form onSubmit={handleAuth} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="your@email.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+                {needsPassword && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="password">Password</Label>
+                      {mode === "login" && (
+                        <button
+                          type="button"
+                          onClick={() => switchMode("forgot")}
+                          className="text-xs text-primary hover:underline"
+                        >
+                          Forgot password?
+                        </button>
+                      )}
+                    </div>
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder="••••••••"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      minLength={6}
+                    />
+                  </div>
+                )}
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? "Loading..." : copy.submit}
+                </Button>
+                {mode === "login" && resendButton}
+              </form>
+              <div className="mt-4 flex flex-col items-center gap-2 text-sm">
+                {mode === "login" && (
+                  <button type="button" onClick={() => switchMode("magic")} className="text-primary hover:underline">
+                    Email me a login link instead
+                  </button>
+                )}
+                {mode === "login" || mode === "signup" ? (
+                  <button
+                    type="button"
+                    onClick={() => switchMode(mode === "signup" ? "login" : "signup")}
+                    className="text-primary hover:underline"
+                  >
+                    {mode === "signup"
+                      ? "Already have an account? Login"
+                      : "Don't have an account? Sign up"}
+                  </button>
+                ) : (
+                  <button type="button" onClick={() => switchMode("login")} className="text-primary hover:underline">
+                    Back to login with password
+                  </button>
+                )}
+              </div>
+            </CardContent>
+          </>
+        )}
       </Card>
     </div>
   );
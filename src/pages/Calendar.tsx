@@ -0,0 +1,17 @@
+import { useNavigate } from 'react-router-dom';
+import { useAppContext } from '@/hooks/use-app-context';
+import { ContentCalendar } from '@/components/calendar/ContentCalendar';
+import { canEditPosts } from '@/lib/data-source';
+
+const Calendar = () => {
+  const navigate = useNavigate();
+  const { workspace, videoSource } = useAppContext();
+
+  return (
+    <main className="max-w-7xl mx-auto px-6 py-8">
+      <ContentCalendar source={videoSource} workspaceId={workspace.id} readOnly={!canEditPosts(videoSource, workspace.role)} onOpenPost={videoId => navigate(`/posts/${videoId}`)} />
+    </main>
+  );
+};
+
+export default Calendar;
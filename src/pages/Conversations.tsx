@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Loader2, MessagesSquare, RefreshCw, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { ChatTranscript } from '@/components/conversations/ChatTranscript';
+import { ConversationLinks } from '@/components/conversations/ConversationLinks';
+import { SessionList } from '@/components/conversations/SessionList';
+import {
+  ChatMessage,
+  ChatSession,
+  CHAT_MESSAGE_LIMIT,
+  CHAT_SESSION_LIMIT,
+  conversationPhone,
+  fetchChatMessages,
+  fetchChatSessions,
+} from '@/lib/conversations';
+import { getErrorMessage } from '@/lib/utils';
+
+const Conversations = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get('q') ?? '';
+  const selectedId = searchParams.get('session');
+  const [searchInput, setSearchInput] = useState(search);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSessions(await fetchChatSessions(search));
+    } catch (err) {
+      console.error('Fetch chat sessions error:', err);
+      toast.error(`Could not load conversations: ${getErrorMessage(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [search]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+
+    let cancelled = false;
+    setMessages(null);
+    fetchChatMessages(selectedId)
+      .then(result => {
+        if (!cancelled) setMessages(result);
+      })
+      .catch(err => {
+        toast.error(`Could not load the transcript: ${getErrorMessage(err)}`);
+        if (!cancelled) setMessages([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const updateParams = (changes: { q?: string; session?: string | null }) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    });
+    setSearchParams(params);
+  };
+
+  const selectedSession = sessions.find(s => s.session_id === selectedId);
+
+  return (
+    <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Conversations</h2>
+          <p className="text-muted-foreground mt-1">Chatbot transcripts, newest first. Showing up to {CHAT_SESSION_LIMIT} sessions.</p>
+        </div>
+        <button
+          onClick={loadSessions}
+          disabled={loading}
+          className="px-4 py-2.5 bg-white border border-border text-foreground font-medium rounded-xl shadow-soft hover:bg-secondary transition-all flex items-center gap-2 disabled:opacity-50"
+        >
+          <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-medium border border-border overflow-hidden grid md:grid-cols-[340px_1fr] min-h-[600px]">
+        <div className="border-r border-border flex flex-col">
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              updateParams({ q: searchInput.trim() });
+            }}
+            className="p-3 border-b border-border relative"
+          >
+            <Search size={16} className="absolute left-6 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <input
+              value={searchInput}
+              onChange={e => setSearchInput(e.target.value)}
+              placeholder="Search messages or session IDs"
+              className="w-full pl-9 p-2.5 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none text-sm"
+            />
+          </form>
+
+          <div className="flex-1 overflow-y-auto max-h-[calc(100vh-280px)]">
+            {loading && sessions.length === 0 ? (
+              <div className="flex justify-center py-12">
+                <Loader2 size={24} className="animate-spin text-muted-foreground" />
+              </div>
+            ) : sessions.length === 0 ? (
+              <p className="p-6 text-sm text-center text-muted-foreground">
+                {search ? 'No conversations mention that.' : 'No conversations yet. Conversations are only visible to the support team.'}
+              </p>
+            ) : (
+              <SessionList sessions={sessions} selectedId={selectedId} onSelect={id => updateParams({ session: id })} />
+            )}
+          </div>
+        </div>
+
+        {selectedId ? (
+          <div className="grid lg:grid-cols-[1fr_260px] min-h-0">
+            <div className="p-6 space-y-4 overflow-y-auto max-h-[calc(100vh-200px)]">
+              <div>
+                <h3 className="text-lg font-bold text-foreground font-mono break-all">{selectedId}</h3>
+                {selectedSession && selectedSession.message_count > CHAT_MESSAGE_LIMIT && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the latest {CHAT_MESSAGE_LIMIT} of {selectedSession.message_count} messages.
+                  </p>
+                )}
+              </div>
+              {messages === null ? (
+                <Loader2 size={24} className="animate-spin text-muted-foreground" />
+              ) : messages.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This session has no messages.</p>
+              ) : (
+                <ChatTranscript messages={messages} />
+              )}
+            </div>
+            <aside className="border-t lg:border-t-0 lg:border-l border-border p-4">
+              {messages && <ConversationLinks phone={conversationPhone(selectedId, messages)} />}
+            </aside>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center gap-2 text-muted-foreground p-12">
+            <MessagesSquare size={32} />
+            <p className="text-sm">Pick a conversation to read its transcript.</p>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default Conversations;
@@ -0,0 +1,499 @@
+import { useState, useEffect } from 'react';
+import { Navigate, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Upload, PlayCircle, X, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAppContext } from '@/hooks/use-app-context';
+import { ProductPicker } from '@/components/products/ProductPicker';
+import { uploadAdAsset } from '@/lib/assets';
+import { clearCreateFormDraft, CreateTab, isCreateTab, loadCreateFormDraft, saveCreateFormDraft } from '@/lib/create-form';
+import type { GenerationPayload } from '@/lib/jobs';
+import { fetchProduct, parseImageUrls, Product } from '@/lib/products';
+import { getWebhookTarget } from '@/lib/settings';
+import { getErrorMessage } from '@/lib/utils';
+import { isSuccessful, parseResponseBody, sendWebhook } from '@/lib/webhooks';
+import { can, WORKSPACE_ROLE_LABELS } from '@/lib/workspaces';
+
+interface CreateAdFormProps {
+  activeTab: CreateTab;
+}
+
+const CreateAdForm = ({ activeTab }: CreateAdFormProps) => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { userId, settings, workspace } = useAppContext();
+
+  // Restored from the persisted draft (text only - images NOT persisted)
+  const [draft] = useState(loadCreateFormDraft);
+  const [prompt, setPrompt] = useState(draft.prompt);
+  const [file, setFile] = useState<File | null>(null);
+  const [filePreview, setFilePreview] = useState<string | null>(null);
+  const [productName, setProductName] = useState(draft.productName);
+  const [productDescription, setProductDescription] = useState(draft.productDescription);
+  const [aspectRatio, setAspectRatio] = useState<'Portrait' | 'Landscape'>(draft.aspectRatio);
+  const [productId, setProductId] = useState<number | null>(draft.productId);
+  const [productImageUrl, setProductImageUrl] = useState<string | null>(draft.productImageUrl);
+  const [submitting, setSubmitting] = useState(false);
+
+  const setActiveTab = (tab: CreateTab) => navigate(`/create/${tab}`);
+
+  // Persist data on change (text only - images NOT persisted)
+  useEffect(() => {
+    saveCreateFormDraft({ activeTab, prompt, productName, productDescription, aspectRatio, productId, productImageUrl });
+  }, [activeTab, prompt, productName, productDescription, aspectRatio, productId, productImageUrl]);
+
+  const handleProductSelect = (product: Product) => {
+    setProductId(product.Id);
+    setProductName(product.product_name ?? '');
+    setProductDescription(product.product_description ?? '');
+    setProductImageUrl(parseImageUrls(product['Product Image URLs'])[0] ?? null);
+  };
+
+  const clearProduct = () => {
+    setProductId(null);
+    setProductImageUrl(null);
+  };
+
+  // The Products page links here with ?product=<id> to start an ad from a catalog product
+  const prefillProductId = Number(searchParams.get('product')) || null;
+
+  useEffect(() => {
+    if (!prefillProductId) return;
+
+    fetchProduct(prefillProductId)
+      .then(product => {
+        if (!product) {
+          toast.error('That product no longer exists');
+          return;
+        }
+        setProductId(product.Id);
+        setProductName(product.product_name ?? '');
+        setProductDescription(product.product_description ?? '');
+        setProductImageUrl(parseImageUrls(product['Product Image URLs'])[0] ?? null);
+      })
+      .catch(err => toast.error(getErrorMessage(err)))
+      .finally(() => setSearchParams({}, { replace: true }));
+  }, [prefillProductId, setSearchParams]);
+
+  const handleFileChange = (selectedFile: File | null) => {
+    setFile(selectedFile);
+    if (selectedFile) {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        setFilePreview(reader.result as string);
+      };
+      reader.readAsDataURL(selectedFile);
+    } else {
+      setFilePreview(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    // Check if at least one webhook is configured
+    const webhook = getWebhookTarget(settings, 'generate');
+    
+    if (!webhook.url) {
+      toast.error('Please configure at least one n8n webhook in Settings!');
+      return;
+    }
+
+    // A catalog product's image is reused instead of uploading a file
+    const reusedImageUrl = activeTab !== 'reels' && !file ? productImageUrl : null;
+
+    // Validate file upload
+    if (!file && !reusedImageUrl) {
+      toast.error('Please upload an image or video!');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      // Upload file to Supabase storage and get public URL
+      const publicUrl = reusedImageUrl ?? await uploadAdAsset(file);
+
+      // Build clean payload for n8n with uploaded image URL
+      const webhookPayload: GenerationPayload = {
+        type: activeTab,
+        prompt: prompt,
+        aspect_ratio: aspectRatio,
+        user_id: userId,
+        // n8n should store this on the post; the database falls back to the job's workspace
+        workspace_id: workspace.id,
+      };
+
+      if (activeTab === 'reels') {
+        webhookPayload.image_url = publicUrl;
+      } else {
+        webhookPayload.product_name = productName;
+        webhookPayload.product_description = productDescription;
+        webhookPayload.product_image_url = publicUrl;
+        if (productId) {
+          webhookPayload.product_id = productId;
+        }
+      }
+
+      // Record the request before sending so failures inside n8n stay traceable
+      const { data: job, error: jobError } = await supabase
+        .from('generation_jobs')
+        .insert({ user_id: userId, workspace_id: workspace.id, type: activeTab, request_payload: webhookPayload })
+        .select()
+        .single();
+
+      if (jobError) {
+        throw new Error(`Could not create generation job: ${jobError.message}`);
+      }
+
+      // n8n stores job_id on the social_media_videos row it creates
+      webhookPayload.job_id = job.id;
+
+      console.log('Sending to n8n webhook:', webhook.url, webhookPayload);
+
+      let result: Json;
+      try {
+        // The job id doubles as the request id, so n8n can ignore a duplicate delivery of the same job
+        const exchange = await sendWebhook('generate', webhook.url, webhookPayload, { secret: webhook.secret, requestId: job.id });
+
+        if (!isSuccessful(exchange)) {
+          throw new Error(`Webhook failed (${exchange.response.status}): ${exchange.response.body}`);
+        }
+
+        result = parseResponseBody(exchange) as Json;
+        console.log('n8n response:', result);
+      } catch (webhookErr) {
+        const message = getErrorMessage(webhookErr);
+        await supabase
+          .from('generation_jobs')
+          .update({ state: 'failed', error: message, completed_at: new Date().toISOString() })
+          .eq('id', job.id);
+        throw webhookErr;
+      }
+
+      await supabase
+        .from('generation_jobs')
+        .update({ state: 'running', n8n_response: result, started_at: new Date().toISOString() })
+        .eq('id', job.id)
+        .eq('state', 'queued');
+      
+      toast.success('Video request submitted! Track its progress under Jobs.');
+      
+      // Clear form
+      setPrompt('');
+      setProductName('');
+      setProductDescription('');
+      setFile(null);
+      setFilePreview(null);
+      clearProduct();
+      clearCreateFormDraft();
+      
+      // Stay on current page - do not auto-switch tabs
+
+    } catch (err) {
+      console.error('Submit error:', err);
+      toast.error(`Error: ${getErrorMessage(err)}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="max-w-7xl mx-auto px-6 py-8">
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold text-foreground">Create New Ad</h2>
+          <p className="text-muted-foreground mt-2">Generate professional video ads powered by AI</p>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex gap-2 mb-6">
+          <button
+            onClick={() => setActiveTab('reels')}
+            className={`flex-1 py-4 px-6 rounded-xl font-bold transition-all ${
+              activeTab === 'reels'
+                ? 'bg-gradient-pink text-white shadow-large'
+                : 'bg-white border border-border text-muted-foreground hover:border-primary/50'
+            }`}
+          >
+            Update Product Image
+          </button>
+          <button
+            onClick={() => setActiveTab('product')}
+            className={`flex-1 py-4 px-6 rounded-xl font-bold transition-all ${
+              activeTab === 'product'
+                ? 'bg-gradient-blue text-white shadow-large'
+                : 'bg-white border border-border text-muted-foreground hover:border-primary/50'
+            }`}
+          >
+            Product Ads
+          </button>
+          <button
+            onClick={() => setActiveTab('ugc')}
+            className={`flex-1 py-4 px-6 rounded-xl font-bold transition-all ${
+              activeTab === 'ugc'
+                ? 'bg-gradient-purple text-white shadow-large'
+                : 'bg-white border border-border text-muted-foreground hover:border-primary/50'
+            }`}
+          >
+            UGC Ads
+          </button>
+        </div>
+
+        {/* Form */}
+        <div className="bg-white rounded-2xl shadow-xl border border-border p-8">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {activeTab === 'reels' && (
+              <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <label className="block text-sm font-bold text-foreground">
+                      Upload Image
+                    </label>
+                    {file && (
+                      <button
+                        type="button"
+                        onClick={() => handleFileChange(null)}
+                        className="p-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                        title="Clear file"
+                      >
+                        <X size={16} />
+                      </button>
+                    )}
+                  </div>
+                  <div className="border-2 border-dashed border-border rounded-xl p-8 text-center hover:bg-muted transition-colors group cursor-pointer relative">
+                    <input
+                      type="file"
+                      required
+                      onChange={e => handleFileChange(e.target.files?.[0] || null)}
+                      className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                      accept="image/*"
+                    />
+                    {filePreview ? (
+                      <div className="space-y-3">
+                        <img src={filePreview} alt="Preview" className="max-h-48 mx-auto rounded-lg" />
+                        <p className="text-sm text-muted-foreground">{file?.name}</p>
+                      </div>
+                    ) : (
+                      <div className="flex flex-col items-center gap-3 text-muted-foreground group-hover:text-primary transition-colors">
+                        <Upload size={32} />
+                        <span className="text-sm font-medium">Click to upload image</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-3">
+               <div className="flex items-center justify-between">
+                 <label className="block text-sm font-bold text-foreground">
+                   {activeTab === 'reels' ? 'AI Prompt Instructions' : 'Ad Instructions / Prompt'}
+                 </label>
+                 {prompt && (
+                   <button
+                     type="button"
+                     onClick={() => setPrompt('')}
+                     className="p-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                     title="Clear prompt"
+                   >
+                     <X size={16} />
+                   </button>
+                 )}
+               </div>
+               <textarea 
+                 required
+                 className="w-full p-4 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all h-32 resize-none outline-none"
+                 placeholder={activeTab === 'reels' ? "Describe what changes or enhancements you want..." : "Describe the product benefits and the vibe of the video..."}
+                 value={prompt}
+                 onChange={e => setPrompt(e.target.value)}
+               />
+            </div>
+
+            {/* Aspect Ratio - For ALL tabs */}
+            <div className="space-y-3 animate-in fade-in slide-in-from-bottom-4">
+              <label className="block text-sm font-bold text-foreground">
+                Choose Aspect Ratio
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                <button
+                  type="button"
+                  onClick={() => setAspectRatio('Portrait')}
+                  className={`p-4 rounded-xl border-2 font-semibold transition-all ${
+                    aspectRatio === 'Portrait'
+                      ? 'border-primary bg-primary/10 text-primary shadow-medium'
+                      : 'border-border text-muted-foreground hover:border-primary/50 hover:bg-muted'
+                  }`}
+                >
+                  Portrait (9:16)
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setAspectRatio('Landscape')}
+                  className={`p-4 rounded-xl border-2 font-semibold transition-all ${
+                    aspectRatio === 'Landscape'
+                      ? 'border-primary bg-primary/10 text-primary shadow-medium'
+                      : 'border-border text-muted-foreground hover:border-primary/50 hover:bg-muted'
+                  }`}
+                >
+                  Landscape (16:9)
+                </button>
+              </div>
+            </div>
+
+            {activeTab !== 'reels' && (
+              <>
+                <ProductPicker
+                  selectedId={productId}
+                  selectedImageUrl={productImageUrl}
+                  onSelect={handleProductSelect}
+                  onImageSelect={setProductImageUrl}
+                  onClear={clearProduct}
+                />
+
+                {/* Product Name */}
+                <div className="space-y-3 animate-in fade-in slide-in-from-bottom-4">
+                  <div className="flex items-center justify-between">
+                    <label className="block text-sm font-bold text-foreground">
+                      Product Name
+                    </label>
+                    {productName && (
+                      <button
+                        type="button"
+                        onClick={() => setProductName('')}
+                        className="p-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                        title="Clear product name"
+                      >
+                        <X size={16} />
+                      </button>
+                    )}
+                  </div>
+                  <input 
+                    type="text"
+                    required
+                    className="w-full p-4 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+                    placeholder="Enter product name..."
+                    value={productName}
+                    onChange={e => setProductName(e.target.value)}
+                  />
+                </div>
+
+                {/* Product Description */}
+                <div className="space-y-3 animate-in fade-in slide-in-from-bottom-4">
+                  <div className="flex items-center justify-between">
+                    <label className="block text-sm font-bold text-foreground">
+                      Product Description
+                    </label>
+                    {productDescription && (
+                      <button
+                        type="button"
+                        onClick={() => setProductDescription('')}
+                        className="p-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                        title="Clear description"
+                      >
+                        <X size={16} />
+                      </button>
+                    )}
+                  </div>
+                  <textarea 
+                    required
+                    className="w-full p-4 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all h-24 resize-none outline-none"
+                    placeholder="Describe your product features and benefits..."
+                    value={productDescription}
+                    onChange={e => setProductDescription(e.target.value)}
+                  />
+                </div>
+
+                {/* File Upload for Product & UGC */}
+                <div className="space-y-3 animate-in fade-in slide-in-from-bottom-4">
+                  <div className="flex items-center justify-between">
+                    <label className="block text-sm font-bold text-foreground">
+                       {activeTab === 'product' ? 'Upload Product Image' : 'Upload UGC Media'}
+                    </label>
+                    {file && (
+                      <button
+                        type="button"
+                        onClick={() => handleFileChange(null)}
+                        className="p-1 rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                        title="Clear file"
+                      >
+                        <X size={16} />
+                      </button>
+                    )}
+                  </div>
+
+                  <div className="border-2 border-dashed border-border rounded-xl p-8 text-center hover:bg-muted transition-colors group cursor-pointer relative">
+                    <input 
+                        type="file"
+                        required={!productImageUrl}
+                        onChange={e => handleFileChange(e.target.files?.[0] || null)}
+                        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                        accept="image/*,video/*"
+                    />
+                    {filePreview ? (
+                      <div className="space-y-3">
+                        {file?.type.startsWith('image/') ? (
+                          <img src={filePreview} alt="Preview" className="max-h-48 mx-auto rounded-lg" />
+                        ) : (
+                          <video src={filePreview} className="max-h-48 mx-auto rounded-lg" controls />
+                        )}
+                        <p className="text-sm text-muted-foreground">{file?.name}</p>
+                      </div>
+                    ) : productImageUrl ? (
+                      <div className="space-y-3">
+                        <img src={productImageUrl} alt="Product" className="max-h-48 mx-auto rounded-lg" />
+                        <p className="text-sm text-muted-foreground">Using the catalog image. Click to upload a different file.</p>
+                      </div>
+                    ) : (
+                      <div className="flex flex-col items-center gap-3 text-muted-foreground group-hover:text-primary transition-colors">
+                        <Upload size={32} />
+                        <span className="text-sm font-medium">{activeTab === 'product' ? 'Click to upload product image' : 'Click to upload UGC media'}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+
+            <button 
+              type="submit" 
+              disabled={submitting}
+              className={`w-full py-4 rounded-xl font-bold text-white shadow-large hover:shadow-xl transition-all flex justify-center items-center gap-3 transform active:scale-[0.99] 
+                ${activeTab === 'reels' ? 'bg-gradient-pink' : 
+                  activeTab === 'product' ? 'bg-gradient-blue' : 
+                  'bg-gradient-purple'}`}
+            >
+              {submitting ? <Loader2 className="animate-spin" /> : <PlayCircle fill="currentColor" />}
+              {activeTab === 'reels' ? 'Update Image' : 'Generate Ad Campaign'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </main>
+  );
+};
+
+// /create/:type picks the form tab; a bare /create reopens the tab of the saved draft
+const CreateAd = () => {
+  const { type } = useParams();
+  const { workspace } = useAppContext();
+
+  if (!can(workspace.role, 'editPosts')) {
+    return (
+      <main className="max-w-3xl mx-auto px-6 py-16 text-center">
+        <h2 className="text-2xl font-bold text-foreground">You can't create ads in {workspace.name}</h2>
+        <p className="text-muted-foreground mt-2">
+          {WORKSPACE_ROLE_LABELS[workspace.role]}s can read posts but not add them. Ask a workspace owner to make you an editor.
+        </p>
+      </main>
+    );
+  }
+
+  if (!isCreateTab(type)) {
+    return <Navigate to={`/create/${loadCreateFormDraft().activeTab}`} replace />;
+  }
+
+  return <CreateAdForm activeTab={type} />;
+};
+
+export default CreateAd;
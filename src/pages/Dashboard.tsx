@@ -0,0 +1,354 @@
+import { useCallback, useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Video, RefreshCw, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAppContext } from '@/hooks/use-app-context';
+import { usePostActions } from '@/hooks/use-post-actions';
+import { useVideoRealtime } from '@/hooks/use-video-realtime';
+import { applyVideoChange, VideoChange, VideoPost, writtenRow } from '@/lib/videos';
+import { defaultTargetPlatforms, Platform } from '@/lib/platforms';
+import { PostCard } from '@/components/dashboard/PostCard';
+import { PostFilters } from '@/components/dashboard/PostFilters';
+import { PostPagination } from '@/components/dashboard/PostPagination';
+import { BulkActionBar } from '@/components/dashboard/BulkActionBar';
+import { BulkResultsDialog } from '@/components/dashboard/BulkResultsDialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { BulkResult, downloadMediaZip, replaceHashtags, runBulk } from '@/lib/bulk';
+import { fetchUnreadComments, UnreadComments } from '@/lib/comments';
+import { canEditPosts } from '@/lib/data-source';
+import { assertHashtagLimits } from '@/lib/hashtags';
+import { getErrorMessage } from '@/lib/utils';
+import { fetchVideoPage, isDefaultQuery, PAGE_SIZE, parseVideoQuery, toSearchParams, VideoQuery } from '@/lib/video-query';
+
+const Dashboard = () => {
+  const navigate = useNavigate();
+  const { workspace, videoSource } = useAppContext();
+  const canEdit = canEditPosts(videoSource, workspace.role);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const videoQuery = parseVideoQuery(searchParams);
+  const videoQueryKey = toSearchParams(videoQuery).toString();
+  const [videos, setVideos] = useState<VideoPost[]>([]);
+  const [totalVideos, setTotalVideos] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [newArrivalIds, setNewArrivalIds] = useState<number[]>([]);
+  const [targetPlatforms, setTargetPlatforms] = useState<Record<number, Platform[]>>({});
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [bulkResults, setBulkResults] = useState<{ title: string; results: BulkResult[] } | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<number | null>(null);
+  const [unreadComments, setUnreadComments] = useState<Record<number, UnreadComments>>({});
+
+  const { postToSocials, handlePostToSocials, schedulePost, updateVideoField, reviewPost, restoreRevision, removeVideo } = usePostActions(
+    (videoId, changes) => setVideos(prev => prev.map(v => v.id === videoId ? { ...v, ...changes } : v))
+  );
+
+  const fetchVideos = useCallback(async (announce = false) => {
+    const query = parseVideoQuery(new URLSearchParams(videoQueryKey));
+    setLoading(true);
+    try {
+      const { videos: data, total, error } = await fetchVideoPage(videoSource, workspace.id, query);
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw new Error(`Database error: ${error.message}. Check RLS policies.`);
+      }
+
+      // A shared link or a bulk delete can leave us past the last page
+      if (data.length === 0 && total > 0 && query.page > 1) {
+        setSearchParams(toSearchParams({ ...query, page: Math.ceil(total / PAGE_SIZE) }));
+        return;
+      }
+
+      console.log('Fetched videos:', data);
+      setVideos(data);
+      setTotalVideos(total);
+      setNewArrivalIds([]);
+      setSelectedIds([]);
+
+      // The badges are secondary, so a failure here only logs. Brand projects have no comments.
+      if (!videoSource.isCustomProject) {
+        fetchUnreadComments(videoSource, data.map(v => v.id))
+          .then(setUnreadComments)
+          .catch(err => console.error('Unread comments error:', err));
+      }
+
+      if (announce && data.length > 0) {
+        toast.success(`Loaded ${data.length} of ${total} video(s)`);
+      }
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+      console.error('Fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [videoQueryKey, videoSource, workspace.id, setSearchParams]);
+
+  const setVideoQuery = (query: VideoQuery) => {
+    setSearchParams(toSearchParams(query));
+  };
+
+  const handleRealtimeChange = (change: VideoChange) => {
+    const markArrival = (id: number) => setNewArrivalIds(prev => prev.includes(id) ? prev : [...prev, id]);
+
+    if (change.eventType === 'INSERT') {
+      markArrival(change.new.id);
+      // Filtered or later pages are refetched when the indicator is clicked instead
+      if (!isDefaultQuery(videoQuery)) return;
+      setTotalVideos(prev => prev + 1);
+      setVideos(prev => applyVideoChange(prev, change).slice(0, PAGE_SIZE));
+      return;
+    }
+
+    if (change.eventType === 'UPDATE') {
+      // A processing row that just received its media also counts as a new arrival
+      const previous = videos.find(v => v.id === change.new.id);
+      if (previous && !previous.video_url && change.new.video_url) {
+        markArrival(change.new.id);
+      }
+    }
+
+    if (change.eventType === 'DELETE') {
+      setNewArrivalIds(prev => prev.filter(id => id !== change.old.id));
+      if (videos.some(v => v.id === change.old.id)) {
+        setTotalVideos(prev => Math.max(prev - 1, 0));
+      }
+    }
+    setVideos(prev => applyVideoChange(prev, change));
+  };
+
+  useVideoRealtime(videoSource, workspace.id, handleRealtimeChange);
+
+  const dismissNewArrivals = () => {
+    const offPage = newArrivalIds.some(id => !videos.some(v => v.id === id));
+    setNewArrivalIds([]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    if (offPage) {
+      fetchVideos();
+    }
+  };
+
+  const dropVideo = (videoId: number) => {
+    setVideos(prev => prev.filter(v => v.id !== videoId));
+    setSelectedIds(prev => prev.filter(id => id !== videoId));
+    setTotalVideos(prev => Math.max(prev - 1, 0));
+  };
+
+  const deleteVideo = async (videoId: number) => {
+    setLoading(true);
+    try {
+      await removeVideo(videoId);
+      dropVideo(videoId);
+      toast.success('Post deleted successfully');
+    } catch (err) {
+      console.error('Delete error:', err);
+      toast.error(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const targetsFor = (video: VideoPost) => targetPlatforms[video.id] ?? defaultTargetPlatforms(video);
+
+  const selectedVideos = videos.filter(v => selectedIds.includes(v.id));
+
+  const toggleSelected = (videoId: number, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, videoId] : prev.filter(id => id !== videoId));
+  };
+
+  const runBulkAction = async (title: string, action: () => Promise<BulkResult[]>) => {
+    setBulkBusy(true);
+    try {
+      const results = await action();
+      setBulkResults({ title, results });
+      if (results.every(r => r.ok)) {
+        setSelectedIds([]);
+      } else {
+        // Keep failed items selected so they can be retried
+        setSelectedIds(results.filter(r => !r.ok).map(r => r.id));
+      }
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const bulkPost = () => runBulkAction('Post to social media', () =>
+    runBulk(selectedVideos, video => postToSocials(video, targetsFor(video)))
+  );
+
+  const bulkDelete = () => runBulkAction('Delete posts', () =>
+    runBulk(selectedVideos, async video => {
+      await removeVideo(video.id);
+      dropVideo(video.id);
+    })
+  );
+
+  const bulkReplaceHashtags = (find: string, replacement: string) => runBulkAction('Replace hashtags', () =>
+    runBulk(selectedVideos, async video => {
+      const hashtag = replaceHashtags(video.hashtag, find, replacement) || null;
+      // The same limits a single edit is held to; a post that would break them is reported and left as it was
+      assertHashtagLimits({ ...video, hashtag }, targetsFor(video));
+
+      const { data, error } = await videoSource.client
+        .from(videoSource.table)
+        .update({ hashtag })
+        .eq('id', video.id)
+        .select();
+
+      if (error) throw error;
+      const saved = writtenRow(data, 'change') as VideoPost;
+      setVideos(prev => prev.map(v => v.id === video.id ? { ...v, ...saved } : v));
+    })
+  );
+
+  const bulkDownload = () => runBulkAction('Download media', () => downloadMediaZip(selectedVideos));
+
+  useEffect(() => {
+    fetchVideos();
+  }, [fetchVideos]);
+
+  return (
+    <main className={`max-w-7xl mx-auto px-6 py-8 ${selectedIds.length > 0 ? 'pb-28' : ''}`}>
+      <div className="space-y-8">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-3xl font-bold text-foreground">Post Preview</h2>
+            <p className="text-muted-foreground mt-1">Manage and publish your generated video posts</p>
+          </div>
+          <button
+            onClick={() => fetchVideos(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-border rounded-xl hover:bg-secondary text-foreground shadow-soft transition-all"
+          >
+            <RefreshCw size={16} className={loading ? 'animate-spin' : ''} /> Refresh
+          </button>
+        </div>
+
+        {newArrivalIds.length > 0 && (
+          <button
+            onClick={dismissNewArrivals}
+            className="sticky top-24 z-40 mx-auto flex items-center gap-2 px-4 py-2 rounded-full bg-primary text-primary-foreground text-sm font-medium shadow-medium animate-in fade-in slide-in-from-top-2"
+          >
+            <Sparkles size={14} />
+            {newArrivalIds.length === 1 ? 'New post arrived' : `${newArrivalIds.length} new posts arrived`}
+          </button>
+        )}
+
+        <PostFilters query={videoQuery} onChange={setVideoQuery} />
+
+        <div className="grid grid-cols-1 gap-8">
+          {videos.length === 0 && !isDefaultQuery(videoQuery) ? (
+            <div className="text-center py-20 bg-white rounded-2xl border border-dashed border-border shadow-soft">
+              <p className="text-lg font-semibold text-foreground">No posts match your filters</p>
+              <p className="text-muted-foreground mt-1">Try a different search or clear the filters.</p>
+            </div>
+          ) : videos.length === 0 ? (
+            <div className="text-center py-20 bg-white rounded-2xl border border-dashed border-border shadow-soft">
+              <div className="flex flex-col items-center gap-4">
+                <div className="w-16 h-16 rounded-full bg-gradient-blue flex items-center justify-center">
+                  <Video className="w-8 h-8 text-white" />
+                </div>
+                <div>
+                  <p className="text-lg font-semibold text-foreground">No posts found</p>
+                  <p className="text-muted-foreground mt-1">
+                    {canEdit ? 'Create your first ad to get started!' : `Nobody has created an ad in ${workspace.name} yet.`}
+                  </p>
+                </div>
+                {canEdit && (
+                  <button
+                    onClick={() => navigate('/create')}
+                    className="mt-4 px-6 py-3 bg-gradient-pink text-white font-semibold rounded-xl shadow-medium hover:shadow-large transition-all"
+                  >
+                    Create First Ad
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            videos.map((video) => (
+              <PostCard
+                key={video.id}
+                video={video}
+                highlighted={newArrivalIds.includes(video.id)}
+                readOnly={!canEdit}
+                selected={canEdit ? selectedIds.includes(video.id) : undefined}
+                onSelectedChange={checked => toggleSelected(video.id, checked)}
+                targetPlatforms={targetsFor(video)}
+                onTargetPlatformsChange={platforms => setTargetPlatforms(prev => ({ ...prev, [video.id]: platforms }))}
+                onSaveField={(field, value) => updateVideoField(video.id, field, value)}
+                onPost={platforms => handlePostToSocials(video, platforms)}
+                onSchedule={(platforms, at) => schedulePost(video, platforms, at)}
+                onReview={(action, comment) => reviewPost(video, action, comment)}
+                onRestoreRevision={revision => restoreRevision(video.id, revision)}
+                unreadComments={unreadComments[video.id]}
+                onCommentsRead={() => setUnreadComments(prev => ({ ...prev, [video.id]: { unread: 0, mentioned: false } }))}
+                onDelete={() => setPendingDeleteId(video.id)}
+              />
+            ))
+          )}
+        </div>
+
+        {totalVideos > 0 && (
+          <div className="space-y-3">
+            <PostPagination
+              page={videoQuery.page}
+              pageCount={Math.ceil(totalVideos / PAGE_SIZE)}
+              onPageChange={page => {
+                setVideoQuery({ ...videoQuery, page });
+                window.scrollTo({ top: 0, behavior: 'smooth' });
+              }}
+            />
+            <p className="text-center text-xs text-muted-foreground">
+              Showing {(videoQuery.page - 1) * PAGE_SIZE + 1}–{(videoQuery.page - 1) * PAGE_SIZE + videos.length} of {totalVideos} posts
+            </p>
+          </div>
+        )}
+      </div>
+
+      <BulkActionBar
+        selectedCount={selectedVideos.length}
+        allSelected={videos.length > 0 && selectedVideos.length === videos.length}
+        busy={bulkBusy}
+        onToggleAll={checked => setSelectedIds(checked ? videos.map(v => v.id) : [])}
+        onClear={() => setSelectedIds([])}
+        onPost={bulkPost}
+        onDelete={bulkDelete}
+        onReplaceHashtags={bulkReplaceHashtags}
+        onDownload={bulkDownload}
+      />
+
+      <BulkResultsDialog
+        title={bulkResults?.title ?? ''}
+        results={bulkResults?.results ?? null}
+        onClose={() => setBulkResults(null)}
+      />
+
+      <AlertDialog open={pendingDeleteId !== null} onOpenChange={open => !open && setPendingDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this post?</AlertDialogTitle>
+            <AlertDialogDescription>This action cannot be undone.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDeleteId !== null && deleteVideo(pendingDeleteId)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete Post
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </main>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,16 @@
+import { useNavigate } from 'react-router-dom';
+import { useAppContext } from '@/hooks/use-app-context';
+import { JobsView } from '@/components/jobs/JobsView';
+
+const Jobs = () => {
+  const navigate = useNavigate();
+  const { userId } = useAppContext();
+
+  return (
+    <main className="max-w-7xl mx-auto px-6 py-8">
+      <JobsView userId={userId} onOpenPost={videoId => navigate(`/posts/${videoId}`)} />
+    </main>
+  );
+};
+
+export default Jobs;
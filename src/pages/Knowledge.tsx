@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Loader2, Pencil, Plus, RefreshCw, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { DocumentFormDialog } from '@/components/knowledge/DocumentFormDialog';
+import { EmbeddingProviderCard } from '@/components/knowledge/EmbeddingProviderCard';
+import { RetrievalTester } from '@/components/knowledge/RetrievalTester';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { EmbeddingConfig, getEmbeddingProvider, loadEmbeddingConfig, saveEmbeddingConfig } from '@/lib/embeddings';
+import { deleteDocument, fetchDocuments, KnowledgeDocument } from '@/lib/knowledge';
+import { getErrorMessage } from '@/lib/utils';
+
+const Knowledge = () => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<KnowledgeDocument | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<KnowledgeDocument | null>(null);
+  const [embeddingConfig, setEmbeddingConfig] = useState<EmbeddingConfig>(loadEmbeddingConfig);
+
+  const provider = useMemo(() => getEmbeddingProvider(embeddingConfig), [embeddingConfig]);
+
+  const loadDocuments = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await fetchDocuments(search);
+      setDocuments(result.documents);
+      setTotal(result.total);
+    } catch (err) {
+      console.error('Fetch documents error:', err);
+      toast.error(`Could not load documents: ${getErrorMessage(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [search]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const handleConfigChange = (config: EmbeddingConfig) => {
+    setEmbeddingConfig(config);
+    saveEmbeddingConfig(config);
+  };
+
+  const openForm = (document: KnowledgeDocument | null) => {
+    setEditing(document);
+    setFormOpen(true);
+  };
+
+  // Retrieval results can point at documents outside the loaded page
+  const openDocumentById = async (documentId: number) => {
+    const loaded = documents.find(d => d.id === documentId);
+    if (loaded) {
+      openForm(loaded);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, content, metadata')
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (error || !data) {
+      toast.error(error ? getErrorMessage(error) : 'Document not found');
+      return;
+    }
+    openForm(data);
+  };
+
+  const handleSaved = (saved: KnowledgeDocument) => {
+    setDocuments(prev => (prev.some(d => d.id === saved.id) ? prev.map(d => (d.id === saved.id ? saved : d)) : [saved, ...prev]));
+    if (!editing) setTotal(prev => prev + 1);
+    setFormOpen(false);
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteDocument(pendingDelete.id);
+      setDocuments(prev => prev.filter(d => d.id !== pendingDelete.id));
+      setTotal(prev => Math.max(0, prev - 1));
+      toast.success('Document deleted');
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-foreground">Knowledge Base</h2>
+            <p className="text-muted-foreground mt-1">What the support chatbot can retrieve. The support team edits it here; anyone can check what a question brings back.</p>
+          </div>
+          <button
+            onClick={() => openForm(null)}
+            className="px-6 py-2.5 bg-gradient-blue text-white font-medium rounded-xl shadow-medium hover:shadow-large transition-all flex items-center gap-2"
+          >
+            <Plus size={18} />
+            New Document
+          </button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_380px] items-start">
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <form
+                onSubmit={e => {
+                  e.preventDefault();
+                  setSearch(searchInput);
+                }}
+                className="flex-1 relative"
+              >
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <input
+                  value={searchInput}
+                  onChange={e => setSearchInput(e.target.value)}
+                  placeholder="Search document text and press Enter"
+                  className="w-full pl-9 p-3 border border-border rounded-xl bg-white focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none text-sm"
+                />
+              </form>
+              <button
+                onClick={loadDocuments}
+                disabled={loading}
+                className="p-3 rounded-xl text-muted-foreground hover:text-foreground hover:bg-secondary transition-all"
+                title="Refresh"
+              >
+                <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
+              </button>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {total > documents.length
+                ? `Showing the newest ${documents.length} of ${total} documents. Search to narrow it down.`
+                : `${total} document${total === 1 ? '' : 's'}`}
+            </p>
+
+            {loading && documents.length === 0 ? (
+              <div className="flex justify-center py-20">
+                <Loader2 size={32} className="animate-spin text-muted-foreground" />
+              </div>
+            ) : documents.length === 0 ? (
+              <div className="bg-white rounded-2xl shadow-medium border border-border p-12 text-center text-muted-foreground">
+                {search ? 'No documents contain that text.' : 'No documents yet. Add the answers the chatbot should know.'}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {documents.map(document => (
+                  <div key={document.id} className="bg-white rounded-2xl shadow-soft border border-border p-4 flex gap-4">
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <p className="text-sm text-foreground line-clamp-3 whitespace-pre-wrap">{document.content}</p>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="font-mono">#{document.id}</span>
+                        {document.metadata && Object.keys(document.metadata).length > 0 && (
+                          <code className="truncate">{JSON.stringify(document.metadata)}</code>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-start gap-1">
+                      <button
+                        onClick={() => openForm(document)}
+                        className="p-2 rounded-xl text-muted-foreground hover:text-foreground hover:bg-secondary transition-all"
+                        title="Edit document"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        onClick={() => setPendingDelete(document)}
+                        className="p-2 rounded-xl text-muted-foreground hover:text-red-600 hover:bg-red-50 transition-all"
+                        title="Delete document"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-6 lg:sticky lg:top-28">
+            <EmbeddingProviderCard config={embeddingConfig} onChange={handleConfigChange} />
+            <RetrievalTester provider={provider} onOpenDocument={openDocumentById} />
+          </div>
+        </div>
+      </main>
+
+      <DocumentFormDialog
+        open={formOpen}
+        document={editing}
+        provider={provider}
+        onClose={() => setFormOpen(false)}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this document?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete && `Document #${pendingDelete.id} will be removed and the chatbot will no longer retrieve it.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default Knowledge;
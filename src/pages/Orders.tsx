@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Download, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { OrderFilters } from '@/components/orders/OrderFilters';
+import { OrdersTable } from '@/components/orders/OrdersTable';
+import { OrderDetailSheet } from '@/components/orders/OrderDetailSheet';
+import { downloadCsv, CsvColumn } from '@/lib/csv';
+import {
+  CustomerOrder,
+  fetchOrder,
+  fetchOrders,
+  fetchPaymentMethods,
+  normalizeOrderStatus,
+  ORDER_FETCH_LIMIT,
+  ORDER_STATUS_LABELS,
+  OrderQuery,
+  OrderSortColumn,
+  OrderStatus,
+  parseOrderQuery,
+  toOrderSearchParams,
+  updateOrderStatus,
+} from '@/lib/orders';
+import { getErrorMessage } from '@/lib/utils';
+
+const CSV_COLUMNS: CsvColumn<CustomerOrder>[] = [
+  { header: 'Order ID', value: order => order.order_id },
+  { header: 'Customer', value: order => order.person_name },
+  { header: 'Phone', value: order => order.phone_number },
+  { header: 'Delivery address', value: order => order.delivery_address },
+  { header: 'Items', value: order => order.product_order_summary },
+  { header: 'Quantity', value: order => order.quantity },
+  { header: 'Total', value: order => order.total_price },
+  { header: 'Payment method', value: order => order.payment_method },
+  { header: 'Status', value: order => ORDER_STATUS_LABELS[normalizeOrderStatus(order.order_status)] },
+  { header: 'Purchased at', value: order => order.purchase_time },
+];
+
+const Orders = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = parseOrderQuery(searchParams);
+  // The open order lives in ?order= so tickets can link straight to it
+  const queryKey = toOrderSearchParams(query).toString();
+  const openOrderId = searchParams.get('order');
+  const [orders, setOrders] = useState<CustomerOrder[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [paymentMethods, setPaymentMethods] = useState<string[]>([]);
+  const [linkedOrder, setLinkedOrder] = useState<CustomerOrder | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    setLoading(true);
+    const { orders: data, total: count, error } = await fetchOrders(parseOrderQuery(new URLSearchParams(queryKey)));
+    if (error) {
+      console.error('Fetch orders error:', error);
+      toast.error(`Could not load orders: ${error.message}`);
+    } else {
+      setOrders(data);
+      setTotal(count);
+    }
+    setLoading(false);
+  }, [queryKey]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  useEffect(() => {
+    fetchPaymentMethods()
+      .then(setPaymentMethods)
+      .catch(err => console.error('Fetch payment methods error:', err));
+  }, []);
+
+  const listedOpenOrder = orders.find(o => o.order_id === openOrderId);
+
+  // Linked orders may be outside the current filters or fetch limit
+  useEffect(() => {
+    if (!openOrderId || listedOpenOrder) return;
+    fetchOrder(openOrderId)
+      .then(order => {
+        if (!order) toast.error(`Order ${openOrderId} was not found`);
+        setLinkedOrder(order);
+      })
+      .catch(err => toast.error(getErrorMessage(err)));
+  }, [openOrderId, listedOpenOrder]);
+
+  const setQuery = (next: OrderQuery) => setSearchParams(toOrderSearchParams(next));
+
+  const setOpenOrderId = (orderId: string | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (orderId) {
+      params.set('order', orderId);
+    } else {
+      params.delete('order');
+    }
+    setSearchParams(params);
+  };
+
+  const handleSort = (column: OrderSortColumn) => {
+    const dir = query.sort === column && query.dir === 'desc' ? 'asc' : 'desc';
+    setQuery({ ...query, sort: column, dir });
+  };
+
+  const handleStatusChange = async (order: CustomerOrder, status: OrderStatus) => {
+    setUpdatingId(order.order_id);
+    try {
+      const updated = await updateOrderStatus(order, status);
+      setOrders(prev => prev.map(o => (o.order_id === updated.order_id ? updated : o)));
+      setLinkedOrder(prev => (prev?.order_id === updated.order_id ? updated : prev));
+      toast.success(`Order ${order.order_id} marked ${ORDER_STATUS_LABELS[status].toLowerCase()}`);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleExport = () => {
+    downloadCsv(orders, CSV_COLUMNS, `orders_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+  };
+
+  const openOrder = listedOpenOrder ?? (linkedOrder?.order_id === openOrderId ? linkedOrder : null);
+
+  return (
+    <>
+      <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-foreground">Orders</h2>
+            <p className="text-muted-foreground mt-1">
+              {total > orders.length
+                ? `Showing the first ${orders.length} of ${total} orders. Narrow the filters to see the rest.`
+                : `${total} ${total === 1 ? 'order' : 'orders'}`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={loadOrders}
+              disabled={loading}
+              className="px-4 py-2.5 bg-white border border-border text-foreground font-medium rounded-xl shadow-soft hover:bg-secondary transition-all flex items-center gap-2 disabled:opacity-50"
+            >
+              <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
+              Refresh
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={orders.length === 0}
+              className="px-4 py-2.5 bg-gradient-blue text-white font-medium rounded-xl shadow-medium hover:shadow-large transition-all flex items-center gap-2 disabled:opacity-50"
+              title={`Exports the orders shown (up to ${ORDER_FETCH_LIMIT})`}
+            >
+              <Download size={18} />
+              Export CSV
+            </button>
+          </div>
+        </div>
+
+        <OrderFilters query={query} paymentMethods={paymentMethods} onChange={setQuery} />
+
+        {loading && orders.length === 0 ? (
+          <div className="flex justify-center py-20">
+            <Loader2 size={32} className="animate-spin text-muted-foreground" />
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="bg-white rounded-2xl shadow-medium border border-border p-12 text-center text-muted-foreground">
+            No orders match these filters. Orders are only visible to the support team.
+          </div>
+        ) : (
+          <OrdersTable
+            orders={orders}
+            query={query}
+            updatingId={updatingId}
+            onSort={handleSort}
+            onOpen={order => setOpenOrderId(order.order_id)}
+            onStatusChange={handleStatusChange}
+          />
+        )}
+      </main>
+
+      <OrderDetailSheet
+        order={openOrder}
+        updating={!!openOrder && updatingId === openOrder.order_id}
+        onClose={() => setOpenOrderId(null)}
+        onStatusChange={handleStatusChange}
+      />
+    </>
+  );
+};
+
+export default Orders;
@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Link2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAppContext } from '@/hooks/use-app-context';
+import { usePostActions } from '@/hooks/use-post-actions';
+import { useVideoRealtime } from '@/hooks/use-video-realtime';
+import { PostCard } from '@/components/dashboard/PostCard';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { canEditPosts } from '@/lib/data-source';
+import { defaultTargetPlatforms, Platform } from '@/lib/platforms';
+import { getErrorMessage } from '@/lib/utils';
+import { fetchVideo, VideoChange, VideoPost } from '@/lib/videos';
+
+// A single post on its own URL, so it can be shared for review
+const Post = () => {
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const videoId = Number(id) || null;
+  const { workspace, workspaces, switchWorkspace, videoSource } = useAppContext();
+  const [video, setVideo] = useState<VideoPost | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [targetPlatforms, setTargetPlatforms] = useState<Platform[] | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const { handlePostToSocials, schedulePost, updateVideoField, reviewPost, restoreRevision, removeVideo } = usePostActions(
+    (changedId, changes) => setVideo(prev => prev && prev.id === changedId ? { ...prev, ...changes } : prev)
+  );
+
+  useEffect(() => {
+    if (!videoId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setTargetPlatforms(null);
+    fetchVideo(videoSource, videoId)
+      .then(setVideo)
+      .catch(err => {
+        console.error('Fetch post error:', err);
+        toast.error(`Could not load the post: ${getErrorMessage(err)}`);
+        setVideo(null);
+      })
+      .finally(() => setLoading(false));
+  }, [videoSource, videoId]);
+
+  // fetchVideo goes by id alone, so a shared link can lead to a post in another of the user's
+  // workspaces. Switch to it, so the role and the live updates are the ones for the post.
+  // Brand projects don't have this app's workspaces; their own RLS decides what the user sees there.
+  const postWorkspace = videoSource.isCustomProject ? undefined : workspaces.find(w => w.id === video?.workspace_id);
+  const inActiveWorkspace = !!video && (videoSource.isCustomProject || postWorkspace?.id === workspace.id);
+
+  useEffect(() => {
+    if (!postWorkspace || postWorkspace.id === workspace.id) return;
+    switchWorkspace(postWorkspace.id);
+    toast.info(`Switched to ${postWorkspace.name}`);
+  }, [postWorkspace, workspace.id, switchWorkspace]);
+
+  const handleRealtimeChange = (change: VideoChange) => {
+    if (change.eventType === 'UPDATE' && change.new.id === videoId) {
+      setVideo(prev => prev ? { ...prev, ...change.new } : prev);
+    } else if (change.eventType === 'DELETE' && change.old.id === videoId) {
+      setVideo(null);
+    }
+  };
+
+  useVideoRealtime(videoSource, workspace.id, handleRealtimeChange);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copied');
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!video) return;
+    try {
+      await removeVideo(video.id);
+      toast.success('Post deleted successfully');
+      navigate('/dashboard');
+    } catch (err) {
+      console.error('Delete error:', err);
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const platforms = video ? targetPlatforms ?? defaultTargetPlatforms(video) : [];
+
+  return (
+    <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <button
+          onClick={() => navigate('/dashboard')}
+          className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ArrowLeft size={16} />
+          All posts
+        </button>
+        {video && inActiveWorkspace && (
+          <button
+            onClick={copyLink}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-border rounded-xl hover:bg-secondary text-foreground shadow-soft transition-all"
+          >
+            <Link2 size={16} />
+            Copy link
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-20">
+          <Loader2 size={32} className="animate-spin text-muted-foreground" />
+        </div>
+      ) : !video || !inActiveWorkspace ? (
+        <div className="text-center py-20 bg-white rounded-2xl border border-dashed border-border shadow-soft">
+          <p className="text-lg font-semibold text-foreground">Post not found</p>
+          <p className="text-muted-foreground mt-1">It may have been deleted, or you don't have access to it.</p>
+        </div>
+      ) : (
+        <PostCard
+          video={video}
+          readOnly={!canEditPosts(videoSource, workspace.role)}
+          targetPlatforms={platforms}
+          onTargetPlatformsChange={setTargetPlatforms}
+          onSaveField={(field, value) => updateVideoField(video.id, field, value)}
+          onPost={selected => handlePostToSocials(video, selected)}
+          onSchedule={(selected, at) => schedulePost(video, selected, at)}
+          onReview={(action, comment) => reviewPost(video, action, comment)}
+          onRestoreRevision={revision => restoreRevision(video.id, revision)}
+          onDelete={() => setConfirmDelete(true)}
+        />
+      )}
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this post?</AlertDialogTitle>
+            <AlertDialogDescription>This action cannot be undone.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-500 hover:bg-red-600">
+              Delete Post
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </main>
+  );
+};
+
+export default Post;
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ExternalLink, ImageOff, Loader2, Pencil, Plus, Sparkles, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ProductFormDialog } from '@/components/products/ProductFormDialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { deleteProduct, fetchProducts, parseImageUrls, Product, productLabel } from '@/lib/products';
+import { getErrorMessage } from '@/lib/utils';
+
+const Products = () => {
+  const navigate = useNavigate();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Product | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Product | null>(null);
+
+  const loadProducts = useCallback(async () => {
+    setLoading(true);
+    try {
+      setProducts(await fetchProducts());
+    } catch (err) {
+      console.error('Fetch products error:', err);
+      toast.error(`Could not load products: ${getErrorMessage(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  const openForm = (product: Product | null) => {
+    setEditing(product);
+    setFormOpen(true);
+  };
+
+  const handleSaved = (saved: Product) => {
+    setProducts(prev => (prev.some(p => p.Id === saved.Id) ? prev.map(p => (p.Id === saved.Id ? saved : p)) : [saved, ...prev]));
+    setFormOpen(false);
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteProduct(pendingDelete.Id);
+      setProducts(prev => prev.filter(p => p.Id !== pendingDelete.Id));
+      toast.success('Product deleted');
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  // The Create Ad form picks the product up from the query string and fills itself in
+  const createAd = (product: Product, tab: 'product' | 'ugc') => navigate(`/create/${tab}?product=${product.Id}`);
+
+  return (
+    <>
+      <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-foreground">Products</h2>
+            <p className="text-muted-foreground mt-1">Your catalog, kept up to date by the support team. Start an ad from any product without retyping or re-uploading.</p>
+          </div>
+          <button
+            onClick={() => openForm(null)}
+            className="px-6 py-2.5 bg-gradient-blue text-white font-medium rounded-xl shadow-medium hover:shadow-large transition-all flex items-center gap-2"
+          >
+            <Plus size={18} />
+            New Product
+          </button>
+        </div>
+
+        {loading && products.length === 0 ? (
+          <div className="flex justify-center py-20">
+            <Loader2 size={32} className="animate-spin text-muted-foreground" />
+          </div>
+        ) : products.length === 0 ? (
+          <div className="bg-white rounded-2xl shadow-medium border border-border p-12 text-center text-muted-foreground">
+            No products yet. Add one to reuse its details and images in ads.
+          </div>
+        ) : (
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {products.map(product => {
+              const images = parseImageUrls(product['Product Image URLs']);
+              return (
+                <div key={product.Id} className="bg-white rounded-2xl shadow-medium border border-border overflow-hidden flex flex-col">
+                  <div className="aspect-video bg-muted relative">
+                    {images[0] ? (
+                      <img src={images[0]} alt={productLabel(product)} className="w-full h-full object-cover" />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+                        <ImageOff size={32} />
+                      </div>
+                    )}
+                    {images.length > 1 && (
+                      <span className="absolute bottom-2 right-2 px-2 py-0.5 rounded-full bg-black/60 text-white text-xs">
+                        {images.length} images
+                      </span>
+                    )}
+                  </div>
+                  <div className="p-4 flex-1 flex flex-col gap-3">
+                    <div>
+                      <div className="flex items-start justify-between gap-2">
+                        <h3 className="font-bold text-foreground">{productLabel(product)}</h3>
+                        {product['Product code'] && product.product_name && (
+                          <span className="text-xs text-muted-foreground font-mono">{product['Product code']}</span>
+                        )}
+                      </div>
+                      {product.product_description && (
+                        <p className="text-sm text-muted-foreground line-clamp-2 mt-1">{product.product_description}</p>
+                      )}
+                      {product['product page link'] && (
+                        <a
+                          href={product['product page link']}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-xs text-primary hover:underline inline-flex items-center gap-1 mt-1"
+                        >
+                          Product page <ExternalLink size={12} />
+                        </a>
+                      )}
+                    </div>
+                    <div className="mt-auto flex items-center gap-2">
+                      <button
+                        onClick={() => createAd(product, 'product')}
+                        className="flex-1 py-2 bg-gradient-blue text-white text-sm font-bold rounded-xl shadow-soft hover:shadow-medium transition-all flex items-center justify-center gap-1"
+                      >
+                        <Sparkles size={14} />
+                        Product Ad
+                      </button>
+                      <button
+                        onClick={() => createAd(product, 'ugc')}
+                        className="flex-1 py-2 bg-gradient-purple text-white text-sm font-bold rounded-xl shadow-soft hover:shadow-medium transition-all flex items-center justify-center gap-1"
+                      >
+                        <Sparkles size={14} />
+                        UGC Ad
+                      </button>
+                      <button
+                        onClick={() => openForm(product)}
+                        className="p-2 rounded-xl text-muted-foreground hover:text-foreground hover:bg-secondary transition-all"
+                        title="Edit product"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        onClick={() => setPendingDelete(product)}
+                        className="p-2 rounded-xl text-muted-foreground hover:text-red-600 hover:bg-red-50 transition-all"
+                        title="Delete product"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <ProductFormDialog open={formOpen} product={editing} onClose={() => setFormOpen(false)} onSaved={handleSaved} />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this product?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete && `"${productLabel(pendingDelete)}" will be removed from the catalog. Ads already created from it are not affected.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default Products;
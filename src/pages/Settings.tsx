@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { RefreshCw, Loader2, CheckCircle2, KeyRound } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAppContext } from '@/hooks/use-app-context';
+import { BrandProjectAccount } from '@/components/settings/BrandProjectAccount';
+import { TwoFactorSettings } from '@/components/settings/TwoFactorSettings';
+import { WebhookTester } from '@/components/settings/WebhookTester';
+import { getVideoSource, testVideoSource } from '@/lib/data-source';
+import { saveUserSettings } from '@/lib/settings';
+import { getErrorMessage } from '@/lib/utils';
+import { generateWebhookSecret } from '@/lib/webhooks';
+
+const Settings = () => {
+  const { userId, settings, setSettings, videoSource } = useAppContext();
+  const [tempSettings, setTempSettings] = useState(settings);
+
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [connectionResult, setConnectionResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const runConnectionTest = async () => {
+    try {
+      await testVideoSource(tempSettings);
+      setConnectionResult({ ok: true, message: `Connected. Table "${getVideoSource(tempSettings).table}" has all expected columns.` });
+      return true;
+    } catch (err) {
+      setConnectionResult({ ok: false, message: getErrorMessage(err) });
+      return false;
+    }
+  };
+
+  const handleTestConnection = async () => {
+    setTesting(true);
+    try {
+      await runConnectionTest();
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Never save a data source the dashboard cannot read from
+      if (!(await runConnectionTest())) {
+        toast.error('Connection test failed. Settings were not saved.');
+        return;
+      }
+      await saveUserSettings(userId, tempSettings);
+      setSettings(tempSettings);
+      toast.success('Settings saved successfully!');
+    } catch (err) {
+      console.error('Save settings error:', err);
+      toast.error(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <main className="max-w-3xl mx-auto px-6 py-16">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-foreground">Settings</h2>
+        <p className="text-muted-foreground mt-2">Configure your Supabase and n8n webhooks. Settings are saved to your account and follow you to any browser.</p>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-xl border border-border p-8 space-y-6">
+        <div className="space-y-3">
+          <label className="block text-sm font-bold text-foreground">Supabase URL</label>
+          <input
+            type="url"
+            placeholder="https://xxxxx.supabase.co"
+            value={tempSettings.supabaseUrl}
+            onChange={e => setTempSettings({...tempSettings, supabaseUrl: e.target.value})}
+            className="w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+          />
+        </div>
+
+        <div className="space-y-3">
+          <label className="block text-sm font-bold text-foreground">Supabase Anon Key</label>
+          <input
+            type="password"
+            placeholder="Your anon/public key"
+            value={tempSettings.supabaseKey}
+            onChange={e => setTempSettings({...tempSettings, supabaseKey: e.target.value})}
+            className="w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+          />
+        </div>
+
+        <div className="space-y-3">
+          <label className="block text-sm font-bold text-foreground">n8n Generate Video Webhook</label>
+          <input
+            type="url"
+            placeholder="https://your-n8n-instance.app/webhook/generate"
+            value={tempSettings.n8nGenerateWebhook}
+            onChange={e => setTempSettings({...tempSettings, n8nGenerateWebhook: e.target.value})}
+            className="w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+          />
+          <div className="flex gap-2">
+            <input
+              type="password"
+              placeholder="Signing secret (optional)"
+              value={tempSettings.n8nGenerateSecret}
+              onChange={e => setTempSettings({...tempSettings, n8nGenerateSecret: e.target.value})}
+              className="flex-1 p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+            />
+            <button
+              type="button"
+              onClick={() => setTempSettings({...tempSettings, n8nGenerateSecret: generateWebhookSecret()})}
+              className="px-4 bg-white border border-border text-foreground text-sm font-bold rounded-xl shadow-soft hover:bg-secondary transition-all flex items-center gap-2"
+            >
+              <KeyRound size={16} />
+              Generate
+            </button>
+          </div>
+          <WebhookTester kind="generate" url={tempSettings.n8nGenerateWebhook} secret={tempSettings.n8nGenerateSecret} userId={userId} />
+        </div>
+
+        <div className="space-y-3">
+          <label className="block text-sm font-bold text-foreground">n8n Post to Socials Webhook</label>
+          <input
+            type="url"
+            placeholder="https://your-n8n-instance.app/webhook/post-to-socials"
+            value={tempSettings.n8nPostWebhook}
+            onChange={e => setTempSettings({...tempSettings, n8nPostWebhook: e.target.value})}
+            className="w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+          />
+          <div className="flex gap-2">
+            <input
+              type="password"
+              placeholder="Signing secret (optional)"
+              value={tempSettings.n8nPostSecret}
+              onChange={e => setTempSettings({...tempSettings, n8nPostSecret: e.target.value})}
+              className="flex-1 p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+            />
+            <button
+              type="button"
+              onClick={() => setTempSettings({...tempSettings, n8nPostSecret: generateWebhookSecret()})}
+              className="px-4 bg-white border border-border text-foreground text-sm font-bold rounded-xl shadow-soft hover:bg-secondary transition-all flex items-center gap-2"
+            >
+              <KeyRound size={16} />
+              Generate
+            </button>
+          </div>
+          <WebhookTester kind="post" url={tempSettings.n8nPostWebhook} secret={tempSettings.n8nPostSecret} userId={userId} />
+        </div>
+
+        <div className="space-y-3">
+          <label className="block text-sm font-bold text-foreground">Database Table Name</label>
+          <input
+            type="text"
+            placeholder="video_posts"
+            value={tempSettings.tableName}
+            onChange={e => setTempSettings({...tempSettings, tableName: e.target.value})}
+            className="w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none"
+          />
+          <p className="text-xs text-muted-foreground">
+            Only used with a brand project; this app's own project always uses social_media_videos. Leave the Supabase URL and key empty to use this app's project.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <button
+            type="button"
+            onClick={handleTestConnection}
+            disabled={testing || saving}
+            className="w-full py-3 bg-white border border-border text-foreground font-bold rounded-xl shadow-soft hover:bg-secondary transition-all flex justify-center items-center gap-2 disabled:opacity-50"
+          >
+            {testing ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={18} />}
+            Test Connection
+          </button>
+          {connectionResult && (
+            <p className={`text-sm ${connectionResult.ok ? 'text-green-700' : 'text-red-600'}`}>
+              {connectionResult.message}
+            </p>
+          )}
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="w-full py-3 bg-gradient-blue text-white font-bold rounded-xl shadow-medium hover:shadow-large transition-all flex justify-center items-center gap-2 disabled:opacity-50"
+        >
+          {saving ? <Loader2 size={18} className="animate-spin" /> : <CheckCircle2 size={18} />}
+          Save Settings
+        </button>
+      </div>
+
+      {videoSource.isCustomProject && <BrandProjectAccount />}
+
+      <TwoFactorSettings />
+
+      <div className="mt-6 bg-blue-50 border border-blue-200 rounded-xl p-4 space-y-3">
+        <p className="text-sm text-blue-900">
+          <strong>Important Setup Steps:</strong>
+        </p>
+        <ol className="text-sm text-blue-900 space-y-2 list-decimal list-inside">
+          <li>Leave the Supabase URL and Anon Key empty unless you want to work on a brand project's posts</li>
+          <li>
+            A brand project needs this app's migrations applied, and <code>dispatch-scheduled-posts</code> deployed there for
+            scheduling. Save its URL and key, then <strong>sign in to the brand project</strong> below with an account of its own to
+            edit, approve, post and schedule. Its Row Level Security decides what that account may do, so keep RLS enabled.
+            Comments and edit history stay with this app's posts.
+          </li>
+          <li>For a brand project, make sure the table name matches exactly (default: "social_media_videos"). Its triggers only work on the default name, so keep it to change posts there.</li>
+          <li>Configure n8n webhooks for video generation and posting</li>
+          <li>Set a signing secret per webhook and verify the <code>X-Signature</code> header in n8n (see docs/webhook-signing.md)</li>
+        </ol>
+      </div>
+    </main>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Inbox, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAppContext } from '@/hooks/use-app-context';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TicketList } from '@/components/tickets/TicketList';
+import { TicketDetail } from '@/components/tickets/TicketDetail';
+import {
+  AssigneeFilter,
+  fetchTeamMembers,
+  fetchTickets,
+  parseTicketFilters,
+  TeamMember,
+  Ticket,
+  TICKET_FETCH_LIMIT,
+  TICKET_STATUS_LABELS,
+  TICKET_STATUSES,
+  TicketFilters,
+  TicketStatusFilter,
+} from '@/lib/tickets';
+import { cn, getErrorMessage } from '@/lib/utils';
+
+const STATUS_TABS: { value: TicketStatusFilter; label: string }[] = [
+  ...TICKET_STATUSES.map(status => ({ value: status, label: TICKET_STATUS_LABELS[status] })),
+  { value: 'all', label: 'All' },
+];
+
+const Tickets = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseTicketFilters(searchParams);
+  const selectedId = Number(searchParams.get('ticket')) || null;
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const { userId, workspace } = useAppContext();
+  const { status, assignee } = filters;
+
+  const loadTickets = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTickets(await fetchTickets({ status, assignee }, userId));
+    } catch (err) {
+      console.error('Fetch tickets error:', err);
+      toast.error(`Could not load tickets: ${getErrorMessage(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, status, assignee]);
+
+  useEffect(() => {
+    loadTickets();
+  }, [loadTickets]);
+
+  useEffect(() => {
+    fetchTeamMembers(workspace.id)
+      .then(setMembers)
+      .catch(err => console.error('Fetch team members error:', err));
+  }, [workspace.id]);
+
+  const updateParams = (changes: Partial<TicketFilters> & { ticket?: number | null }) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      const isDefault = value === null || (key === 'status' && value === 'open') || (key === 'assignee' && value === 'anyone');
+      if (isDefault) {
+        params.delete(key);
+      } else {
+        params.set(key, String(value));
+      }
+    });
+    setSearchParams(params);
+  };
+
+  // Keep the ticket in the list after a change even if it no longer matches the filter, until the next refresh
+  const handleUpdated = (updated: Ticket) => {
+    setTickets(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+  };
+
+  const selectedTicket = tickets.find(t => t.id === selectedId) ?? null;
+
+  return (
+    <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Tickets</h2>
+          <p className="text-muted-foreground mt-1">Support requests opened by the chatbot. Showing up to {TICKET_FETCH_LIMIT} of the newest.</p>
+        </div>
+        <button
+          onClick={loadTickets}
+          disabled={loading}
+          className="px-4 py-2.5 bg-white border border-border text-foreground font-medium rounded-xl shadow-soft hover:bg-secondary transition-all flex items-center gap-2 disabled:opacity-50"
+        >
+          <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-medium border border-border overflow-hidden grid md:grid-cols-[340px_1fr] min-h-[600px]">
+        <div className="border-r border-border flex flex-col">
+          <div className="p-3 border-b border-border space-y-2">
+            <div className="flex gap-1 bg-muted p-1 rounded-xl">
+              {STATUS_TABS.map(tab => (
+                <button
+                  key={tab.value}
+                  onClick={() => updateParams({ status: tab.value })}
+                  className={cn(
+                    'flex-1 py-1.5 text-xs font-bold rounded-lg transition-all',
+                    status === tab.value ? 'bg-white text-foreground shadow-soft' : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+            <Select value={assignee} onValueChange={value => updateParams({ assignee: value as AssigneeFilter })}>
+              <SelectTrigger className="h-9 rounded-xl text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="anyone">Assigned to anyone</SelectItem>
+                <SelectItem value="me">Assigned to me</SelectItem>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {loading && tickets.length === 0 ? (
+              <div className="flex justify-center py-12">
+                <Loader2 size={24} className="animate-spin text-muted-foreground" />
+              </div>
+            ) : tickets.length === 0 ? (
+              <p className="p-6 text-sm text-muted-foreground text-center">No tickets here. Tickets are only visible to the support team.</p>
+            ) : (
+              <TicketList
+                tickets={tickets}
+                members={members}
+                selectedId={selectedId}
+                onSelect={ticketId => updateParams({ ticket: ticketId })}
+              />
+            )}
+          </div>
+        </div>
+
+        <div>
+          {selectedTicket ? (
+            <TicketDetail key={selectedTicket.id} ticket={selectedTicket} members={members} userId={userId} onUpdated={handleUpdated} />
+          ) : (
+            <div className="h-full flex flex-col items-center justify-center gap-3 text-muted-foreground p-12">
+              <Inbox size={40} />
+              <p>Select a ticket to see its details.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+};
+
+export default Tickets;
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { AlertCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { MfaChallenge } from "@/components/auth/MfaChallenge";
+import { FullPageLoader } from "@/components/layout/FullPageLoader";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { authErrorMessage, readAuthUrlError } from "@/lib/auth-errors";
+
+/**
+ * Landing page for password recovery emails. Supabase signs the user in from
+ * the link before this renders, so all that's left is setting the new password.
+ */
+const UpdatePassword = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { session, loading: sessionLoading, mfaRequired } = useAuth();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+  // Read once: the auth client clears the URL fragment after handling it
+  const [linkError] = useState(() => readAuthUrlError(location));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      toast.error("The passwords don't match");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+      toast.success("Password updated");
+      navigate("/dashboard", { replace: true });
+    } catch (error) {
+      toast.error(authErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (sessionLoading) {
+    return <FullPageLoader />;
+  }
+
+  // Supabase won't change the password of an account with MFA until the session reaches AAL2
+  if (session && mfaRequired && !linkError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <MfaChallenge />
+      </div>
+    );
+  }
+
+  const invalidLink = linkError || (!session && "This reset link is no longer valid. Request a new one.");
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Choose a new password</CardTitle>
+          <CardDescription>
+            {session ? `For ${session.user.email}` : "Reset links work once and expire after an hour."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {invalidLink ? (
+            <div className="space-y-4">
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{invalidLink}</AlertDescription>
+              </Alert>
+              <Button asChild className="w-full">
+                <Link to="/auth?mode=forgot">Send a new reset link</Link>
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">New password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={6}
+                  autoComplete="new-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm new password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={6}
+                  autoComplete="new-password"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={saving}>
+                {saving ? "Saving..." : "Update password"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default UpdatePassword;
@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Check, Loader2, LogOut, Mail, Send, Trash2, UserMinus } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppContext } from '@/hooks/use-app-context';
+import { getErrorMessage } from '@/lib/utils';
+import {
+  can,
+  deleteWorkspace,
+  fetchWorkspaceInvites,
+  fetchWorkspaceMembers,
+  inviteMember,
+  removeMember,
+  renameWorkspace,
+  revokeInvite,
+  updateMemberRole,
+  WORKSPACE_ROLE_DESCRIPTIONS,
+  WORKSPACE_ROLE_LABELS,
+  WORKSPACE_ROLES,
+  WorkspaceInvite,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '@/lib/workspaces';
+
+const inputClassName =
+  'w-full p-3 border border-border rounded-xl bg-muted focus:bg-background focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all outline-none';
+
+const RoleSelect = ({ value, onChange, disabled }: { value: WorkspaceRole; onChange: (role: WorkspaceRole) => void; disabled?: boolean }) => (
+  <Select value={value} onValueChange={role => onChange(role as WorkspaceRole)} disabled={disabled}>
+    <SelectTrigger className="w-36 rounded-xl">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {WORKSPACE_ROLES.map(role => (
+        <SelectItem key={role} value={role}>
+          <span title={WORKSPACE_ROLE_DESCRIPTIONS[role]}>{WORKSPACE_ROLE_LABELS[role]}</span>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const Workspace = () => {
+  const navigate = useNavigate();
+  const { userId, workspace, reloadWorkspaces } = useAppContext();
+  const [members, setMembers] = useState<WorkspaceMember[] | null>(null);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [name, setName] = useState(workspace.name);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+  const [busy, setBusy] = useState(false);
+  const [confirm, setConfirm] = useState<'leave' | 'delete' | null>(null);
+
+  const isOwner = can(workspace.role, 'manageWorkspace');
+
+  const loadTeam = useCallback(async () => {
+    try {
+      const [memberRows, inviteRows] = await Promise.all([
+        fetchWorkspaceMembers(workspace.id),
+        isOwner ? fetchWorkspaceInvites(workspace.id) : Promise.resolve([]),
+      ]);
+      setMembers(memberRows);
+      setInvites(inviteRows);
+    } catch (err) {
+      toast.error(`Could not load members: ${getErrorMessage(err)}`);
+      setMembers([]);
+    }
+  }, [workspace.id, isOwner]);
+
+  useEffect(() => {
+    setMembers(null);
+    setName(workspace.name);
+    loadTeam();
+  }, [loadTeam, workspace.name]);
+
+  // Wraps a change so errors toast and the buttons stay disabled while it runs
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await renameWorkspace(workspace.id, name);
+      await reloadWorkspaces();
+      toast.success('Workspace renamed');
+    });
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const emailed = await inviteMember(workspace.id, inviteEmail, inviteRole);
+      toast.success(emailed
+        ? `Invite emailed to ${inviteEmail}`
+        : `${inviteEmail} already has an account and will see the invite next time they open the app`);
+      setInviteEmail('');
+      await loadTeam();
+    });
+  };
+
+  const handleRoleChange = (member: WorkspaceMember, role: WorkspaceRole) => run(async () => {
+    await updateMemberRole(workspace.id, member.user_id, role);
+    setMembers(prev => prev?.map(m => m.user_id === member.user_id ? { ...m, role } : m) ?? null);
+    if (member.user_id === userId) await reloadWorkspaces();
+  });
+
+  const handleRemove = (member: WorkspaceMember) => run(async () => {
+    await removeMember(workspace.id, member.user_id);
+    setMembers(prev => prev?.filter(m => m.user_id !== member.user_id) ?? null);
+    toast.success(`${member.profiles?.email ?? 'Member'} removed`);
+  });
+
+  const handleRevoke = (invite: WorkspaceInvite) => run(async () => {
+    await revokeInvite(invite.id);
+    setInvites(prev => prev.filter(i => i.id !== invite.id));
+  });
+
+  const handleConfirm = () => run(async () => {
+    if (confirm === 'delete') {
+      await deleteWorkspace(workspace.id);
+      toast.success(`Deleted ${workspace.name}`);
+    } else {
+      await removeMember(workspace.id, userId);
+      toast.success(`You left ${workspace.name}`);
+    }
+    setConfirm(null);
+    // The layout falls back to another workspace once this one is gone from the list
+    await reloadWorkspaces();
+    navigate('/dashboard');
+  });
+
+  return (
+    <main className="max-w-3xl mx-auto px-6 py-16 space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-foreground">{workspace.name}</h2>
+        <p className="text-muted-foreground mt-2">
+          Posts in this workspace are shared with everyone below. You are {WORKSPACE_ROLE_LABELS[workspace.role].toLowerCase()} here:{' '}
+          {WORKSPACE_ROLE_DESCRIPTIONS[workspace.role].toLowerCase()}.
+        </p>
+      </div>
+
+      {isOwner && (
+        <form onSubmit={handleRename} className="bg-white rounded-2xl shadow-xl border border-border p-8 space-y-3">
+          <label className="block text-sm font-bold text-foreground">Workspace name</label>
+          <div className="flex gap-2">
+            <input value={name} onChange={e => setName(e.target.value)} required maxLength={80} className={inputClassName} />
+            <button
+              type="submit"
+              disabled={busy || !name.trim() || name.trim() === workspace.name}
+              className="px-4 bg-white border border-border text-foreground text-sm font-bold rounded-xl shadow-soft hover:bg-secondary transition-all flex items-center gap-2 disabled:opacity-50"
+            >
+              <Check size={16} />
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-xl border border-border p-8 space-y-4">
+        <h3 className="text-lg font-bold text-foreground">Members</h3>
+        {members === null ? (
+          <Loader2 size={20} className="animate-spin text-muted-foreground" />
+        ) : (
+          <ul className="divide-y divide-border border border-border rounded-xl">
+            {members.map(member => (
+              <li key={member.user_id} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {member.profiles?.email ?? 'Unknown user'}
+                    {member.user_id === userId && <span className="text-muted-foreground font-normal"> (you)</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{WORKSPACE_ROLE_DESCRIPTIONS[member.role]}</p>
+                </div>
+                {isOwner ? (
+                  <div className="flex items-center gap-2">
+                    <RoleSelect value={member.role} onChange={role => handleRoleChange(member, role)} disabled={busy} />
+                    {member.user_id !== userId && (
+                      <button
+                        onClick={() => handleRemove(member)}
+                        disabled={busy}
+                        title="Remove from workspace"
+                        className="p-2 rounded-lg text-muted-foreground hover:text-red-600 hover:bg-red-50 transition-all disabled:opacity-50"
+                      >
+                        <UserMinus size={16} />
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <span className="text-sm text-muted-foreground">{WORKSPACE_ROLE_LABELS[member.role]}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {isOwner && (
+        <div className="bg-white rounded-2xl shadow-xl border border-border p-8 space-y-4">
+          <div>
+            <h3 className="text-lg font-bold text-foreground">Invite people</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              New people get an email to set up their account. People who already have one see the invite in the workspace menu.
+            </p>
+          </div>
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={e => setInviteEmail(e.target.value)}
+              placeholder="teammate@agency.com"
+              required
+              className={inputClassName}
+            />
+            <RoleSelect value={inviteRole} onChange={setInviteRole} disabled={busy} />
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 bg-gradient-blue text-white text-sm font-bold rounded-xl shadow-medium hover:shadow-large transition-all flex items-center gap-2 disabled:opacity-50"
+            >
+              {busy ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+              Invite
+            </button>
+          </form>
+
+          {invites.length > 0 && (
+            <ul className="divide-y divide-border border border-border rounded-xl">
+              {invites.map(invite => (
+                <li key={invite.id} className="flex items-center justify-between gap-4 p-3">
+                  <p className="text-sm text-foreground flex items-center gap-2 min-w-0">
+                    <Mail size={14} className="shrink-0 text-muted-foreground" />
+                    <span className="truncate">{invite.email}</span>
+                    <span className="text-xs text-muted-foreground">{WORKSPACE_ROLE_LABELS[invite.role]}, pending</span>
+                  </p>
+                  <button
+                    onClick={() => handleRevoke(invite)}
+                    disabled={busy}
+                    title="Revoke invite"
+                    className="p-2 rounded-lg text-muted-foreground hover:text-red-600 hover:bg-red-50 transition-all disabled:opacity-50"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={() => setConfirm('leave')}
+          disabled={busy}
+          className="px-4 py-2.5 bg-white border border-border text-foreground font-medium rounded-xl shadow-soft hover:bg-secondary transition-all flex items-center gap-2 disabled:opacity-50"
+        >
+          <LogOut size={16} />
+          Leave workspace
+        </button>
+        {isOwner && (
+          <button
+            onClick={() => setConfirm('delete')}
+            disabled={busy}
+            className="px-4 py-2.5 bg-red-500 hover:bg-red-600 text-white font-medium rounded-xl shadow-soft transition-all flex items-center gap-2 disabled:opacity-50"
+          >
+            <Trash2 size={16} />
+            Delete workspace
+          </button>
+        )}
+      </div>
+
+      <AlertDialog open={confirm !== null} onOpenChange={open => !open && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirm === 'delete' ? `Delete ${workspace.name}?` : `Leave ${workspace.name}?`}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm === 'delete'
+                ? 'Every post in this workspace is deleted for all members. This cannot be undone.'
+                : 'You lose access to its posts until someone invites you again.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm} className="bg-red-600 hover:bg-red-700">
+              {confirm === 'delete' ? 'Delete workspace' : 'Leave'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </main>
+  );
+};
+
+export default Workspace;
@@ -0,0 +1,145 @@
+// Fires the n8n post webhook for every platform whose scheduled time has passed.
+//
+// Run locally:
+//   supabase functions serve dispatch-scheduled-posts --env-file supabase/.env.local
+//   curl -X POST http://localhost:54321/functions/v1/dispatch-scheduled-posts \
+//     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY"
+//
+// In production, call it every minute with pg_cron + pg_net (see README.md).
+//
+// Required environment: N8N_POST_WEBHOOK. Optional: N8N_POST_WEBHOOK_SECRET, which
+// signs requests the same way the app does (docs/webhook-signing.md). SUPABASE_URL
+// and SUPABASE_SERVICE_ROLE_KEY are provided by the Supabase runtime.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const PLATFORMS = ["youtube", "instagram", "facebook"] as const;
+type Platform = (typeof PLATFORMS)[number];
+
+// Instagram and Facebook show no title, so only YouTube's can be overridden. Mirrors resolvePlatformText in the app.
+const TITLED_PLATFORMS: Platform[] = ["youtube"];
+
+type Overrides = Partial<Record<Platform, { title?: string; caption?: string }>>;
+
+interface PostText {
+  post_title: string | null;
+  caption: string | null;
+  platform_overrides: Overrides | null;
+}
+
+const platformText = (row: PostText, platforms: Platform[]) =>
+  Object.fromEntries(
+    platforms.map((p) => {
+      const override = row.platform_overrides?.[p];
+      return [
+        p,
+        {
+          title: (TITLED_PLATFORMS.includes(p) && override?.title) || row.post_title || "",
+          caption: override?.caption || row.caption || "",
+        },
+      ];
+    }),
+  );
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const signedHeaders = async (body: string, requestId: string, secret: string | undefined) => {
+  const headers: Record<string, string> = { "Content-Type": "application/json", "X-Request-Id": requestId };
+  if (!secret) return headers;
+
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = crypto.randomUUID();
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${nonce}.${body}`));
+
+  return { ...headers, "X-Timestamp": timestamp, "X-Nonce": nonce, "X-Signature": `sha256=${toHex(signature)}` };
+};
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const webhookUrl = Deno.env.get("N8N_POST_WEBHOOK");
+  if (!webhookUrl) {
+    return new Response(JSON.stringify({ error: "N8N_POST_WEBHOOK is not set" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const webhookSecret = Deno.env.get("N8N_POST_WEBHOOK_SECRET");
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const now = new Date().toISOString();
+
+  const dueFilter = PLATFORMS.map((p) => `and(${p}_post_status.eq.scheduled,${p}_scheduled_at.lte.${now})`).join(",");
+  // A post edited after approval keeps its slots but waits until it is approved again
+  const { data: rows, error } = await supabase
+    .from("social_media_videos")
+    .select("*")
+    .in("approval_status", ["approved", "published"])
+    .or(dueFilter);
+
+  if (error) {
+    console.error("Failed to load due posts:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const results: { id: number; platforms: Platform[]; ok: boolean; error?: string }[] = [];
+
+  for (const row of rows ?? []) {
+    const due = PLATFORMS.filter(
+      (p) => row[`${p}_post_status`] === "scheduled" && row[`${p}_scheduled_at`] && row[`${p}_scheduled_at`] <= now,
+    );
+
+    // Claim each platform with a conditional update so overlapping runs never post twice
+    const claimed: Platform[] = [];
+    for (const platform of due) {
+      const { data: claim } = await supabase
+        .from("social_media_videos")
+        .update({ [`${platform}_post_status`]: "posting", [`${platform}_post_error`]: null })
+        .eq("id", row.id)
+        .eq(`${platform}_post_status`, "scheduled")
+        .select("id");
+      if (claim?.length) claimed.push(platform);
+    }
+
+    if (claimed.length === 0) continue;
+
+    try {
+      const body = JSON.stringify({ ...row, platforms: claimed, platform_text: platformText(row, claimed), scheduled: true });
+      // Derived from the scheduled slots, so a re-run for the same slots carries the same ID
+      const requestId = `scheduled:${row.id}:${claimed.map((p) => `${p}@${row[`${p}_scheduled_at`]}`).join(",")}`;
+      const response = await fetch(webhookUrl, {
+        method: "POST",
+        headers: await signedHeaders(body, requestId, webhookSecret),
+        body,
+      });
+      if (!response.ok) throw new Error(`Webhook failed (${response.status})`);
+      results.push({ id: row.id, platforms: claimed, ok: true });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const failed = Object.fromEntries(
+        claimed.flatMap((p) => [
+          [`${p}_post_status`, "failed"],
+          [`${p}_post_error`, message],
+        ]),
+      );
+      await supabase.from("social_media_videos").update(failed).eq("id", row.id);
+      results.push({ id: row.id, platforms: claimed, ok: false, error: message });
+    }
+  }
+
+  return new Response(JSON.stringify({ dispatched: results }), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+});
@@ -0,0 +1,108 @@
+// Invites someone to a workspace by email. The caller must own the workspace.
+// That is checked before anything is looked up with the service role, so the
+// function can't be used to find out who has an account; RLS checks it again
+// when the invite row is inserted with the caller's JWT.
+//
+// Run locally:
+//   supabase functions serve invite-workspace-member --env-file supabase/.env.local
+//
+// People who already have an account see the invite in the workspace switcher
+// the next time they open the app. Everyone else gets a Supabase invite email
+// that signs them in and asks them to choose a password. SUPABASE_URL,
+// SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY are provided by the Supabase runtime.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const ROLES = ["owner", "editor", "reviewer", "viewer"];
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) {
+    return json({ error: "Not signed in" }, 401);
+  }
+
+  const { workspace_id: workspaceId, email: rawEmail, role, redirect_to: redirectTo } = await req.json().catch(() => ({}));
+  const email = typeof rawEmail === "string" ? rawEmail.trim().toLowerCase() : "";
+
+  if (!workspaceId || !email.includes("@") || !ROLES.includes(role)) {
+    return json({ error: "Send workspace_id, a valid email and one of these roles: " + ROLES.join(", ") }, 400);
+  }
+
+  const url = Deno.env.get("SUPABASE_URL")!;
+  const asCaller = createClient(url, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const admin = createClient(url, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const { data: isOwner, error: roleError } = await asCaller.rpc("has_workspace_role", {
+    target_workspace: workspaceId,
+    allowed_roles: ["owner"],
+  });
+  if (roleError) {
+    console.error("Failed to check the caller's role:", roleError);
+    return json({ error: roleError.message }, 500);
+  }
+  if (!isOwner) {
+    return json({ error: "Only workspace owners can invite people" }, 403);
+  }
+
+  // Emails are stored lower-cased; eq keeps _ and % in the input literal
+  const { data: profile } = await admin.from("profiles").select("id").eq("email", email).maybeSingle();
+
+  if (profile) {
+    const { data: member } = await admin
+      .from("workspace_members")
+      .select("user_id")
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", profile.id)
+      .maybeSingle();
+    if (member) {
+      return json({ error: `${email} is already a member of this workspace` }, 409);
+    }
+  }
+
+  const { data: invite, error: inviteError } = await asCaller
+    .from("workspace_invites")
+    .insert({ workspace_id: workspaceId, email, role })
+    .select()
+    .single();
+
+  if (inviteError) {
+    if (inviteError.code === "23505") {
+      return json({ error: `${email} has already been invited. Revoke that invite to change the role.` }, 409);
+    }
+    // RLS rejections come back as 42501; anything else is unexpected
+    if (inviteError.code === "42501") {
+      return json({ error: "Only workspace owners can invite people" }, 403);
+    }
+    console.error("Failed to save invite:", inviteError);
+    return json({ error: inviteError.message }, 500);
+  }
+
+  if (profile) {
+    return json({ invite, emailed: false });
+  }
+
+  const { error: emailError } = await admin.auth.admin.inviteUserByEmail(email, { redirectTo });
+  if (emailError) {
+    console.error("Failed to send invite email:", emailError);
+    await admin.from("workspace_invites").delete().eq("id", invite.id);
+    return json({ error: `Could not send the invite email: ${emailError.message}` }, 502);
+  }
+
+  return json({ invite, emailed: true });
+});
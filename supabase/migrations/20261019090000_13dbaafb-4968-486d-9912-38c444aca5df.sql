@@ -0,0 +1,4 @@
+-- Stream social_media_videos changes to the dashboard via Supabase Realtime
+alter table public.social_media_videos replica identity full;
+
+alter publication supabase_realtime add table public.social_media_videos;
@@ -0,0 +1,5 @@
+-- Record why a post to an individual platform failed
+alter table public.social_media_videos
+  add column youtube_post_error text,
+  add column instagram_post_error text,
+  add column facebook_post_error text;
@@ -0,0 +1,61 @@
+-- Track every generate request sent to n8n
+create table public.generation_jobs (
+  id uuid not null default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references public.profiles(id) on delete cascade,
+  type text not null check (type in ('reels', 'product', 'ugc')),
+  request_payload jsonb not null,
+  state text not null default 'queued' check (state in ('queued', 'running', 'succeeded', 'failed')),
+  n8n_response jsonb,
+  error text,
+  video_id bigint references public.social_media_videos(id) on delete set null,
+  submitted_at timestamp with time zone not null default now(),
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  primary key (id)
+);
+
+create index generation_jobs_user_id_submitted_at_idx on public.generation_jobs (user_id, submitted_at desc);
+
+alter table public.generation_jobs enable row level security;
+
+create policy "Users can view own generation jobs"
+  on public.generation_jobs for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own generation jobs"
+  on public.generation_jobs for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own generation jobs"
+  on public.generation_jobs for update
+  using (auth.uid() = user_id);
+
+-- n8n passes job_id through and stores it on the row it creates
+alter table public.social_media_videos
+  add column generation_job_id uuid references public.generation_jobs(id) on delete set null;
+
+-- Link the job to its post and close it once the media is available
+create or replace function public.sync_generation_job()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if new.generation_job_id is not null then
+    update public.generation_jobs
+    set video_id = new.id,
+        state = case when new.video_url is not null then 'succeeded' else 'running' end,
+        started_at = coalesce(started_at, now()),
+        completed_at = case when new.video_url is not null then coalesce(completed_at, now()) else completed_at end
+    where id = new.generation_job_id
+      and state <> 'failed';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger on_social_media_video_saved
+  after insert or update of video_url, generation_job_id on public.social_media_videos
+  for each row execute procedure public.sync_generation_job();
+
+alter publication supabase_realtime add table public.generation_jobs;
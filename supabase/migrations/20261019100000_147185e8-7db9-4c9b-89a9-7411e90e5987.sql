@@ -0,0 +1,44 @@
+-- Per-platform publishing schedule stored alongside each post
+alter table public.social_media_videos
+  add column youtube_scheduled_at timestamp with time zone,
+  add column instagram_scheduled_at timestamp with time zone,
+  add column facebook_scheduled_at timestamp with time zone,
+  add column youtube_posted_at timestamp with time zone,
+  add column instagram_posted_at timestamp with time zone,
+  add column facebook_posted_at timestamp with time zone;
+
+create index social_media_videos_youtube_scheduled_at_idx
+  on public.social_media_videos (youtube_scheduled_at) where youtube_post_status = 'scheduled';
+create index social_media_videos_instagram_scheduled_at_idx
+  on public.social_media_videos (instagram_scheduled_at) where instagram_post_status = 'scheduled';
+create index social_media_videos_facebook_scheduled_at_idx
+  on public.social_media_videos (facebook_scheduled_at) where facebook_post_status = 'scheduled';
+
+-- Stamp the publish time when n8n reports a platform as posted
+create or replace function public.stamp_posted_at()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  posted text[] := array['posted', 'published', 'success', 'succeeded', 'done', 'complete', 'completed'];
+begin
+  if lower(coalesce(new.youtube_post_status, '')) = any(posted)
+     and lower(coalesce(old.youtube_post_status, '')) <> all(posted) then
+    new.youtube_posted_at := now();
+  end if;
+  if lower(coalesce(new.instagram_post_status, '')) = any(posted)
+     and lower(coalesce(old.instagram_post_status, '')) <> all(posted) then
+    new.instagram_posted_at := now();
+  end if;
+  if lower(coalesce(new.facebook_post_status, '')) = any(posted)
+     and lower(coalesce(old.facebook_post_status, '')) <> all(posted) then
+    new.facebook_posted_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+create trigger on_social_media_video_posted
+  before update on public.social_media_videos
+  for each row execute procedure public.stamp_posted_at();
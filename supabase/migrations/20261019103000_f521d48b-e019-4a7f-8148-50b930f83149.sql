@@ -0,0 +1,21 @@
+-- Searchable and filterable columns for the paginated post list
+alter table public.social_media_videos
+  add column media_type text generated always as (
+    case
+      when video_url is null then null
+      when video_url ~* '\.(jpg|jpeg|png|gif|webp)$' then 'image'
+      else 'video'
+    end
+  ) stored,
+  add column search_vector tsvector generated always as (
+    to_tsvector(
+      'simple',
+      coalesce(post_title, '') || ' ' || coalesce(caption, '') || ' ' || coalesce(hashtag, '')
+    )
+  ) stored;
+
+create index social_media_videos_search_vector_idx
+  on public.social_media_videos using gin (search_vector);
+
+create index social_media_videos_user_id_id_idx
+  on public.social_media_videos (user_id, id desc);
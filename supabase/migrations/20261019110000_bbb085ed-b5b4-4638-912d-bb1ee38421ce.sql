@@ -0,0 +1,48 @@
+-- Per-user app settings, replacing localStorage['appSettings']
+create table public.user_settings (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  supabase_url text not null default '',
+  supabase_key text not null default '',
+  n8n_generate_webhook text not null default '',
+  n8n_post_webhook text not null default '',
+  table_name text not null default 'social_media_videos',
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  primary key (user_id)
+);
+
+alter table public.user_settings enable row level security;
+
+-- Settings hold webhook URLs and keys, so only the owner may ever read them
+revoke all on public.user_settings from anon;
+
+create policy "Users can view own settings"
+  on public.user_settings for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own settings"
+  on public.user_settings for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own settings"
+  on public.user_settings for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own settings"
+  on public.user_settings for delete
+  using (auth.uid() = user_id);
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger user_settings_set_updated_at
+  before update on public.user_settings
+  for each row execute procedure public.set_updated_at();
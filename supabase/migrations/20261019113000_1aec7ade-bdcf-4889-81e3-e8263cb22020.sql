@@ -0,0 +1,4 @@
+-- Shared secrets n8n uses to verify the X-Signature header on webhook calls
+alter table public.user_settings
+  add column n8n_generate_secret text not null default '',
+  add column n8n_post_secret text not null default '';
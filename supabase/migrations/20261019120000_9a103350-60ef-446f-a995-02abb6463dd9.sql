@@ -0,0 +1,19 @@
+-- Orders are written by the order bot with the service role and managed by the
+-- whole team from the Orders page, so any signed-in user may read and update them
+alter table public.customer_orders enable row level security;
+
+revoke all on public.customer_orders from anon;
+
+create policy "Authenticated users can view orders"
+  on public.customer_orders for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can update orders"
+  on public.customer_orders for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create index customer_orders_purchase_time_idx
+  on public.customer_orders (purchase_time desc);
@@ -0,0 +1,61 @@
+-- Triage state for tickets the n8n chatbot creates
+alter table public.create_ticket
+  add column status text not null default 'open' check (status in ('open', 'pending', 'resolved')),
+  add column assignee_id uuid references public.profiles(id) on delete set null,
+  add column updated_at timestamp with time zone not null default now();
+
+create index create_ticket_status_created_at_idx on public.create_ticket (status, created_at desc);
+
+create trigger create_ticket_set_updated_at
+  before update on public.create_ticket
+  for each row execute procedure public.set_updated_at();
+
+alter table public.create_ticket enable row level security;
+
+revoke all on public.create_ticket from anon;
+
+-- Tickets are shared by the whole support team
+create policy "Authenticated users can view tickets"
+  on public.create_ticket for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can update tickets"
+  on public.create_ticket for update
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Internal notes, never shown to the customer
+create table public.ticket_notes (
+  id uuid not null default gen_random_uuid(),
+  ticket_id bigint not null references public.create_ticket(id) on delete cascade,
+  author_id uuid not null default auth.uid() references public.profiles(id) on delete cascade,
+  body text not null check (length(trim(body)) > 0),
+  created_at timestamp with time zone not null default now(),
+  primary key (id)
+);
+
+create index ticket_notes_ticket_id_created_at_idx on public.ticket_notes (ticket_id, created_at);
+
+alter table public.ticket_notes enable row level security;
+
+create policy "Authenticated users can view ticket notes"
+  on public.ticket_notes for select
+  to authenticated
+  using (true);
+
+create policy "Users can add notes as themselves"
+  on public.ticket_notes for insert
+  to authenticated
+  with check (auth.uid() = author_id);
+
+create policy "Users can delete own ticket notes"
+  on public.ticket_notes for delete
+  using (auth.uid() = author_id);
+
+-- Assignment needs the list of team members, not just the user's own profile
+create policy "Authenticated users can view profiles"
+  on public.profiles for select
+  to authenticated
+  using (true);
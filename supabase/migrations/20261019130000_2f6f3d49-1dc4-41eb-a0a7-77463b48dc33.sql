@@ -0,0 +1,38 @@
+-- Let the app create products without picking ids by hand
+alter table public."Products"
+  alter column "Id" add generated by default as identity;
+
+select setval(pg_get_serial_sequence('public."Products"', 'Id'), coalesce(max("Id"), 0) + 1, false)
+from public."Products";
+
+-- Name and description pre-fill the Product Ads and UGC forms
+alter table public."Products"
+  add column product_name text,
+  add column product_description text,
+  add column created_at timestamp with time zone not null default now();
+
+alter table public."Products" enable row level security;
+
+revoke all on public."Products" from anon;
+
+-- The catalog is shared by everyone who creates ads
+create policy "Authenticated users can view products"
+  on public."Products" for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can insert products"
+  on public."Products" for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update products"
+  on public."Products" for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete products"
+  on public."Products" for delete
+  to authenticated
+  using (true);
@@ -0,0 +1,33 @@
+-- The n8n vector store writes metadata and embeddings that the generated types never saw;
+-- make sure both columns exist so the app can curate documents
+create extension if not exists vector with schema extensions;
+
+alter table public.documents
+  add column if not exists metadata jsonb,
+  add column if not exists embedding extensions.vector(1536);
+
+alter table public.documents enable row level security;
+
+revoke all on public.documents from anon;
+
+-- The knowledge base is shared by the whole team
+create policy "Authenticated users can view documents"
+  on public.documents for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can insert documents"
+  on public.documents for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update documents"
+  on public.documents for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete documents"
+  on public.documents for delete
+  to authenticated
+  using (true);
@@ -0,0 +1,54 @@
+-- Chat memory is written by the n8n chatbot with the service role; support staff
+-- read transcripts from the Conversations page
+alter table public.n8n_chat_histories enable row level security;
+
+revoke all on public.n8n_chat_histories from anon;
+
+create policy "Authenticated users can view chat histories"
+  on public.n8n_chat_histories for select
+  to authenticated
+  using (true);
+
+create index if not exists n8n_chat_histories_session_id_idx
+  on public.n8n_chat_histories (session_id, id);
+
+-- One row per session, newest activity first. Searching matches the session id or
+-- the text of any message in it, whether LangChain stored it flat or under "data".
+create or replace function public.chat_sessions(search text default null, max_sessions integer default 100)
+returns table (
+  session_id text,
+  message_count bigint,
+  first_message_id bigint,
+  last_message_id bigint,
+  last_message jsonb
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with pattern as (
+    select '%' || replace(replace(replace(coalesce(search, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%' as value
+  ),
+  matching as (
+    select distinct m.session_id
+    from n8n_chat_histories m, pattern p
+    where m.session_id ilike p.value
+      or coalesce(m.message::jsonb ->> 'content', m.message::jsonb -> 'data' ->> 'content') ilike p.value
+  )
+  select
+    h.session_id::text,
+    count(*),
+    min(h.id)::bigint,
+    max(h.id)::bigint,
+    (array_agg(h.message::jsonb order by h.id desc))[1]
+  from n8n_chat_histories h
+  where coalesce(search, '') = ''
+    or h.session_id in (select session_id from matching)
+  group by h.session_id
+  order by max(h.id) desc
+  limit greatest(coalesce(max_sessions, 100), 1);
+$$;
+
+revoke execute on function public.chat_sessions(text, integer) from public, anon;
+grant execute on function public.chat_sessions(text, integer) to authenticated;
@@ -0,0 +1,342 @@
+-- Team workspaces: posts belong to a workspace and members act on them by role.
+--   owner    manages the workspace, its members and invites, and everything editors can do
+--   editor   creates, edits, posts and deletes posts
+--   reviewer reads posts (approvals build on this role)
+--   viewer   reads posts
+create table public.workspaces (
+  id uuid not null default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  created_by uuid default auth.uid() references public.profiles(id) on delete set null,
+  created_at timestamp with time zone not null default now(),
+  primary key (id)
+);
+
+create table public.workspace_members (
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'reviewer', 'viewer')),
+  created_at timestamp with time zone not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index workspace_members_user_id_idx on public.workspace_members (user_id);
+
+-- Pending invites, matched to the invitee by email when they sign in
+create table public.workspace_invites (
+  id uuid not null default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  email text not null check (email = lower(trim(email)) and email like '%@%'),
+  role text not null check (role in ('owner', 'editor', 'reviewer', 'viewer')),
+  invited_by uuid default auth.uid() references public.profiles(id) on delete set null,
+  created_at timestamp with time zone not null default now(),
+  primary key (id),
+  unique (workspace_id, email)
+);
+
+create index workspace_invites_email_idx on public.workspace_invites (email);
+
+-- Policy helpers. Security definer so policies on workspace_members can ask
+-- about membership without recursing into their own RLS.
+create or replace function public.workspace_role(target_workspace uuid)
+returns text
+language sql
+stable
+security definer set search_path = public
+as $$
+  select role
+  from public.workspace_members
+  where workspace_id = target_workspace
+    and user_id = auth.uid();
+$$;
+
+create or replace function public.has_workspace_role(target_workspace uuid, allowed_roles text[])
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select coalesce(public.workspace_role(target_workspace) = any(allowed_roles), false);
+$$;
+
+revoke execute on function public.workspace_role(uuid) from public, anon;
+revoke execute on function public.has_workspace_role(uuid, text[]) from public, anon;
+grant execute on function public.workspace_role(uuid) to authenticated;
+grant execute on function public.has_workspace_role(uuid, text[]) to authenticated;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invites enable row level security;
+
+revoke all on public.workspaces from anon;
+revoke all on public.workspace_members from anon;
+revoke all on public.workspace_invites from anon;
+
+create policy "Members and invitees can view workspaces"
+  on public.workspaces for select
+  to authenticated
+  using (
+    public.has_workspace_role(id, array['owner', 'editor', 'reviewer', 'viewer'])
+    or exists (
+      select 1 from public.workspace_invites i
+      where i.workspace_id = workspaces.id
+        and i.email = lower(auth.jwt() ->> 'email')
+    )
+  );
+
+create policy "Owners can rename workspaces"
+  on public.workspaces for update
+  to authenticated
+  using (public.has_workspace_role(id, array['owner']))
+  with check (public.has_workspace_role(id, array['owner']));
+
+create policy "Owners can delete workspaces"
+  on public.workspaces for delete
+  to authenticated
+  using (public.has_workspace_role(id, array['owner']));
+
+create policy "Members can view their team"
+  on public.workspace_members for select
+  to authenticated
+  using (public.has_workspace_role(workspace_id, array['owner', 'editor', 'reviewer', 'viewer']));
+
+create policy "Owners can change roles"
+  on public.workspace_members for update
+  to authenticated
+  using (public.has_workspace_role(workspace_id, array['owner']))
+  with check (public.has_workspace_role(workspace_id, array['owner']));
+
+create policy "Owners can remove members and members can leave"
+  on public.workspace_members for delete
+  to authenticated
+  using (auth.uid() = user_id or public.has_workspace_role(workspace_id, array['owner']));
+
+create policy "Owners and invitees can view invites"
+  on public.workspace_invites for select
+  to authenticated
+  using (
+    public.has_workspace_role(workspace_id, array['owner'])
+    or email = lower(auth.jwt() ->> 'email')
+  );
+
+create policy "Owners can invite"
+  on public.workspace_invites for insert
+  to authenticated
+  with check (auth.uid() = invited_by and public.has_workspace_role(workspace_id, array['owner']));
+
+create policy "Owners can revoke and invitees can decline invites"
+  on public.workspace_invites for delete
+  to authenticated
+  using (
+    public.has_workspace_role(workspace_id, array['owner'])
+    or email = lower(auth.jwt() ->> 'email')
+  );
+
+-- Whoever creates a workspace owns it
+create or replace function public.add_workspace_owner()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if new.created_by is not null then
+    insert into public.workspace_members (workspace_id, user_id, role)
+    values (new.id, new.created_by, 'owner');
+  end if;
+  return new;
+end;
+$$;
+
+create trigger on_workspace_created
+  after insert on public.workspaces
+  for each row execute procedure public.add_workspace_owner();
+
+-- A workspace must always keep an owner. Deleting the workspace or the owner's
+-- account cascades past this check.
+create or replace function public.keep_workspace_owner()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if old.role = 'owner'
+     and (tg_op = 'DELETE' or new.role <> 'owner')
+     and exists (select 1 from public.workspaces where id = old.workspace_id)
+     and exists (select 1 from public.profiles where id = old.user_id)
+     and not exists (
+       select 1 from public.workspace_members
+       where workspace_id = old.workspace_id
+         and role = 'owner'
+         and user_id <> old.user_id
+     ) then
+    raise exception 'A workspace needs at least one owner. Make someone else an owner first.'
+      using errcode = 'check_violation';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger on_workspace_member_changed
+  before update of role or delete on public.workspace_members
+  for each row execute procedure public.keep_workspace_owner();
+
+-- Creating through a function lets the caller read the new row back: a plain
+-- insert ... returning runs the select policy before the owner row exists
+create or replace function public.create_workspace(workspace_name text)
+returns public.workspaces
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  workspace public.workspaces;
+begin
+  insert into public.workspaces (name, created_by)
+  values (trim(workspace_name), auth.uid())
+  returning * into workspace;
+
+  return workspace;
+end;
+$$;
+
+revoke execute on function public.create_workspace(text) from public, anon;
+grant execute on function public.create_workspace(text) to authenticated;
+
+-- Joins the signed-in user to the workspace they were invited to, with the invited role
+create or replace function public.accept_workspace_invite(invite_id uuid)
+returns uuid
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  invite public.workspace_invites;
+begin
+  select * into invite
+  from public.workspace_invites
+  where id = invite_id
+    and email = lower(auth.jwt() ->> 'email');
+
+  if not found then
+    raise exception 'This invite no longer exists or was sent to another email address.'
+      using errcode = 'no_data_found';
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (invite.workspace_id, auth.uid(), invite.role)
+  on conflict (workspace_id, user_id) do nothing;
+
+  delete from public.workspace_invites where id = invite.id;
+
+  return invite.workspace_id;
+end;
+$$;
+
+revoke execute on function public.accept_workspace_invite(uuid) from public, anon;
+grant execute on function public.accept_workspace_invite(uuid) to authenticated;
+
+-- Every account starts with a workspace of its own, so solo users see no difference
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email)
+  values (new.id, new.email);
+
+  insert into public.workspaces (name, created_by)
+  values ('Personal', new.id);
+
+  return new;
+end;
+$$;
+
+insert into public.workspaces (name, created_by)
+select 'Personal', p.id
+from public.profiles p;
+
+-- Posts move from per-user to per-workspace ownership; user_id stays as the author
+alter table public.social_media_videos
+  add column workspace_id uuid references public.workspaces(id) on delete cascade;
+
+update public.social_media_videos v
+set workspace_id = w.id
+from public.workspaces w
+where w.created_by = v.user_id;
+
+create index social_media_videos_workspace_id_id_idx
+  on public.social_media_videos (workspace_id, id desc);
+
+-- n8n stores the job the post came from; the job knows the workspace it was requested in
+alter table public.generation_jobs
+  add column workspace_id uuid references public.workspaces(id) on delete set null;
+
+update public.generation_jobs j
+set workspace_id = w.id
+from public.workspaces w
+where w.created_by = j.user_id;
+
+-- Jobs may only be filed against workspaces the user can create posts in
+drop policy "Users can insert own generation jobs" on public.generation_jobs;
+
+create policy "Users can insert own generation jobs"
+  on public.generation_jobs for insert
+  with check (
+    auth.uid() = user_id
+    and (workspace_id is null or public.has_workspace_role(workspace_id, array['owner', 'editor']))
+  );
+
+-- n8n writes posts with the service role and may not know about workspaces, so
+-- fill the workspace from the generation job, then from the author's oldest workspace
+create or replace function public.assign_video_workspace()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if new.workspace_id is null and new.generation_job_id is not null then
+    select workspace_id into new.workspace_id
+    from public.generation_jobs
+    where id = new.generation_job_id;
+  end if;
+
+  if new.workspace_id is null and new.user_id is not null then
+    select workspace_id into new.workspace_id
+    from public.workspace_members
+    where user_id = new.user_id
+      and role = 'owner'
+    order by created_at
+    limit 1;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger on_social_media_video_insert_workspace
+  before insert on public.social_media_videos
+  for each row execute procedure public.assign_video_workspace();
+
+drop policy "Users can view own videos" on public.social_media_videos;
+drop policy "Users can insert own videos" on public.social_media_videos;
+drop policy "Users can update own videos" on public.social_media_videos;
+drop policy "Users can delete own videos" on public.social_media_videos;
+
+create policy "Members can view workspace videos"
+  on public.social_media_videos for select
+  to authenticated
+  using (public.has_workspace_role(workspace_id, array['owner', 'editor', 'reviewer', 'viewer']));
+
+create policy "Editors can insert workspace videos"
+  on public.social_media_videos for insert
+  to authenticated
+  with check (public.has_workspace_role(workspace_id, array['owner', 'editor']));
+
+create policy "Editors can update workspace videos"
+  on public.social_media_videos for update
+  to authenticated
+  using (public.has_workspace_role(workspace_id, array['owner', 'editor']))
+  with check (public.has_workspace_role(workspace_id, array['owner', 'editor']));
+
+create policy "Editors can delete workspace videos"
+  on public.social_media_videos for delete
+  to authenticated
+  using (public.has_workspace_role(workspace_id, array['owner', 'editor']));
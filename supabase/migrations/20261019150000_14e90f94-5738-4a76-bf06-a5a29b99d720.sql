@@ -0,0 +1,202 @@
+-- Approval workflow: a post moves draft -> in_review -> approved -> published and
+-- can only be posted or scheduled once approved. Every step is logged in post_approvals.
+alter table public.social_media_videos
+  add column approval_status text not null default 'draft'
+    check (approval_status in ('draft', 'in_review', 'approved', 'published'));
+
+-- Posts that already went out are published; ones already scheduled keep their slot
+update public.social_media_videos
+set approval_status = case
+  when coalesce(youtube_posted_at, instagram_posted_at, facebook_posted_at) is not null
+    or lower(coalesce(youtube_post_status, '')) in ('posted', 'published', 'success', 'succeeded', 'done', 'complete', 'completed')
+    or lower(coalesce(instagram_post_status, '')) in ('posted', 'published', 'success', 'succeeded', 'done', 'complete', 'completed')
+    or lower(coalesce(facebook_post_status, '')) in ('posted', 'published', 'success', 'succeeded', 'done', 'complete', 'completed')
+    then 'published'
+  when 'scheduled' in (lower(youtube_post_status), lower(instagram_post_status), lower(facebook_post_status))
+    then 'approved'
+  else 'draft'
+end;
+
+create index social_media_videos_workspace_id_approval_status_idx
+  on public.social_media_videos (workspace_id, approval_status);
+
+create table public.post_approvals (
+  id uuid not null default gen_random_uuid(),
+  video_id bigint not null references public.social_media_videos(id) on delete cascade,
+  -- Null when n8n or the scheduler made the change
+  actor_id uuid default auth.uid() references public.profiles(id) on delete set null,
+  action text not null check (action in ('submitted', 'approved', 'changes_requested', 'reopened', 'published')),
+  from_status text not null,
+  to_status text not null,
+  comment text,
+  created_at timestamp with time zone not null default now(),
+  primary key (id)
+);
+
+create index post_approvals_video_id_created_at_idx on public.post_approvals (video_id, created_at desc);
+
+alter table public.post_approvals enable row level security;
+
+revoke all on public.post_approvals from anon;
+
+-- Readable by whoever can see the post. Rows are only written by the functions below.
+create policy "Members can view post approvals"
+  on public.post_approvals for select
+  to authenticated
+  using (exists (select 1 from public.social_media_videos v where v.id = post_approvals.video_id));
+
+-- Keeps approval_status honest on every write to a post:
+--   * the app can only change it through review_post
+--   * editing the content of a post in review or approved sends it back to draft
+--   * the app can't mark an unapproved post as posting or scheduled
+--   * the first successful post of an approved post publishes it
+-- Named to fire after on_social_media_video_posted so the posted_at stamps are set.
+create or replace function public.enforce_post_approval()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if auth.role() = 'authenticated' then
+      new.approval_status := 'draft';
+    end if;
+    return new;
+  end if;
+
+  if new.approval_status is distinct from old.approval_status
+     and auth.role() = 'authenticated'
+     and coalesce(current_setting('app.reviewing_post', true), '') <> 'on' then
+    raise exception 'Use the review actions to change whether a post is approved.'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if old.approval_status in ('in_review', 'approved')
+     and new.approval_status = old.approval_status
+     and (new.post_title, new.caption, new.hashtag, new.video_url)
+       is distinct from (old.post_title, old.caption, old.hashtag, old.video_url) then
+    new.approval_status := 'draft';
+    insert into public.post_approvals (video_id, action, from_status, to_status)
+    values (new.id, 'reopened', old.approval_status, 'draft');
+  end if;
+
+  if auth.role() = 'authenticated'
+     and new.approval_status not in ('approved', 'published')
+     and (
+       (lower(new.youtube_post_status) in ('posting', 'scheduled') and new.youtube_post_status is distinct from old.youtube_post_status)
+       or (lower(new.instagram_post_status) in ('posting', 'scheduled') and new.instagram_post_status is distinct from old.instagram_post_status)
+       or (lower(new.facebook_post_status) in ('posting', 'scheduled') and new.facebook_post_status is distinct from old.facebook_post_status)
+     ) then
+    raise exception 'This post needs approval before it can be posted or scheduled.'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if new.approval_status = 'approved'
+     and (
+       (new.youtube_posted_at is not null and new.youtube_posted_at is distinct from old.youtube_posted_at)
+       or (new.instagram_posted_at is not null and new.instagram_posted_at is distinct from old.instagram_posted_at)
+       or (new.facebook_posted_at is not null and new.facebook_posted_at is distinct from old.facebook_posted_at)
+     ) then
+    new.approval_status := 'published';
+    insert into public.post_approvals (video_id, action, from_status, to_status)
+    values (new.id, 'published', 'approved', 'published');
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger on_social_media_video_review
+  before insert or update on public.social_media_videos
+  for each row execute procedure public.enforce_post_approval();
+
+-- The one way the app moves a post through review. Checks the caller's role in
+-- the post's workspace, since reviewers can't update posts directly.
+--   submit           draft -> in_review          editors and owners
+--   approve          draft/in_review -> approved  reviewers and owners
+--   request_changes  in_review/approved -> draft  reviewers and owners, comment required
+create or replace function public.review_post(post_id bigint, review_action text, review_comment text default null)
+returns text
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  post public.social_media_videos;
+  member_role text;
+  next_status text;
+  logged_action text;
+begin
+  select * into post
+  from public.social_media_videos
+  where id = post_id
+  for update;
+
+  member_role := case when found then public.workspace_role(post.workspace_id) end;
+  if member_role is null then
+    raise exception 'This post no longer exists or is in a workspace you are not a member of.'
+      using errcode = 'no_data_found';
+  end if;
+
+  case review_action
+    when 'submit' then
+      if member_role not in ('owner', 'editor') then
+        raise exception 'Only editors and owners can submit posts for review.'
+          using errcode = 'insufficient_privilege';
+      end if;
+      if post.approval_status <> 'draft' then
+        raise exception 'Only drafts can be submitted for review.'
+          using errcode = 'check_violation';
+      end if;
+      next_status := 'in_review';
+      logged_action := 'submitted';
+    when 'approve' then
+      if member_role not in ('owner', 'reviewer') then
+        raise exception 'Only reviewers and owners can approve posts.'
+          using errcode = 'insufficient_privilege';
+      end if;
+      if post.approval_status not in ('draft', 'in_review') then
+        raise exception 'This post is not waiting for approval.'
+          using errcode = 'check_violation';
+      end if;
+      next_status := 'approved';
+      logged_action := 'approved';
+    when 'request_changes' then
+      if member_role not in ('owner', 'reviewer') then
+        raise exception 'Only reviewers and owners can request changes.'
+          using errcode = 'insufficient_privilege';
+      end if;
+      if post.approval_status not in ('in_review', 'approved') then
+        raise exception 'Only posts in review or approved can be sent back.'
+          using errcode = 'check_violation';
+      end if;
+      if nullif(trim(review_comment), '') is null then
+        raise exception 'Say what needs to change.'
+          using errcode = 'check_violation';
+      end if;
+      next_status := 'draft';
+      logged_action := 'changes_requested';
+    else
+      raise exception 'Unknown review action: %', review_action
+        using errcode = 'invalid_parameter_value';
+  end case;
+
+  if post.video_url is null and next_status <> 'draft' then
+    raise exception 'Wait for the media to finish processing first.'
+      using errcode = 'check_violation';
+  end if;
+
+  perform set_config('app.reviewing_post', 'on', true);
+  update public.social_media_videos
+  set approval_status = next_status
+  where id = post_id;
+  perform set_config('app.reviewing_post', 'off', true);
+
+  insert into public.post_approvals (video_id, action, from_status, to_status, comment)
+  values (post_id, logged_action, post.approval_status, next_status, nullif(trim(review_comment), ''));
+
+  return next_status;
+end;
+$$;
+
+revoke execute on function public.review_post(bigint, text, text) from public, anon;
+grant execute on function public.review_post(bigint, text, text) to authenticated;
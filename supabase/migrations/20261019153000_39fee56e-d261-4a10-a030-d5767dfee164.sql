@@ -0,0 +1,150 @@
+-- Comment threads on posts. Anyone in the post's workspace can read them; owners,
+-- editors and reviewers can write. Comments can mention members and, on videos,
+-- point at a moment in the video.
+create table public.post_comments (
+  id uuid not null default gen_random_uuid(),
+  video_id bigint not null references public.social_media_videos(id) on delete cascade,
+  author_id uuid default auth.uid() references public.profiles(id) on delete set null,
+  body text not null check (length(trim(body)) between 1 and 5000),
+  -- Seconds into the video the comment is about
+  video_time numeric check (video_time >= 0),
+  mentions uuid[] not null default '{}',
+  resolved_at timestamp with time zone,
+  resolved_by uuid references public.profiles(id) on delete set null,
+  created_at timestamp with time zone not null default now(),
+  primary key (id)
+);
+
+create index post_comments_video_id_created_at_idx on public.post_comments (video_id, created_at);
+
+-- How far each user has read each thread, for the unread badge
+create table public.post_comment_reads (
+  user_id uuid not null default auth.uid() references public.profiles(id) on delete cascade,
+  video_id bigint not null references public.social_media_videos(id) on delete cascade,
+  last_read_at timestamp with time zone not null default now(),
+  primary key (user_id, video_id)
+);
+
+alter table public.post_comments enable row level security;
+alter table public.post_comment_reads enable row level security;
+
+revoke all on public.post_comments from anon;
+revoke all on public.post_comment_reads from anon;
+
+-- Comments are never edited, only resolved
+revoke update on public.post_comments from authenticated;
+grant update (resolved_at) on public.post_comments to authenticated;
+
+-- The videos select policy already limits this to the post's workspace members
+create policy "Members can view post comments"
+  on public.post_comments for select
+  to authenticated
+  using (exists (select 1 from public.social_media_videos v where v.id = post_comments.video_id));
+
+create policy "Contributors can comment"
+  on public.post_comments for insert
+  to authenticated
+  with check (
+    auth.uid() = author_id
+    and exists (
+      select 1 from public.social_media_videos v
+      where v.id = post_comments.video_id
+        and public.has_workspace_role(v.workspace_id, array['owner', 'editor', 'reviewer'])
+    )
+  );
+
+create policy "Contributors can resolve comments"
+  on public.post_comments for update
+  to authenticated
+  using (
+    exists (
+      select 1 from public.social_media_videos v
+      where v.id = post_comments.video_id
+        and public.has_workspace_role(v.workspace_id, array['owner', 'editor', 'reviewer'])
+    )
+  );
+
+create policy "Authors and owners can delete comments"
+  on public.post_comments for delete
+  to authenticated
+  using (
+    auth.uid() = author_id
+    or exists (
+      select 1 from public.social_media_videos v
+      where v.id = post_comments.video_id
+        and public.has_workspace_role(v.workspace_id, array['owner'])
+    )
+  );
+
+create policy "Users can view own comment reads"
+  on public.post_comment_reads for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own comment reads"
+  on public.post_comment_reads for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own comment reads"
+  on public.post_comment_reads for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Only members of the post's workspace can be mentioned, and the resolver is
+-- always whoever resolved it
+create or replace function public.prepare_post_comment()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.mentions := array(
+      select distinct m.user_id
+      from public.workspace_members m
+      join public.social_media_videos v on v.workspace_id = m.workspace_id
+      where v.id = new.video_id
+        and m.user_id = any(new.mentions)
+    );
+    new.resolved_at := null;
+    new.resolved_by := null;
+  elsif new.resolved_at is distinct from old.resolved_at then
+    new.resolved_by := case when new.resolved_at is null then null else auth.uid() end;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger on_post_comment_written
+  before insert or update on public.post_comments
+  for each row execute procedure public.prepare_post_comment();
+
+-- Unread comments by others on each of the given posts, and whether any of them
+-- mention the caller. Runs with the caller's rights so RLS still applies.
+create or replace function public.unread_comment_counts(video_ids bigint[])
+returns table (video_id bigint, unread integer, mentioned boolean)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    c.video_id,
+    count(*)::integer as unread,
+    bool_or(auth.uid() = any(c.mentions)) as mentioned
+  from public.post_comments c
+  left join public.post_comment_reads r
+    on r.video_id = c.video_id
+   and r.user_id = auth.uid()
+  where c.video_id = any(video_ids)
+    and c.author_id is distinct from auth.uid()
+    and c.created_at > coalesce(r.last_read_at, '-infinity'::timestamp with time zone)
+  group by c.video_id;
+$$;
+
+revoke execute on function public.unread_comment_counts(bigint[]) from public, anon;
+grant execute on function public.unread_comment_counts(bigint[]) to authenticated;
+
+alter table public.post_comments replica identity full;
+alter publication supabase_realtime add table public.post_comments;
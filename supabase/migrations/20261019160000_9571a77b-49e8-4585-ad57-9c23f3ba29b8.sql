@@ -0,0 +1,117 @@
+-- Revision history for the editable text of a post. Every real change to the
+-- title, caption or hashtags is kept with who made it, and any earlier version
+-- can be restored.
+create table public.post_revisions (
+  id uuid not null default gen_random_uuid(),
+  video_id bigint not null references public.social_media_videos(id) on delete cascade,
+  field text not null check (field in ('post_title', 'caption', 'hashtag')),
+  old_value text,
+  new_value text,
+  --   baseline  the value when history started being kept
+  --   created   the value the post was created with, usually by n8n
+  --   edited    changed in the app or by n8n
+  --   restored  an earlier version brought back
+  source text not null check (source in ('baseline', 'created', 'edited', 'restored')),
+  restored_from uuid references public.post_revisions(id) on delete set null,
+  -- Null when n8n made the change
+  author_id uuid default auth.uid() references public.profiles(id) on delete set null,
+  created_at timestamp with time zone not null default now(),
+  primary key (id)
+);
+
+create index post_revisions_video_id_created_at_idx on public.post_revisions (video_id, created_at desc);
+
+alter table public.post_revisions enable row level security;
+
+revoke all on public.post_revisions from anon;
+
+-- Written only by the trigger below
+create policy "Members can view post revisions"
+  on public.post_revisions for select
+  to authenticated
+  using (exists (select 1 from public.social_media_videos v where v.id = post_revisions.video_id));
+
+insert into public.post_revisions (video_id, field, new_value, source, author_id)
+select v.id, f.field, f.value, 'baseline', null
+from public.social_media_videos v
+cross join lateral (
+  values ('post_title', v.post_title), ('caption', v.caption), ('hashtag', v.hashtag)
+) as f(field, value)
+where f.value is not null;
+
+create or replace function public.record_post_revisions()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  restoring uuid := nullif(current_setting('app.restoring_revision', true), '')::uuid;
+  kind text := case
+    when tg_op = 'INSERT' then 'created'
+    when restoring is not null then 'restored'
+    else 'edited'
+  end;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.post_revisions (video_id, field, new_value, source)
+    select new.id, f.field, f.value, kind
+    from (values ('post_title', new.post_title), ('caption', new.caption), ('hashtag', new.hashtag)) as f(field, value)
+    where f.value is not null;
+    return new;
+  end if;
+
+  insert into public.post_revisions (video_id, field, old_value, new_value, source, restored_from)
+  select new.id, f.field, f.old_value, f.new_value, kind, restoring
+  from (
+    values
+      ('post_title', old.post_title, new.post_title),
+      ('caption', old.caption, new.caption),
+      ('hashtag', old.hashtag, new.hashtag)
+  ) as f(field, old_value, new_value)
+  where f.new_value is distinct from f.old_value;
+
+  return new;
+end;
+$$;
+
+create trigger on_social_media_video_text_changed
+  after insert or update of post_title, caption, hashtag on public.social_media_videos
+  for each row execute procedure public.record_post_revisions();
+
+-- Sets the field back to the value a revision recorded. Runs with the caller's
+-- rights, so only those who can edit the post can restore.
+create or replace function public.restore_post_revision(revision_id uuid)
+returns text
+language plpgsql
+set search_path = public
+as $$
+declare
+  revision public.post_revisions;
+  restored integer;
+begin
+  select * into revision
+  from public.post_revisions
+  where id = revision_id;
+
+  if not found then
+    raise exception 'This version no longer exists.'
+      using errcode = 'no_data_found';
+  end if;
+
+  perform set_config('app.restoring_revision', revision.id::text, true);
+  execute format('update public.social_media_videos set %I = $1 where id = $2', revision.field)
+    using revision.new_value, revision.video_id;
+  get diagnostics restored = row_count;
+  perform set_config('app.restoring_revision', '', true);
+
+  if restored = 0 then
+    raise exception 'Only editors and owners can restore earlier versions.'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return revision.new_value;
+end;
+$$;
+
+revoke execute on function public.restore_post_revision(uuid) from public, anon;
+grant execute on function public.restore_post_revision(uuid) to authenticated;
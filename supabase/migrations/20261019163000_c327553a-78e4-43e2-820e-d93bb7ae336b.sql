@@ -0,0 +1,21 @@
+-- Hashtags used across a workspace's posts, most used first, for suggestions in
+-- the hashtag editor. Tags are compared without case and returned lowercase.
+create or replace function public.popular_hashtags(target_workspace uuid, max_tags integer default 50)
+returns table (tag text, uses bigint)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select lower(m[1]) as tag, count(distinct v.id) as uses
+  from social_media_videos v
+  cross join lateral regexp_matches(v.hashtag, '#([[:alnum:]_]+)', 'g') as m
+  where v.workspace_id = target_workspace
+    and v.hashtag is not null
+  group by lower(m[1])
+  order by count(distinct v.id) desc, lower(m[1])
+  limit greatest(coalesce(max_tags, 50), 1);
+$$;
+
+revoke execute on function public.popular_hashtags(uuid, integer) from public, anon;
+grant execute on function public.popular_hashtags(uuid, integer) to authenticated;
@@ -0,0 +1,64 @@
+-- Per-platform versions of the title and caption. Keyed by platform, each with
+-- an optional title and caption that replace the post's own when it goes to
+-- that platform, e.g. {"instagram": {"caption": "..."}}. Missing keys fall back
+-- to post_title and caption.
+alter table public.social_media_videos
+  add column platform_overrides jsonb not null default '{}'::jsonb
+    constraint social_media_videos_platform_overrides_object check (jsonb_typeof(platform_overrides) = 'object');
+
+-- Editing a platform's version is editing the post, so it sends an approved post
+-- back to draft like any other content change.
+create or replace function public.enforce_post_approval()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if auth.role() = 'authenticated' then
+      new.approval_status := 'draft';
+    end if;
+    return new;
+  end if;
+
+  if new.approval_status is distinct from old.approval_status
+     and auth.role() = 'authenticated'
+     and coalesce(current_setting('app.reviewing_post', true), '') <> 'on' then
+    raise exception 'Use the review actions to change whether a post is approved.'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if old.approval_status in ('in_review', 'approved')
+     and new.approval_status = old.approval_status
+     and (new.post_title, new.caption, new.hashtag, new.video_url, new.platform_overrides)
+       is distinct from (old.post_title, old.caption, old.hashtag, old.video_url, old.platform_overrides) then
+    new.approval_status := 'draft';
+    insert into public.post_approvals (video_id, action, from_status, to_status)
+    values (new.id, 'reopened', old.approval_status, 'draft');
+  end if;
+
+  if auth.role() = 'authenticated'
+     and new.approval_status not in ('approved', 'published')
+     and (
+       (lower(new.youtube_post_status) in ('posting', 'scheduled') and new.youtube_post_status is distinct from old.youtube_post_status)
+       or (lower(new.instagram_post_status) in ('posting', 'scheduled') and new.instagram_post_status is distinct from old.instagram_post_status)
+       or (lower(new.facebook_post_status) in ('posting', 'scheduled') and new.facebook_post_status is distinct from old.facebook_post_status)
+     ) then
+    raise exception 'This post needs approval before it can be posted or scheduled.'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if new.approval_status = 'approved'
+     and (
+       (new.youtube_posted_at is not null and new.youtube_posted_at is distinct from old.youtube_posted_at)
+       or (new.instagram_posted_at is not null and new.instagram_posted_at is distinct from old.instagram_posted_at)
+       or (new.facebook_posted_at is not null and new.facebook_posted_at is distinct from old.facebook_posted_at)
+     ) then
+    new.approval_status := 'published';
+    insert into public.post_approvals (video_id, action, from_status, to_status)
+    values (new.id, 'published', 'approved', 'published');
+  end if;
+
+  return new;
+end;
+$$;
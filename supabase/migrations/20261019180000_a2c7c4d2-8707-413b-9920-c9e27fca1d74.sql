@@ -0,0 +1,28 @@
+-- Sign-up is open, so letting every account read every profile leaked all
+-- users' emails. Profiles are now visible to their owner and to people who share
+-- a workspace with them, which is everyone the app needs to name: ticket
+-- assignees, comment authors, reviewers and editors.
+drop policy "Authenticated users can view profiles" on public.profiles;
+
+create or replace function public.shares_workspace_with(other_user uuid)
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.workspace_members mine
+    join public.workspace_members theirs on theirs.workspace_id = mine.workspace_id
+    where mine.user_id = auth.uid()
+      and theirs.user_id = other_user
+  );
+$$;
+
+revoke execute on function public.shares_workspace_with(uuid) from public, anon;
+grant execute on function public.shares_workspace_with(uuid) to authenticated;
+
+create policy "Members can view co-members' profiles"
+  on public.profiles for select
+  to authenticated
+  using (public.shares_workspace_with(id));
@@ -0,0 +1,40 @@
+-- Orders hold customers' names, phone numbers and addresses, and sign-up is
+-- open, so "any signed-in user" was anyone on the internet. Only the support
+-- team can read and update them now. Agents are added by an admin:
+--   insert into public.support_agents (user_id)
+--   select id from public.profiles where email = 'agent@example.com';
+create table public.support_agents (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamp with time zone not null default now(),
+  primary key (user_id)
+);
+
+alter table public.support_agents enable row level security;
+
+revoke all on public.support_agents from anon, authenticated;
+
+create or replace function public.is_support_agent()
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select exists (select 1 from public.support_agents where user_id = auth.uid());
+$$;
+
+revoke execute on function public.is_support_agent() from public, anon;
+grant execute on function public.is_support_agent() to authenticated;
+
+drop policy "Authenticated users can view orders" on public.customer_orders;
+drop policy "Authenticated users can update orders" on public.customer_orders;
+
+create policy "Support agents can view orders"
+  on public.customer_orders for select
+  to authenticated
+  using (public.is_support_agent());
+
+create policy "Support agents can update orders"
+  on public.customer_orders for update
+  to authenticated
+  using (public.is_support_agent())
+  with check (public.is_support_agent());
@@ -0,0 +1,52 @@
+-- The same status transitions the Orders page offers (ORDER_TRANSITIONS in
+-- src/lib/orders.ts), enforced for the app's users so a direct request can't
+-- skip or undo a step. The order bot writes with the service role and keeps
+-- setting whatever status it likes.
+create or replace function public.normalize_order_status(raw text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when lower(trim(raw)) = 'canceled' then 'cancelled'
+    when lower(trim(raw)) in ('pending', 'confirmed', 'shipped', 'delivered', 'cancelled', 'returned') then lower(trim(raw))
+    -- Anything unrecognised, including null, counts as pending
+    else 'pending'
+  end;
+$$;
+
+create or replace function public.enforce_order_status_transition()
+returns trigger
+language plpgsql
+security invoker set search_path = public
+as $$
+declare
+  from_status text := public.normalize_order_status(old.order_status);
+  to_status text := lower(trim(new.order_status));
+begin
+  if auth.role() <> 'authenticated' or new.order_status is not distinct from old.order_status then
+    return new;
+  end if;
+
+  if to_status is null or to_status not in ('pending', 'confirmed', 'shipped', 'delivered', 'cancelled', 'returned') then
+    raise exception 'Unknown order status "%".', new.order_status
+      using errcode = 'check_violation';
+  end if;
+
+  if not (
+    (from_status = 'pending' and to_status in ('confirmed', 'cancelled'))
+    or (from_status = 'confirmed' and to_status in ('shipped', 'cancelled'))
+    or (from_status = 'shipped' and to_status in ('delivered', 'returned'))
+    or (from_status = 'delivered' and to_status = 'returned')
+  ) then
+    raise exception 'A % order cannot be marked %.', from_status, to_status
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger on_customer_order_status_change
+  before update of order_status on public.customer_orders
+  for each row execute procedure public.enforce_order_status_transition();
@@ -0,0 +1,37 @@
+-- Users with two-factor authentication need an AAL2 session to post or
+-- schedule. The app checks this before it writes, and this trigger holds a
+-- direct request with a password-only session to the same rule. n8n and the
+-- scheduler write with the service role and aren't affected.
+create or replace function public.require_posting_assurance()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if auth.role() <> 'authenticated' or coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2' then
+    return new;
+  end if;
+
+  if not (
+    (lower(new.youtube_post_status) in ('posting', 'scheduled') and new.youtube_post_status is distinct from old.youtube_post_status)
+    or (lower(new.instagram_post_status) in ('posting', 'scheduled') and new.instagram_post_status is distinct from old.instagram_post_status)
+    or (lower(new.facebook_post_status) in ('posting', 'scheduled') and new.facebook_post_status is distinct from old.facebook_post_status)
+    or (new.youtube_scheduled_at is not null and new.youtube_scheduled_at is distinct from old.youtube_scheduled_at)
+    or (new.instagram_scheduled_at is not null and new.instagram_scheduled_at is distinct from old.instagram_scheduled_at)
+    or (new.facebook_scheduled_at is not null and new.facebook_scheduled_at is distinct from old.facebook_scheduled_at)
+  ) then
+    return new;
+  end if;
+
+  if exists (select 1 from auth.mfa_factors where user_id = auth.uid() and status = 'verified') then
+    raise exception 'Enter a code from your authenticator app before posting or scheduling.'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger on_social_media_video_posting_assurance
+  before update on public.social_media_videos
+  for each row execute procedure public.require_posting_assurance();
@@ -0,0 +1,12 @@
+-- The update policy only checked the row before the change, so a user could
+-- hand their job to someone else or file it under another team's workspace.
+-- The row after the change now has to pass the same check as a new job.
+drop policy "Users can update own generation jobs" on public.generation_jobs;
+
+create policy "Users can update own generation jobs"
+  on public.generation_jobs for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (workspace_id is null or public.has_workspace_role(workspace_id, array['owner', 'editor']))
+  );
@@ -0,0 +1,46 @@
+-- Tickets hold customers' names, emails and phone numbers, and sign-up is open,
+-- so they get the same support-agent check as orders. Internal notes follow
+-- their tickets.
+drop policy "Authenticated users can view tickets" on public.create_ticket;
+drop policy "Authenticated users can update tickets" on public.create_ticket;
+
+create policy "Support agents can view tickets"
+  on public.create_ticket for select
+  to authenticated
+  using (public.is_support_agent());
+
+create policy "Support agents can update tickets"
+  on public.create_ticket for update
+  to authenticated
+  using (public.is_support_agent())
+  with check (public.is_support_agent());
+
+-- The chatbot and contact forms still file tickets with the anon key. They can
+-- only add a new open, unassigned ticket with the customer's details, and can't
+-- read it or any other ticket back.
+revoke insert on public.create_ticket from anon, authenticated;
+grant insert ("person name", email, "phone number") on public.create_ticket to anon, authenticated;
+
+create policy "Anyone can submit a ticket"
+  on public.create_ticket for insert
+  to anon, authenticated
+  with check (status = 'open' and assignee_id is null);
+
+drop policy "Authenticated users can view ticket notes" on public.ticket_notes;
+drop policy "Users can add notes as themselves" on public.ticket_notes;
+drop policy "Users can delete own ticket notes" on public.ticket_notes;
+
+create policy "Support agents can view ticket notes"
+  on public.ticket_notes for select
+  to authenticated
+  using (public.is_support_agent());
+
+create policy "Support agents can add notes as themselves"
+  on public.ticket_notes for insert
+  to authenticated
+  with check (auth.uid() = author_id and public.is_support_agent());
+
+create policy "Support agents can delete own ticket notes"
+  on public.ticket_notes for delete
+  to authenticated
+  using (auth.uid() = author_id and public.is_support_agent());
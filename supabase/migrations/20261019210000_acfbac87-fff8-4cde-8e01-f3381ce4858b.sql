@@ -0,0 +1,46 @@
+-- Chat transcripts are customer conversations, so only the support team reads
+-- them, the same as orders and tickets
+drop policy "Authenticated users can view chat histories" on public.n8n_chat_histories;
+
+create policy "Support agents can view chat histories"
+  on public.n8n_chat_histories for select
+  to authenticated
+  using (public.is_support_agent());
+
+-- The policy already hides the rows from everyone else; the function checks too
+-- so it stays closed if it's ever made security definer
+create or replace function public.chat_sessions(search text default null, max_sessions integer default 100)
+returns table (
+  session_id text,
+  message_count bigint,
+  first_message_id bigint,
+  last_message_id bigint,
+  last_message jsonb
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with pattern as (
+    select '%' || replace(replace(replace(coalesce(search, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%' as value
+  ),
+  matching as (
+    select distinct m.session_id
+    from n8n_chat_histories m, pattern p
+    where m.session_id ilike p.value
+      or coalesce(m.message::jsonb ->> 'content', m.message::jsonb -> 'data' ->> 'content') ilike p.value
+  )
+  select
+    h.session_id::text,
+    count(*),
+    min(h.id)::bigint,
+    max(h.id)::bigint,
+    (array_agg(h.message::jsonb order by h.id desc))[1]
+  from n8n_chat_histories h
+  where public.is_support_agent()
+    and (coalesce(search, '') = '' or h.session_id in (select session_id from matching))
+  group by h.session_id
+  order by max(h.id) desc
+  limit greatest(coalesce(max_sessions, 100), 1);
+$$;
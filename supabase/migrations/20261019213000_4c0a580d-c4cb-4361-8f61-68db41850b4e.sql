@@ -0,0 +1,22 @@
+-- The chatbot answers from these documents, so letting anyone who signs up
+-- change them would let them put words in its mouth. Everyone signed in can
+-- still read and search them; only support agents add, edit and delete.
+drop policy "Authenticated users can insert documents" on public.documents;
+drop policy "Authenticated users can update documents" on public.documents;
+drop policy "Authenticated users can delete documents" on public.documents;
+
+create policy "Support agents can insert documents"
+  on public.documents for insert
+  to authenticated
+  with check (public.is_support_agent());
+
+create policy "Support agents can update documents"
+  on public.documents for update
+  to authenticated
+  using (public.is_support_agent())
+  with check (public.is_support_agent());
+
+create policy "Support agents can delete documents"
+  on public.documents for delete
+  to authenticated
+  using (public.is_support_agent());
@@ -0,0 +1,21 @@
+-- Ads are generated from the catalog, so like the knowledge base it is read by
+-- everyone signed in and changed by support agents only
+drop policy "Authenticated users can insert products" on public."Products";
+drop policy "Authenticated users can update products" on public."Products";
+drop policy "Authenticated users can delete products" on public."Products";
+
+create policy "Support agents can insert products"
+  on public."Products" for insert
+  to authenticated
+  with check (public.is_support_agent());
+
+create policy "Support agents can update products"
+  on public."Products" for update
+  to authenticated
+  using (public.is_support_agent())
+  with check (public.is_support_agent());
+
+create policy "Support agents can delete products"
+  on public."Products" for delete
+  to authenticated
+  using (public.is_support_agent());
@@ -0,0 +1,22 @@
+-- The trigger runs as the definer, so a post carrying someone else's job id
+-- could overwrite that job. A post now only updates a job from its own author
+-- or its own workspace.
+create or replace function public.sync_generation_job()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if new.generation_job_id is not null then
+    update public.generation_jobs
+    set video_id = new.id,
+        state = case when new.video_url is not null then 'succeeded' else 'running' end,
+        started_at = coalesce(started_at, now()),
+        completed_at = case when new.video_url is not null then coalesce(completed_at, now()) else completed_at end
+    where id = new.generation_job_id
+      and state <> 'failed'
+      and (user_id = new.user_id or workspace_id = new.workspace_id);
+  end if;
+  return new;
+end;
+$$;
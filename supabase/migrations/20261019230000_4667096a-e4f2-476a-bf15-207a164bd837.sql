@@ -0,0 +1,5 @@
+-- "Owners can change roles" only checks that the caller owns the workspace, which
+-- also let an owner move a membership to another user or workspace. Role is the
+-- only column the app changes, so it is the only one members may update.
+revoke update on public.workspace_members from authenticated;
+grant update (role) on public.workspace_members to authenticated;